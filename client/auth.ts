@@ -5,41 +5,315 @@
  * and integrates with Supabase for data access.
  * 
  * Features:
- * - Google OAuth sign-in via Firebase
- * - JWT token management
+ * - Sign-in via Firebase: Google, GitHub, Apple and other OAuth providers,
+ *   email/password, email link (passwordless) and anonymous
+ * - Multi-factor authentication with TOTP and SMS second factors
+ * - Linking several sign-in methods to one account
+ * - JWT token management with automatic refresh before expiry
  * - Supabase client integration with Firebase tokens
- * - User data retrieval from Supabase
+ * - User data retrieval from Supabase, cached with stale-while-revalidate
+ * - Combined auth state (Firebase user + Supabase profile) observable
+ * - Realtime subscriptions to the signed-in user's rows
+ * - GDPR data export via Cloud Functions
  * - Comprehensive error handling
+ * 
+ * createLumiBaseClient() creates independent client instances with explicit
+ * configuration. The functions exported at module level belong to a default
+ * client configured from process.env.
  */
 
-import { initializeApp, FirebaseApp } from 'firebase/app';
+import { initializeApp, deleteApp, FirebaseApp } from 'firebase/app';
 import { 
   getAuth, 
   signInWithPopup, 
+  signInWithRedirect,
+  getRedirectResult,
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  sendSignInLinkToEmail,
+  isSignInWithEmailLink,
+  signInWithEmailLink as firebaseSignInWithEmailLink,
+  signInAnonymously as firebaseSignInAnonymously,
+  fetchSignInMethodsForEmail,
+  linkWithCredential,
+  linkWithPopup,
+  linkWithRedirect,
+  unlink,
+  updateProfile as firebaseUpdateProfile,
+  onIdTokenChanged,
+  onAuthStateChanged,
+  getMultiFactorResolver,
+  multiFactor,
   GoogleAuthProvider, 
+  GithubAuthProvider,
+  EmailAuthProvider,
+  OAuthProvider,
+  PhoneAuthProvider,
+  PhoneMultiFactorGenerator,
+  TotpMultiFactorGenerator,
+  ActionCodeSettings,
+  ApplicationVerifier,
   Auth,
+  AuthCredential,
+  AuthProvider,
+  MultiFactorAssertion,
+  MultiFactorError,
+  MultiFactorInfo,
+  MultiFactorResolver,
   UserCredential,
   User
 } from 'firebase/auth';
+import { getFunctions, httpsCallable } from 'firebase/functions';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Database, TableName, Tables } from './database.types';
+import { findRowProblems } from './validators';
+import { ProfileCacheAdapter, ProfileStore, createMemoryProfileCache, createProfileStore } from './profile-cache';
+import {
+  RowChange,
+  RowChangeType,
+  createRealtimeSubscriptions,
+  ownRowsFilter,
+  toRowChange,
+} from './realtime';
 
 // Firebase configuration interface
-interface FirebaseConfig {
+export interface FirebaseConfig {
   apiKey: string;
   authDomain: string;
   projectId: string;
 }
 
-// User data interface matching Supabase schema
-interface UserData {
+// Settings for createLumiBaseClient(); missing values are reported as
+// INVALID_CONFIG when the client initializes
+export interface LumiBaseClientOptions {
+  firebase?: FirebaseConfig;
+  supabaseUrl?: string;
+  supabaseAnonKey?: string;
+  // Firebase app name; every client on the same page needs its own
+  appName?: string;
+  // Where getUserData() caches profiles (see profile-cache.ts); defaults to
+  // memory, false disables caching
+  profileCache?: ProfileCacheAdapter | false;
+  // How long a cached profile is served without revalidating (default 30 seconds)
+  profileCacheFreshMs?: number;
+}
+
+// A public.users row; generated from the schema by npm run generate-db-types
+export type UserData = Tables<'users'>;
+
+// Profile fields a user can change with updateUserProfile(); null clears a field
+export interface UserProfilePatch {
+  display_name?: string | null;
+  photo_url?: string | null;
+}
+
+export interface UpdateUserProfileOptions {
+  // updated_at of the profile the edit is based on; defaults to the profile in the auth state
+  expectedUpdatedAt?: string;
+  // Also set displayName/photoURL on the Firebase user (default true). Sign-in
+  // sync and reconciliation copy Firebase's values to public.users, so an edit
+  // made with false is reverted the next time either runs.
+  updateFirebaseProfile?: boolean;
+}
+
+// Data export bundle returned by the exportUserData Cloud Function
+// tables is keyed by "schema.table" (e.g. "public.orders")
+export interface UserDataExport {
+  format_version: number;
   firebase_uid: string;
-  email: string;
-  display_name: string | null;
-  photo_url: string | null;
-  created_at: string;
-  updated_at: string;
+  exported_at: string;
+  tables: Record<string, Record<string, unknown>[]>;
+}
+
+// Options of subscribeToOwnRows()
+export interface OwnRowsOptions {
+  // Column holding the owner's firebase_uid; defaults to firebase_uid or user_id
+  ownerColumn?: string;
+  // Only deliver this kind of change (default: all)
+  event?: RowChangeType | '*';
+  // Called when the channel fails (REALTIME_FAILED) or a row doesn't match the schema (INVALID_DATA)
+  onError?: (error: DataFetchError) => void;
+}
+
+// How OAuth sign-in is presented: 'auto' tries a popup and falls back to a
+// full-page redirect where popups are blocked or unsupported
+export type SignInMode = 'popup' | 'redirect' | 'auto';
+
+// OAuth providers; 'oauth' is any other OIDC/OAuth provider enabled in
+// Firebase (e.g. providerId 'microsoft.com')
+export interface OAuthProviderConfig {
+  provider: 'google' | 'github' | 'apple' | 'oauth';
+  providerId?: string;
+  scopes?: string[];
+  customParameters?: Record<string, string>;
+  // Defaults to 'auto'
+  mode?: SignInMode;
+}
+
+// Sign-in method and credentials accepted by signIn()
+export type SignInProviderConfig =
+  | OAuthProviderConfig
+  | { provider: 'password'; email: string; password: string; createAccount?: boolean }
+  | { provider: 'emailLink'; email?: string; link?: string }
+  | { provider: 'anonymous' };
+
+// Sign-in methods linkProvider() can add to the current user
+export type LinkProviderConfig = Exclude<SignInProviderConfig, { provider: 'anonymous' }>;
+
+// A sign-in method linked to the current user (Firebase providerData)
+export interface LinkedProvider {
+  // e.g. 'google.com', 'github.com', 'password' or 'phone'
+  providerId: string;
+  // The user's ID at the provider
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+}
+
+// Completes a sign-in that failed with ACCOUNT_EXISTS (see AccountExistsError)
+export interface AccountLinkResolver {
+  // The email both sign-in methods use, when Firebase reports it
+  readonly email: string | null;
+  // The provider the user tried to sign in with, e.g. 'github.com'
+  readonly providerId: string | null;
+  // Sign-in methods of the existing account; empty when email enumeration
+  // protection is enabled for the project
+  fetchSignInMethods(): Promise<string[]>;
+  // Sign in with a method the account already has, then link the new one
+  signInAndLink(config: SignInProviderConfig): Promise<User>;
+  // Link the new method to the signed-in user, e.g. after an MFA_REQUIRED sign-in
+  link(): Promise<User>;
+}
+
+// A second factor enrolled on an account
+export interface MfaFactor {
+  // Enrollment ID, passed to resolveSignIn() and unenrollMfaFactor()
+  uid: string;
+  factorId: 'totp' | 'phone';
+  displayName: string | null;
+  enrolledAt: string;
+  // SMS factors only; masked during sign-in (e.g. "+*******1234")
+  phoneNumber?: string;
+}
+
+// Completes a sign-in that failed with MFA_REQUIRED (see MfaRequiredError)
+export interface MfaSignInResolver {
+  // The factors the user can choose from
+  readonly factors: MfaFactor[];
+  // Text a code to an SMS factor; required before resolving with it
+  sendSmsCode(factorUid: string, appVerifier: ApplicationVerifier): Promise<void>;
+  // Check the TOTP or SMS code and finish signing in; wrong codes can be retried
+  resolveSignIn(factorUid: string, code: string): Promise<User>;
+}
+
+// A second factor being enrolled; complete() checks the first code and enrolls it
+export interface MfaEnrollment {
+  complete(code: string, displayName?: string): Promise<MfaFactor[]>;
+}
+
+// TOTP enrollment: show the QR code (or the key) for an authenticator app
+export interface TotpEnrollment extends MfaEnrollment {
+  secretKey: string;
+  // otpauth:// URL to render as a QR code
+  qrCodeUrl: string;
+}
+
+// Refresh ID tokens this long before they expire (they are valid for 1 hour)
+export const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Delay before retrying a failed proactive refresh
+const TOKEN_REFRESH_RETRY_MS = 30 * 1000;
+
+// Waits before re-reading a profile that the sync function hasn't created yet
+const PROFILE_RETRY_DELAYS_MS = [1000, 2000];
+
+// Scopes requested from each OAuth provider in addition to configured ones
+const DEFAULT_SCOPES: Record<string, string[]> = {
+  google: ['profile', 'email'],
+  github: ['read:user', 'user:email'],
+  apple: ['email', 'name'],
+};
+
+// Popup failures that a redirect can get around (blocked popups, embedded webviews)
+const REDIRECT_FALLBACK_CODES = [
+  'auth/popup-blocked',
+  'auth/operation-not-supported-in-this-environment',
+  'auth/web-storage-unsupported',
+];
+
+// Limits for profile fields (display_name is VARCHAR(255) in 01-create-schema.sql)
+const DISPLAY_NAME_MAX_LENGTH = 255;
+const PHOTO_URL_MAX_LENGTH = 2048;
+
+// PostgREST / PostgreSQL error codes mapped to DataFetchError codes
+const POSTGREST_ERROR_CODES: Record<string, { code: string; message: string }> = {
+  'PGRST116': { code: 'USER_NOT_FOUND', message: 'User not found in database' },
+  'PGRST301': { code: 'NOT_AUTHENTICATED', message: 'Session expired. Please sign in again.' },
+  '42501': { code: 'PERMISSION_DENIED', message: 'Permission denied. Please ensure you are authenticated.' },
+  '22001': { code: 'INVALID_PROFILE', message: 'A profile field is too long' },
+  '23514': { code: 'INVALID_PROFILE', message: 'A profile field has an invalid value' },
+};
+
+// Firebase Auth error codes mapped to AuthenticationError codes
+const AUTH_ERROR_CODES: Record<string, { code: string; message: string }> = {
+  'auth/popup-closed-by-user': { code: 'POPUP_CLOSED', message: 'Sign-in popup was closed before completing authentication' },
+  'auth/popup-blocked': { code: 'POPUP_BLOCKED', message: 'Sign-in popup was blocked by the browser' },
+  'auth/cancelled-popup-request': { code: 'POPUP_ALREADY_OPEN', message: 'Another sign-in popup is already open' },
+  'auth/network-request-failed': { code: 'NETWORK_ERROR', message: 'Network error occurred during sign-in' },
+  'auth/invalid-credential': { code: 'INVALID_CREDENTIALS', message: 'Email or password is incorrect' },
+  'auth/invalid-login-credentials': { code: 'INVALID_CREDENTIALS', message: 'Email or password is incorrect' },
+  'auth/wrong-password': { code: 'INVALID_CREDENTIALS', message: 'Email or password is incorrect' },
+  'auth/user-not-found': { code: 'INVALID_CREDENTIALS', message: 'Email or password is incorrect' },
+  'auth/invalid-email': { code: 'INVALID_EMAIL', message: 'Email address is invalid' },
+  'auth/email-already-in-use': { code: 'EMAIL_IN_USE', message: 'An account with this email already exists' },
+  'auth/weak-password': { code: 'WEAK_PASSWORD', message: 'Password is too weak' },
+  'auth/user-disabled': { code: 'USER_DISABLED', message: 'This account has been disabled' },
+  'auth/too-many-requests': { code: 'TOO_MANY_REQUESTS', message: 'Too many attempts. Please try again later.' },
+  'auth/operation-not-allowed': { code: 'PROVIDER_DISABLED', message: 'This sign-in method is not enabled' },
+  'auth/admin-restricted-operation': { code: 'PROVIDER_DISABLED', message: 'This sign-in method is not enabled' },
+  'auth/account-exists-with-different-credential': {
+    code: 'ACCOUNT_EXISTS',
+    message: 'An account already exists with the same email but a different sign-in method',
+  },
+  'auth/invalid-action-code': { code: 'INVALID_EMAIL_LINK', message: 'The sign-in link is invalid or has already been used' },
+  'auth/expired-action-code': { code: 'INVALID_EMAIL_LINK', message: 'The sign-in link has expired' },
+  'auth/multi-factor-auth-required': { code: 'MFA_REQUIRED', message: 'A second factor is required to complete sign-in' },
+  'auth/invalid-verification-code': { code: 'MFA_INVALID_CODE', message: 'The verification code is incorrect' },
+  'auth/missing-verification-code': { code: 'MFA_INVALID_CODE', message: 'The verification code is missing' },
+  'auth/code-expired': { code: 'MFA_CODE_EXPIRED', message: 'The verification code has expired' },
+  'auth/invalid-multi-factor-session': { code: 'MFA_SESSION_EXPIRED', message: 'The sign-in attempt has expired. Please sign in again.' },
+  'auth/multi-factor-info-not-found': { code: 'MFA_FACTOR_NOT_FOUND', message: 'The second factor is not enrolled on this account' },
+  'auth/second-factor-already-in-use': { code: 'MFA_ALREADY_ENROLLED', message: 'This second factor is already enrolled' },
+  'auth/maximum-second-factor-count-exceeded': { code: 'MFA_LIMIT_EXCEEDED', message: 'No more second factors can be enrolled' },
+  'auth/unverified-email': { code: 'EMAIL_NOT_VERIFIED', message: 'Verify your email address before adding a second factor' },
+  'auth/invalid-phone-number': { code: 'INVALID_PHONE_NUMBER', message: 'Phone number is invalid' },
+  'auth/requires-recent-login': { code: 'REQUIRES_RECENT_LOGIN', message: 'Please sign in again to continue' },
+  'auth/provider-already-linked': { code: 'PROVIDER_ALREADY_LINKED', message: 'This sign-in method is already linked to the account' },
+  'auth/credential-already-in-use': { code: 'CREDENTIAL_IN_USE', message: 'This sign-in method is already used by another account' },
+  'auth/no-such-provider': { code: 'PROVIDER_NOT_LINKED', message: 'This sign-in method is not linked to the account' },
+};
+
+// Emitted when the Supabase session can no longer be kept alive:
+// REFRESH_FAILED - the ID token expired before it could be refreshed
+// SIGNED_OUT - Firebase signed the user out without signOut() (revoked or
+//   disabled account, sign-out in another tab)
+export interface SessionLostEvent {
+  code: 'REFRESH_FAILED' | 'SIGNED_OUT';
+  error?: AuthenticationError;
 }
 
+// Combined Firebase + Supabase auth state emitted by onAuthStateChange():
+// signing-in - Firebase is restoring the session or a sign-in is in progress
+//   (user is set once Firebase has signed in and the profile is loading, and
+//   stays set while the signed-in user signs in again)
+// signed-in - Firebase user plus their public.users profile
+// error - sign-in or loading the profile failed
+export type AuthState =
+  | { status: 'signed-out' }
+  | { status: 'signing-in'; user: User | null }
+  | { status: 'signed-in'; user: User; profile: UserData }
+  | { status: 'error'; user: User | null; error: AuthenticationError | DataFetchError };
+
 // Error types for better error handling
 export class AuthenticationError extends Error {
   constructor(message: string, public code?: string) {
@@ -55,348 +329,2065 @@ export class DataFetchError extends Error {
   }
 }
 
-// Singleton instances
-let firebaseApp: FirebaseApp | null = null;
-let auth: Auth | null = null;
-let supabase: SupabaseClient | null = null;
+// Thrown with code 'ACCOUNT_EXISTS' when the email already has an account
+// with another sign-in method; the resolver links the new method to it
+export class AccountExistsError extends AuthenticationError {
+  constructor(message: string, public resolver: AccountLinkResolver) {
+    super(message, 'ACCOUNT_EXISTS');
+    this.name = 'AccountExistsError';
+  }
+}
+
+// Thrown with code 'MFA_REQUIRED' when the first factor succeeded; the user
+// is signed in once the resolver accepts a second factor
+export class MfaRequiredError extends AuthenticationError {
+  constructor(message: string, public resolver: MfaSignInResolver) {
+    super(message, 'MFA_REQUIRED');
+    this.name = 'MfaRequiredError';
+  }
+}
 
 /**
- * Initialize Firebase app with configuration
+ * Create the Firebase provider for an OAuth sign-in configuration
  * 
- * @param config - Firebase configuration object
- * @throws {AuthenticationError} If configuration is invalid
+ * @param config - OAuth provider configuration
+ * @returns Provider with default and configured scopes applied
+ * @throws {AuthenticationError} If a generic OAuth config has no providerId
  */
-export function initializeFirebase(config?: FirebaseConfig): FirebaseApp {
-  if (firebaseApp) {
-    return firebaseApp;
-  }
+export function createAuthProvider(config: OAuthProviderConfig): AuthProvider {
+  let provider: GoogleAuthProvider | GithubAuthProvider | OAuthProvider;
 
-  try {
-    const firebaseConfig: FirebaseConfig = config || {
-      apiKey: process.env.FIREBASE_WEB_API_KEY || '',
-      authDomain: `${process.env.FIREBASE_PROJECT_ID || ''}.firebaseapp.com`,
-      projectId: process.env.FIREBASE_PROJECT_ID || '',
-    };
+  switch (config.provider) {
+    case 'google':
+      provider = new GoogleAuthProvider();
+      break;
+    case 'github':
+      provider = new GithubAuthProvider();
+      break;
+    case 'apple':
+      provider = new OAuthProvider('apple.com');
+      break;
+    default:
+      if (!config.providerId) {
+        throw new AuthenticationError('OAuth sign-in requires a providerId (e.g. microsoft.com)', 'INVALID_PROVIDER');
+      }
+      provider = new OAuthProvider(config.providerId);
+  }
 
-    // Validate configuration
-    if (!firebaseConfig.apiKey || !firebaseConfig.projectId) {
-      throw new AuthenticationError(
-        'Firebase configuration is incomplete. Please check FIREBASE_WEB_API_KEY and FIREBASE_PROJECT_ID environment variables.',
-        'INVALID_CONFIG'
-      );
-    }
+  for (const scope of [...(DEFAULT_SCOPES[config.provider] || []), ...(config.scopes || [])]) {
+    provider.addScope(scope);
+  }
 
-    firebaseApp = initializeApp(firebaseConfig);
-    auth = getAuth(firebaseApp);
-    
-    return firebaseApp;
-  } catch (error) {
-    if (error instanceof AuthenticationError) {
-      throw error;
-    }
-    throw new AuthenticationError(
-      `Failed to initialize Firebase: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      'INIT_FAILED'
-    );
+  if (config.customParameters) {
+    provider.setCustomParameters(config.customParameters);
   }
+
+  return provider;
 }
 
 /**
- * Initialize Supabase client with configuration
+ * Map a Firebase Auth error to an AuthenticationError
  * 
- * @throws {AuthenticationError} If configuration is invalid
+ * Every sign-in method goes through this mapping, so the same failure
+ * has the same code regardless of provider.
+ * 
+ * @param error - Error thrown by Firebase Auth (or by this module)
+ * @returns AuthenticationError with a stable code
  */
-export function initializeSupabase(): SupabaseClient {
-  if (supabase) {
-    return supabase;
+export function toAuthenticationError(error: any): AuthenticationError {
+  if (error instanceof AuthenticationError) {
+    return error;
   }
 
-  try {
-    const supabaseUrl = process.env.SUPABASE_URL || '';
-    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || '';
+  const mapped = AUTH_ERROR_CODES[error?.code];
+  if (mapped) {
+    return new AuthenticationError(mapped.message, mapped.code);
+  }
 
-    // Validate configuration
-    if (!supabaseUrl || !supabaseAnonKey) {
-      throw new AuthenticationError(
-        'Supabase configuration is incomplete. Please check SUPABASE_URL and SUPABASE_ANON_KEY environment variables.',
-        'INVALID_CONFIG'
-      );
-    }
+  // Generic error
+  return new AuthenticationError(
+    `Sign-in failed: ${error?.message || 'Unknown error'}`,
+    error?.code || 'SIGNIN_FAILED'
+  );
+}
 
-    supabase = createClient(supabaseUrl, supabaseAnonKey);
-    
-    return supabase;
-  } catch (error) {
-    if (error instanceof AuthenticationError) {
-      throw error;
-    }
-    throw new AuthenticationError(
-      `Failed to initialize Supabase: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      'INIT_FAILED'
-    );
-  }
+// Local storage key for the email address a sign-in link was sent to
+const EMAIL_FOR_SIGN_IN_KEY = 'emailForSignIn';
+
+function getLocalStorage(): Storage | null {
+  return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
 }
 
 /**
- * Sign in with Google using Firebase Authentication
- * 
- * This function:
- * 1. Opens Google sign-in popup
- * 2. Authenticates user with Firebase
- * 3. Retrieves JWT token from Firebase
- * 4. Sets the token for Supabase client
- * 
- * @returns Promise resolving to the authenticated Firebase User
- * @throws {AuthenticationError} If sign-in fails
+ * Find the sign-in link and the email it was sent to
  */
-export async function signInWithGoogle(): Promise<User> {
-  try {
-    // Ensure Firebase is initialized
-    if (!auth) {
-      initializeFirebase();
-    }
+function readEmailLink(firebaseAuth: Auth, config: { email?: string; link?: string }): { email: string; link: string } {
+  const link = config.link || (typeof window !== 'undefined' ? window.location.href : '');
 
-    if (!auth) {
-      throw new AuthenticationError('Firebase Auth not initialized', 'NOT_INITIALIZED');
-    }
+  if (!link || !isSignInWithEmailLink(firebaseAuth, link)) {
+    throw new AuthenticationError('The sign-in link is invalid', 'INVALID_EMAIL_LINK');
+  }
 
-    // Create Google Auth provider
-    const provider = new GoogleAuthProvider();
-    
-    // Add scopes for additional user information
-    provider.addScope('profile');
-    provider.addScope('email');
+  // The link may be opened on another device, in which case the app must ask for the email
+  const email = config.email || getLocalStorage()?.getItem(EMAIL_FOR_SIGN_IN_KEY);
+  if (!email) {
+    throw new AuthenticationError('Email address is required to complete sign-in', 'EMAIL_REQUIRED');
+  }
 
-    // Sign in with popup
-    const result: UserCredential = await signInWithPopup(auth, provider);
-    
-    // Get ID token from Firebase
-    const token = await result.user.getIdToken();
-    
-    // Initialize Supabase if not already done
-    if (!supabase) {
-      initializeSupabase();
-    }
+  return { email, link };
+}
 
-    // Set token for Supabase client
-    // Note: Supabase will use this token to verify requests
-    if (supabase) {
-      await supabase.auth.setSession({
-        access_token: token,
-        refresh_token: '', // Firebase handles refresh internally
-      });
-    }
-    
-    return result.user;
-  } catch (error: any) {
-    // Handle specific Firebase Auth errors
-    if (error.code === 'auth/popup-closed-by-user') {
-      throw new AuthenticationError(
-        'Sign-in popup was closed before completing authentication',
-        'POPUP_CLOSED'
-      );
-    }
-    
-    if (error.code === 'auth/popup-blocked') {
-      throw new AuthenticationError(
-        'Sign-in popup was blocked by the browser',
-        'POPUP_BLOCKED'
-      );
-    }
-    
-    if (error.code === 'auth/cancelled-popup-request') {
-      throw new AuthenticationError(
-        'Another sign-in popup is already open',
-        'POPUP_ALREADY_OPEN'
-      );
-    }
+/**
+ * Complete a passwordless sign-in from the link in the user's inbox
+ */
+async function completeEmailLinkSignIn(
+  firebaseAuth: Auth,
+  config: { email?: string; link?: string }
+): Promise<UserCredential> {
+  const { email, link } = readEmailLink(firebaseAuth, config);
 
-    if (error.code === 'auth/network-request-failed') {
-      throw new AuthenticationError(
-        'Network error occurred during sign-in',
-        'NETWORK_ERROR'
-      );
-    }
+  const result = await firebaseSignInWithEmailLink(firebaseAuth, email, link);
+  getLocalStorage()?.removeItem(EMAIL_FOR_SIGN_IN_KEY);
+
+  return result;
+}
 
-    // Generic error
-    throw new AuthenticationError(
-      `Sign-in failed: ${error.message || 'Unknown error'}`,
-      error.code || 'SIGNIN_FAILED'
-    );
+/**
+ * Describe an enrolled Firebase second factor
+ */
+export function toMfaFactor(info: MultiFactorInfo): MfaFactor {
+  const factor: MfaFactor = {
+    uid: info.uid,
+    factorId: info.factorId as MfaFactor['factorId'],
+    displayName: info.displayName ?? null,
+    enrolledAt: info.enrollmentTime,
+  };
+
+  if ('phoneNumber' in info && typeof info.phoneNumber === 'string') {
+    factor.phoneNumber = info.phoneNumber;
   }
+
+  return factor;
 }
 
 /**
- * Fetch user data from Supabase database
+ * Wrap Firebase's MultiFactorResolver for the UI
  * 
- * This function queries the public.users table in Supabase
- * using the Firebase UID. Row Level Security (RLS) policies
- * ensure users can only access their own data.
- * 
- * @param firebaseUid - The Firebase user ID
- * @returns Promise resolving to the user data
- * @throws {DataFetchError} If data fetch fails
+ * @param firebaseAuth - Auth instance the sign-in started on
+ * @param resolver - From getMultiFactorResolver() for the MFA_REQUIRED error
+ * @param onSignedIn - Finishes the sign-in once the second factor is accepted
  */
-export async function getUserData(firebaseUid: string): Promise<UserData> {
-  try {
-    // Validate input
-    if (!firebaseUid || typeof firebaseUid !== 'string') {
-      throw new DataFetchError(
-        'Invalid Firebase UID provided',
-        'INVALID_UID'
-      );
-    }
+export function createMfaSignInResolver(
+  firebaseAuth: Auth,
+  resolver: Pick<MultiFactorResolver, 'hints' | 'session' | 'resolveSignIn'>,
+  onSignedIn: (result: UserCredential) => Promise<User>
+): MfaSignInResolver {
+  // SMS verification IDs by factor uid, set by sendSmsCode()
+  const verificationIds = new Map<string, string>();
 
-    // Ensure Supabase is initialized
-    if (!supabase) {
-      initializeSupabase();
+  function findHint(factorUid: string): MultiFactorInfo {
+    const hint = resolver.hints.find(candidate => candidate.uid === factorUid);
+    if (!hint) {
+      throw new AuthenticationError('The second factor is not enrolled on this account', 'MFA_FACTOR_NOT_FOUND');
     }
+    return hint;
+  }
 
-    if (!supabase) {
-      throw new DataFetchError('Supabase client not initialized', 'NOT_INITIALIZED');
-    }
-
-    // Query user data from Supabase
-    const { data, error } = await supabase
-      .from('users')
-      .select('*')
-      .eq('firebase_uid', firebaseUid)
-      .single();
-    
-    // Handle errors
-    if (error) {
-      // Handle specific Supabase errors
-      if (error.code === 'PGRST116') {
-        throw new DataFetchError(
-          'User not found in database',
-          'USER_NOT_FOUND'
+  return {
+    factors: resolver.hints.map(toMfaFactor),
+
+    async sendSmsCode(factorUid, appVerifier) {
+      try {
+        const hint = findHint(factorUid);
+        const verificationId = await new PhoneAuthProvider(firebaseAuth).verifyPhoneNumber(
+          { multiFactorHint: hint, session: resolver.session },
+          appVerifier
         );
+        verificationIds.set(factorUid, verificationId);
+      } catch (error) {
+        throw toAuthenticationError(error);
       }
+    },
 
-      if (error.code === '42501') {
-        throw new DataFetchError(
-          'Permission denied. Please ensure you are authenticated.',
-          'PERMISSION_DENIED'
-        );
+    async resolveSignIn(factorUid, code) {
+      try {
+        const hint = findHint(factorUid);
+        let assertion: MultiFactorAssertion;
+
+        if (hint.factorId === TotpMultiFactorGenerator.FACTOR_ID) {
+          assertion = TotpMultiFactorGenerator.assertionForSignIn(hint.uid, code);
+        } else {
+          const verificationId = verificationIds.get(factorUid);
+          if (!verificationId) {
+            throw new AuthenticationError('No code has been sent to this phone; call sendSmsCode() first', 'MFA_CODE_NOT_SENT');
+          }
+          assertion = PhoneMultiFactorGenerator.assertion(PhoneAuthProvider.credential(verificationId, code));
+        }
+
+        return await onSignedIn(await resolver.resolveSignIn(assertion));
+      } catch (error) {
+        throw toAuthenticationError(error);
       }
+    },
+  };
+}
 
-      throw new DataFetchError(
-        `Failed to fetch user data: ${error.message}`,
-        error.code || 'FETCH_FAILED'
-      );
-    }
+/**
+ * Whether a failed popup sign-in should be retried as a redirect
+ * 
+ * @param error - Error thrown by signInWithPopup
+ * @param mode - The configured sign-in mode
+ */
+export function shouldFallBackToRedirect(error: any, mode: SignInMode = 'auto'): boolean {
+  return mode === 'auto' && REDIRECT_FALLBACK_CODES.includes(error?.code);
+}
 
-    // Validate data
-    if (!data) {
-      throw new DataFetchError(
-        'No user data returned from database',
-        'NO_DATA'
-      );
-    }
+/**
+ * Run an OAuth flow as a popup or redirect according to the config
+ * 
+ * A redirect navigates away from the page, so the returned promise only
+ * settles if starting the redirect fails; completeRedirectSignIn() finishes
+ * the flow when the app loads again.
+ */
+async function runOAuthFlow(
+  config: OAuthProviderConfig,
+  popup: (provider: AuthProvider) => Promise<UserCredential>,
+  redirect: (provider: AuthProvider) => Promise<never>
+): Promise<UserCredential> {
+  const provider = createAuthProvider(config);
+  const mode = config.mode || 'auto';
+
+  if (mode === 'redirect') {
+    return redirect(provider);
+  }
 
-    return data as UserData;
+  try {
+    return await popup(provider);
   } catch (error) {
-    if (error instanceof DataFetchError) {
+    if (!shouldFallBackToRedirect(error, mode)) {
       throw error;
     }
-    
-    throw new DataFetchError(
-      `Unexpected error fetching user data: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      'UNEXPECTED_ERROR'
-    );
+    return redirect(provider);
   }
 }
 
+function signInWithOAuth(firebaseAuth: Auth, config: OAuthProviderConfig): Promise<UserCredential> {
+  return runOAuthFlow(
+    config,
+    provider => signInWithPopup(firebaseAuth, provider),
+    provider => signInWithRedirect(firebaseAuth, provider)
+  );
+}
+
+function linkWithOAuth(user: User, config: OAuthProviderConfig): Promise<UserCredential> {
+  return runOAuthFlow(
+    config,
+    provider => linkWithPopup(user, provider),
+    provider => linkWithRedirect(user, provider)
+  );
+}
+
 /**
- * Get the current authenticated user from Firebase
+ * Guide the user through an ACCOUNT_EXISTS sign-in failure
  * 
- * @returns The current Firebase user or null if not authenticated
+ * @param firebaseAuth - Auth instance the sign-in started on
+ * @param pending - The email and the credential of the sign-in that failed
+ *   (OAuthProvider.credentialFromError)
+ * @param actions - signIn() and linking a credential to the signed-in user
  */
-export function getCurrentUser(): User | null {
-  if (!auth) {
-    return null;
+export function createAccountLinkResolver(
+  firebaseAuth: Auth,
+  pending: { email: string | null; credential: AuthCredential | null },
+  actions: {
+    signIn(config: SignInProviderConfig): Promise<User>;
+    linkCredential(credential: AuthCredential): Promise<User>;
+  }
+): AccountLinkResolver {
+  async function link(): Promise<User> {
+    if (!pending.credential) {
+      throw new AuthenticationError(
+        'The new sign-in method can no longer be linked; sign in and link it with linkProvider()',
+        'LINK_UNAVAILABLE'
+      );
+    }
+    return actions.linkCredential(pending.credential);
   }
-  return auth.currentUser;
+
+  return {
+    email: pending.email,
+    providerId: pending.credential?.providerId ?? null,
+
+    async fetchSignInMethods() {
+      try {
+        return pending.email ? await fetchSignInMethodsForEmail(firebaseAuth, pending.email) : [];
+      } catch (error) {
+        throw toAuthenticationError(error);
+      }
+    },
+
+    async signInAndLink(config) {
+      await actions.signIn(config);
+      return link();
+    },
+
+    link,
+  };
 }
 
 /**
- * Sign out the current user
+ * Milliseconds until a token expiring at expiresAt should be refreshed
  * 
- * @throws {AuthenticationError} If sign-out fails
+ * @param expiresAt - Token expiry (ms since epoch)
+ * @param now - Current time (ms since epoch)
+ * @param marginMs - How long before expiry to refresh
  */
-export async function signOut(): Promise<void> {
-  try {
-    if (!auth) {
-      throw new AuthenticationError('Firebase Auth not initialized', 'NOT_INITIALIZED');
-    }
+export function refreshDelayMs(
+  expiresAt: number,
+  now: number = Date.now(),
+  marginMs: number = TOKEN_REFRESH_MARGIN_MS
+): number {
+  return Math.max(0, expiresAt - marginMs - now);
+}
 
-    await auth.signOut();
+/**
+ * Map a PostgREST error to a DataFetchError
+ * 
+ * @param error - Error returned by a Supabase query
+ * @param action - What failed, for the message of unmapped errors (e.g. 'fetch user data')
+ * @returns DataFetchError with a stable code
+ */
+export function toDataFetchError(error: { code?: string; message?: string }, action: string): DataFetchError {
+  const mapped = POSTGREST_ERROR_CODES[error.code || ''];
+  if (mapped) {
+    return new DataFetchError(mapped.message, mapped.code);
+  }
 
-    // Clear Supabase session
-    if (supabase) {
-      await supabase.auth.signOut();
-    }
-  } catch (error) {
-    throw new AuthenticationError(
-      `Sign-out failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      'SIGNOUT_FAILED'
-    );
+  return new DataFetchError(
+    `Failed to ${action}: ${error.message || 'Unknown error'}`,
+    error.code || 'FETCH_FAILED'
+  );
+}
+
+function normalizeProfileText(field: string, value: unknown): string | null {
+  if (value === null) {
+    return null;
+  }
+
+  if (typeof value !== 'string') {
+    throw new DataFetchError(`${field} must be a string or null`, 'INVALID_PROFILE');
   }
+
+  // Blank values clear the field
+  return value.trim() || null;
 }
 
 /**
- * Get the current Firebase ID token
+ * Validate and normalize a profile patch before it is sent to Supabase
  * 
- * @param forceRefresh - Whether to force refresh the token
- * @returns Promise resolving to the ID token
- * @throws {AuthenticationError} If token retrieval fails
+ * Values are trimmed and blank values become null. display_name must fit the
+ * column and contain no control characters; photo_url must be an http(s) URL.
+ * 
+ * @param patch - Fields to change
+ * @returns The normalized patch
+ * @throws {DataFetchError} With code 'INVALID_PROFILE' describing the first problem
  */
-export async function getIdToken(forceRefresh: boolean = false): Promise<string> {
-  try {
-    if (!auth || !auth.currentUser) {
-      throw new AuthenticationError('No user is currently signed in', 'NOT_AUTHENTICATED');
+export function validateProfilePatch(patch: UserProfilePatch): UserProfilePatch {
+  if (!patch || typeof patch !== 'object') {
+    throw new DataFetchError('Profile patch must be an object', 'INVALID_PROFILE');
+  }
+
+  const unknown = Object.keys(patch).filter(key => key !== 'display_name' && key !== 'photo_url');
+  if (unknown.length) {
+    throw new DataFetchError(`Profile fields cannot be changed: ${unknown.join(', ')}`, 'INVALID_PROFILE');
+  }
+
+  const normalized: UserProfilePatch = {};
+
+  if ('display_name' in patch) {
+    const displayName = normalizeProfileText('display_name', patch.display_name);
+
+    if (displayName && displayName.length > DISPLAY_NAME_MAX_LENGTH) {
+      throw new DataFetchError(`display_name must be at most ${DISPLAY_NAME_MAX_LENGTH} characters`, 'INVALID_PROFILE');
+    }
+    if (displayName && /[\u0000-\u001f\u007f]/.test(displayName)) {
+      throw new DataFetchError('display_name must not contain control characters', 'INVALID_PROFILE');
     }
 
-    const token = await auth.currentUser.getIdToken(forceRefresh);
-    return token;
-  } catch (error) {
-    throw new AuthenticationError(
-      `Failed to get ID token: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      'TOKEN_FAILED'
-    );
+    normalized.display_name = displayName;
+  }
+
+  if ('photo_url' in patch) {
+    const photoUrl = normalizeProfileText('photo_url', patch.photo_url);
+
+    if (photoUrl && photoUrl.length > PHOTO_URL_MAX_LENGTH) {
+      throw new DataFetchError(`photo_url must be at most ${PHOTO_URL_MAX_LENGTH} characters`, 'INVALID_PROFILE');
+    }
+    if (photoUrl && !/^https?:\/\/[^\s/]+[^\s]*$/i.test(photoUrl)) {
+      throw new DataFetchError('photo_url must be an http(s) URL', 'INVALID_PROFILE');
+    }
+
+    normalized.photo_url = photoUrl;
+  }
+
+  if (!Object.keys(normalized).length) {
+    throw new DataFetchError('Profile patch has no fields to update', 'INVALID_PROFILE');
   }
+
+  return normalized;
 }
 
 /**
- * Refresh the Supabase session with a new Firebase token
- * 
- * This should be called periodically to keep the Supabase session fresh
+ * A self-contained LumiBase client: its own Firebase app, Supabase client,
+ * token refresh and auth state
+ */
+export interface LumiBaseClient {
+  // Instances, null until initialized
+  readonly firebaseApp: FirebaseApp | null;
+  readonly auth: Auth | null;
+  readonly supabase: SupabaseClient<Database> | null;
+
+  initializeFirebase(config?: FirebaseConfig): FirebaseApp;
+  initializeSupabase(): SupabaseClient<Database>;
+  establishSupabaseSession(user: User): Promise<void>;
+
+  signIn(config: SignInProviderConfig): Promise<User>;
+  signInWithGoogle(options?: { mode?: SignInMode }): Promise<User>;
+  signInWithGitHub(options?: { mode?: SignInMode }): Promise<User>;
+  signInWithApple(options?: { mode?: SignInMode }): Promise<User>;
+  completeRedirectSignIn(): Promise<User | null>;
+  signInWithEmail(email: string, password: string): Promise<User>;
+  signUpWithEmail(email: string, password: string): Promise<User>;
+  sendEmailSignInLink(email: string, actionCodeSettings?: ActionCodeSettings): Promise<void>;
+  signInWithEmailLink(email?: string, link?: string): Promise<User>;
+  signInAnonymously(): Promise<User>;
+  signOut(): Promise<void>;
+
+  listLinkedProviders(): LinkedProvider[];
+  linkProvider(config: LinkProviderConfig): Promise<User>;
+  unlinkProvider(providerId: string): Promise<User>;
+
+  listMfaFactors(): MfaFactor[];
+  startTotpEnrollment(options?: { accountName?: string; issuer?: string }): Promise<TotpEnrollment>;
+  startSmsEnrollment(phoneNumber: string, appVerifier: ApplicationVerifier): Promise<MfaEnrollment>;
+  unenrollMfaFactor(factorUid: string): Promise<MfaFactor[]>;
+
+  getUserData(firebaseUid: string, forceRefresh?: boolean): Promise<UserData>;
+  invalidateUserData(firebaseUid: string): Promise<void>;
+  getCurrentUser(): User | null;
+  getIdToken(forceRefresh?: boolean): Promise<string>;
+  refreshSupabaseSession(): Promise<void>;
+  updateUserProfile(patch: UserProfilePatch, options?: UpdateUserProfileOptions): Promise<UserData>;
+
+  startSessionRefresh(): void;
+  stopSessionRefresh(): void;
+  onSessionLost(listener: (event: SessionLostEvent) => void): () => void;
+
+  startAuthStateSync(): void;
+  getAuthState(): AuthState;
+  onAuthStateChange(callback: (state: AuthState) => void): () => void;
+
+  subscribeToUserProfile(
+    firebaseUid: string,
+    callback: (profile: UserData | null) => void,
+    options?: Pick<OwnRowsOptions, 'onError'>
+  ): () => void;
+  subscribeToOwnRows<T extends TableName>(
+    table: T,
+    callback: (change: RowChange<T>) => void,
+    options?: OwnRowsOptions
+  ): () => void;
+
+  exportUserData(): Promise<UserDataExport>;
+  downloadUserDataExport(filename?: string): Promise<UserDataExport>;
+
+  // Stop all subscriptions and timers and delete the Firebase app
+  dispose(): Promise<void>;
+}
+
+// What signIn() saw before starting, to tell a sign-in as the current user
+// apart from one that onAuthStateChanged reports
+interface SignInStart {
+  uid: string | null;
+  state: AuthState;
+  version: number;
+}
+
+/**
+ * Build a client whose options are read when it initializes
  * 
- * @throws {AuthenticationError} If refresh fails
+ * @param resolveOptions - Returns the client options
+ * @param onInitialize - Called after Firebase or Supabase is initialized
  */
-export async function refreshSupabaseSession(): Promise<void> {
-  try {
-    // Get fresh token from Firebase
-    const token = await getIdToken(true);
+function buildClient(
+  resolveOptions: () => LumiBaseClientOptions,
+  onInitialize?: (client: LumiBaseClient) => void
+): LumiBaseClient {
+  // Instances
+  let firebaseApp: FirebaseApp | null = null;
+  let auth: Auth | null = null;
+  let supabase: SupabaseClient<Database> | null = null;
 
-    // Update Supabase session
-    if (!supabase) {
-      initializeSupabase();
+  // Token refresh state (see startSessionRefresh)
+  let supabaseToken: string | null = null;
+  let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  let unsubscribeIdToken: (() => void) | null = null;
+  const sessionLostListeners = new Set<(event: SessionLostEvent) => void>();
+
+  // Auth state (see onAuthStateChange)
+  let authState: AuthState = { status: 'signing-in', user: null };
+  let authStateVersion = 0;
+  let unsubscribeAuthState: (() => void) | null = null;
+  const authStateListeners = new Set<(state: AuthState) => void>();
+
+  // Profile cache (see getUserData), created on first use
+  let profileStore: ProfileStore | null = null;
+
+  // Realtime channels (see subscribeToOwnRows)
+  const realtime = createRealtimeSubscriptions(() => initializeSupabase());
+
+  /**
+   * Initialize Firebase app with configuration
+   * 
+   * @param config - Firebase configuration object
+   * @throws {AuthenticationError} If configuration is invalid
+   */
+  function initializeFirebase(config?: FirebaseConfig): FirebaseApp {
+    if (firebaseApp) {
+      return firebaseApp;
+    }
+
+    try {
+      const options = resolveOptions();
+      const firebaseConfig = config || options.firebase;
+
+      // Validate configuration
+      if (!firebaseConfig?.apiKey || !firebaseConfig.projectId) {
+        throw new AuthenticationError(
+          'Firebase configuration is incomplete. Please check the firebase option (FIREBASE_WEB_API_KEY and FIREBASE_PROJECT_ID for the default client).',
+          'INVALID_CONFIG'
+        );
+      }
+
+      firebaseApp = initializeApp(firebaseConfig, options.appName);
+      auth = getAuth(firebaseApp);
+      onInitialize?.(client);
+
+      // Keep the Supabase session in step with Firebase ID tokens
+      startSessionRefresh();
+      startAuthStateSync();
+
+      return firebaseApp;
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
+      throw new AuthenticationError(
+        `Failed to initialize Firebase: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'INIT_FAILED'
+      );
     }
+  }
 
+  /**
+   * Initialize Supabase client with configuration
+   * 
+   * @throws {AuthenticationError} If configuration is invalid
+   */
+  function initializeSupabase(): SupabaseClient<Database> {
     if (supabase) {
-      await supabase.auth.setSession({
-        access_token: token,
-        refresh_token: '',
-      });
+      return supabase;
+    }
+
+    try {
+      const { supabaseUrl, supabaseAnonKey } = resolveOptions();
+
+      // Validate configuration
+      if (!supabaseUrl || !supabaseAnonKey) {
+        throw new AuthenticationError(
+          'Supabase configuration is incomplete. Please check the supabaseUrl and supabaseAnonKey options (SUPABASE_URL and SUPABASE_ANON_KEY for the default client).',
+          'INVALID_CONFIG'
+        );
+      }
+
+      supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
+      onInitialize?.(client);
+
+      return supabase;
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
+      throw new AuthenticationError(
+        `Failed to initialize Supabase: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'INIT_FAILED'
+      );
     }
-  } catch (error) {
-    throw new AuthenticationError(
-      `Failed to refresh Supabase session: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      'REFRESH_FAILED'
-    );
   }
-}
 
-// Export instances for advanced usage
+  /**
+   * Get the Auth instance, initializing Firebase on first use
+   * 
+   * @throws {AuthenticationError} If Firebase cannot be initialized
+   */
+  function requireAuth(): Auth {
+    if (!auth) {
+      initializeFirebase();
+    }
+
+    if (!auth) {
+      throw new AuthenticationError('Firebase Auth not initialized', 'NOT_INITIALIZED');
+    }
+
+    return auth;
+  }
+
+  /**
+   * Set the Supabase session from a signed-in Firebase user
+   * 
+   * This is the post-login step shared by every sign-in method: it retrieves
+   * the Firebase ID token and sets it on the Supabase client so requests are
+   * authorized by RLS.
+   * 
+   * @param user - The signed-in Firebase user
+   */
+  async function establishSupabaseSession(user: User): Promise<void> {
+    // Get ID token from Firebase
+    const token = await user.getIdToken();
+
+    await applySupabaseToken(token);
+  }
+
+  /**
+   * Set a Firebase ID token as the Supabase session
+   * 
+   * Skipped when the token is already set, since sign-in and the
+   * onIdTokenChanged listener both deliver the same token.
+   */
+  async function applySupabaseToken(token: string): Promise<void> {
+    if (token === supabaseToken) {
+      return;
+    }
+
+    // Initialize Supabase if not already done
+    if (!supabase) {
+      initializeSupabase();
+    }
+
+    // Set token for Supabase client
+    // Note: Supabase will use this token to verify requests
+    if (supabase) {
+      await supabase.auth.setSession({
+        access_token: token,
+        refresh_token: '', // Firebase handles refresh internally
+      });
+      supabaseToken = token;
+
+      // Joined channels switch to the new token; closed ones (e.g. the old
+      // token expired first) are subscribed again
+      await supabase.realtime.setAuth(token);
+      realtime.reopen();
+    }
+  }
+
+  /**
+   * Sign in with any supported provider
+   * 
+   * This function:
+   * 1. Authenticates the user with Firebase using the configured provider
+   * 2. Retrieves JWT token from Firebase
+   * 3. Sets the token for Supabase client
+   * 
+   * @param config - Provider and its credentials, e.g. { provider: 'github' }
+   *   or { provider: 'password', email, password }
+   * @returns Promise resolving to the authenticated Firebase User
+   * @throws {MfaRequiredError} If the account has a second factor; finish
+   *   signing in with error.resolver
+   * @throws {AccountExistsError} If the email already has an account with
+   *   another sign-in method; error.resolver links the two
+   * @throws {AuthenticationError} If sign-in fails
+   */
+  async function signIn(config: SignInProviderConfig): Promise<User> {
+    let start: SignInStart | null = null;
+
+    try {
+      const firebaseAuth = requireAuth();
+      start = { uid: firebaseAuth.currentUser?.uid ?? null, state: authState, version: authStateVersion };
+      setAuthState({ status: 'signing-in', user: firebaseAuth.currentUser });
+
+      let result: UserCredential;
+
+      switch (config.provider) {
+        case 'password':
+          result = config.createAccount
+            ? await createUserWithEmailAndPassword(firebaseAuth, config.email, config.password)
+            : await signInWithEmailAndPassword(firebaseAuth, config.email, config.password);
+          break;
+        case 'emailLink':
+          result = await completeEmailLinkSignIn(firebaseAuth, config);
+          break;
+        case 'anonymous':
+          result = await firebaseSignInAnonymously(firebaseAuth);
+          break;
+        default:
+          result = await signInWithOAuth(firebaseAuth, config);
+      }
+
+      await establishSupabaseSession(result.user);
+      settleSameUserSignIn(result.user, start);
+
+      return result.user;
+    } catch (error) {
+      const authError = toSignInError(error, start);
+      setAuthState({ status: 'error', user: auth?.currentUser ?? null, error: authError });
+      throw authError;
+    }
+  }
+
+  /**
+   * End the signing-in state of a sign-in as the user who is already signed in
+   * 
+   * Firebase only fires onAuthStateChanged when the uid changes, so after a
+   * re-authentication or step-up sign-in nothing else would. The previous
+   * profile is kept if there was one; otherwise it is loaded.
+   */
+  function settleSameUserSignIn(user: User, start: SignInStart | null): void {
+    if (!start || start.uid !== user.uid || start.version !== authStateVersion) {
+      return;
+    }
+
+    if (start.state.status === 'signed-in' && start.state.user.uid === user.uid) {
+      setAuthState({ status: 'signed-in', user, profile: start.state.profile });
+    } else {
+      void loadSignedInState(user, ++authStateVersion);
+    }
+  }
+
+  /**
+   * Map a sign-in failure, attaching a resolver when a second factor is needed
+   * 
+   * Firebase doesn't sign the user in until the second factor succeeds, so
+   * no Supabase session exists while MFA_REQUIRED is pending.
+   */
+  function toSignInError(error: any, start: SignInStart | null = null): AuthenticationError {
+    if (!auth) {
+      return toAuthenticationError(error);
+    }
+
+    try {
+      switch (error?.code) {
+        case 'auth/multi-factor-auth-required':
+          return new MfaRequiredError(
+            AUTH_ERROR_CODES[error.code].message,
+            createMfaSignInResolver(auth, getMultiFactorResolver(auth, error as MultiFactorError), result => completeMfaSignIn(result, start))
+          );
+        case 'auth/account-exists-with-different-credential':
+          return new AccountExistsError(
+            AUTH_ERROR_CODES[error.code].message,
+            createAccountLinkResolver(
+              auth,
+              { email: error.customData?.email ?? null, credential: OAuthProvider.credentialFromError(error) },
+              { signIn, linkCredential }
+            )
+          );
+        default:
+          return toAuthenticationError(error);
+      }
+    } catch (resolverError) {
+      return toAuthenticationError(resolverError);
+    }
+  }
+
+  /**
+   * Set the Supabase session once the second factor has been accepted
+   */
+  async function completeMfaSignIn(result: UserCredential, start: SignInStart | null): Promise<User> {
+    try {
+      await establishSupabaseSession(result.user);
+      settleSameUserSignIn(result.user, start);
+
+      return result.user;
+    } catch (error) {
+      const authError = toAuthenticationError(error);
+      setAuthState({ status: 'error', user: result.user, error: authError });
+      throw authError;
+    }
+  }
+
+  /**
+   * Sign in with Google using a popup, falling back to a redirect if popups are blocked
+   * 
+   * @param options - mode: 'popup', 'redirect' or 'auto' (default)
+   * @returns Promise resolving to the authenticated Firebase User
+   * @throws {AuthenticationError} If sign-in fails
+   */
+  function signInWithGoogle(options: { mode?: SignInMode } = {}): Promise<User> {
+    return signIn({ provider: 'google', ...options });
+  }
+
+  /**
+   * Sign in with GitHub using a popup, falling back to a redirect if popups are blocked
+   * 
+   * @param options - mode: 'popup', 'redirect' or 'auto' (default)
+   * @returns Promise resolving to the authenticated Firebase User
+   * @throws {AuthenticationError} If sign-in fails
+   */
+  function signInWithGitHub(options: { mode?: SignInMode } = {}): Promise<User> {
+    return signIn({ provider: 'github', ...options });
+  }
+
+  /**
+   * Sign in with Apple using a popup, falling back to a redirect if popups are blocked
+   * 
+   * @param options - mode: 'popup', 'redirect' or 'auto' (default)
+   * @returns Promise resolving to the authenticated Firebase User
+   * @throws {AuthenticationError} If sign-in fails
+   */
+  function signInWithApple(options: { mode?: SignInMode } = {}): Promise<User> {
+    return signIn({ provider: 'apple', ...options });
+  }
+
+  /**
+   * Finish a redirect sign-in after the provider sends the user back
+   * 
+   * Call this once on page load. It processes getRedirectResult and sets the
+   * Supabase session, like a completed popup sign-in would. Redirects started
+   * by linkProvider() are finished here too.
+   * 
+   * @returns The signed-in user, or null if the page was not loaded from a sign-in redirect
+   * @throws {AuthenticationError} If the redirect sign-in failed, or with
+   *   code 'PROVIDER_SYNC_FAILED' if a redirect link could not be synced
+   */
+  async function completeRedirectSignIn(): Promise<User | null> {
+    let result: UserCredential | null;
+
+    try {
+      result = await getRedirectResult(requireAuth());
+
+      if (!result) {
+        return null;
+      }
+
+      await establishSupabaseSession(result.user);
+    } catch (error) {
+      const authError = toSignInError(error);
+      setAuthState({ status: 'error', user: auth?.currentUser ?? null, error: authError });
+      throw authError;
+    }
+
+    // A failed sync leaves the user signed in, so it isn't an auth state error
+    if (result.operationType === 'link') {
+      await syncLinkedProviders();
+    }
+
+    return result.user;
+  }
+
+  /**
+   * Sign in with an email address and password
+   * 
+   * @throws {AuthenticationError} If the credentials are wrong or sign-in fails
+   */
+  function signInWithEmail(email: string, password: string): Promise<User> {
+    return signIn({ provider: 'password', email, password });
+  }
+
+  /**
+   * Create an account with an email address and password and sign in
+   * 
+   * @throws {AuthenticationError} If the email is taken, the password is weak or sign-up fails
+   */
+  function signUpWithEmail(email: string, password: string): Promise<User> {
+    return signIn({ provider: 'password', email, password, createAccount: true });
+  }
+
+  /**
+   * Send a passwordless sign-in link
+   * 
+   * The email is remembered in localStorage so signInWithEmailLink() can
+   * complete the sign-in when the link is opened on the same device.
+   * 
+   * @param email - Address to send the link to
+   * @param actionCodeSettings - Where the link leads; defaults to the current page
+   * @throws {AuthenticationError} If the link cannot be sent
+   */
+  async function sendEmailSignInLink(email: string, actionCodeSettings?: ActionCodeSettings): Promise<void> {
+    try {
+      const firebaseAuth = requireAuth();
+
+      await sendSignInLinkToEmail(firebaseAuth, email, actionCodeSettings || {
+        url: typeof window !== 'undefined' ? window.location.href : '',
+        handleCodeInApp: true,
+      });
+
+      getLocalStorage()?.setItem(EMAIL_FOR_SIGN_IN_KEY, email);
+    } catch (error) {
+      throw toAuthenticationError(error);
+    }
+  }
+
+  /**
+   * Complete a passwordless sign-in from an email link
+   * 
+   * @param email - Address the link was sent to; defaults to the one remembered by sendEmailSignInLink()
+   * @param link - The sign-in link; defaults to the current URL
+   * @throws {AuthenticationError} With code 'EMAIL_REQUIRED' if the email is unknown on this device
+   */
+  function signInWithEmailLink(email?: string, link?: string): Promise<User> {
+    return signIn({ provider: 'emailLink', email, link });
+  }
+
+  /**
+   * Sign in as an anonymous (guest) user
+   * 
+   * @throws {AuthenticationError} If anonymous sign-in is disabled or fails
+   */
+  function signInAnonymously(): Promise<User> {
+    return signIn({ provider: 'anonymous' });
+  }
+
+  function requireCurrentUser(): User {
+    const user = auth?.currentUser;
+    if (!user) {
+      throw new AuthenticationError('No user is currently signed in', 'NOT_AUTHENTICATED');
+    }
+    return user;
+  }
+
+  async function enrollMfaFactor(
+    user: User,
+    createAssertion: () => MultiFactorAssertion,
+    displayName?: string
+  ): Promise<MfaFactor[]> {
+    try {
+      await multiFactor(user).enroll(createAssertion(), displayName);
+
+      return multiFactor(user).enrolledFactors.map(toMfaFactor);
+    } catch (error) {
+      throw toAuthenticationError(error);
+    }
+  }
+
+  /**
+   * List the second factors enrolled on the current user's account
+   * 
+   * @returns The factors, or an empty list when no user is signed in
+   */
+  function listMfaFactors(): MfaFactor[] {
+    const user = auth?.currentUser;
+    return user ? multiFactor(user).enrolledFactors.map(toMfaFactor) : [];
+  }
+
+  /**
+   * Start enrolling an authenticator app (TOTP) as a second factor
+   * 
+   * Show the QR code or secret key, then pass the app's first code to
+   * complete(). TOTP must be enabled for the Firebase project, the user's
+   * email must be verified (EMAIL_NOT_VERIFIED) and the sign-in recent
+   * (REQUIRES_RECENT_LOGIN).
+   * 
+   * @param options - Account name and issuer shown in the authenticator app;
+   *   default to the user's email and the Firebase project ID
+   * @throws {AuthenticationError} With code 'NOT_AUTHENTICATED' or a mapped Firebase code
+   */
+  async function startTotpEnrollment(
+    options: { accountName?: string; issuer?: string } = {}
+  ): Promise<TotpEnrollment> {
+    try {
+      const user = requireCurrentUser();
+      const session = await multiFactor(user).getSession();
+      const secret = await TotpMultiFactorGenerator.generateSecret(session);
+
+      return {
+        secretKey: secret.secretKey,
+        qrCodeUrl: secret.generateQrCodeUrl(
+          options.accountName || user.email || user.uid,
+          options.issuer || auth?.app.options.projectId
+        ),
+        complete: (code, displayName) => enrollMfaFactor(
+          user,
+          () => TotpMultiFactorGenerator.assertionForEnrollment(secret, code),
+          displayName
+        ),
+      };
+    } catch (error) {
+      throw toAuthenticationError(error);
+    }
+  }
+
+  /**
+   * Start enrolling a phone number as an SMS second factor
+   * 
+   * Texts a code to phoneNumber; pass it to complete(). Same requirements
+   * as startTotpEnrollment().
+   * 
+   * @param phoneNumber - E.164 number, e.g. "+15555550100"
+   * @param appVerifier - A reCAPTCHA verifier (RecaptchaVerifier from firebase/auth)
+   * @throws {AuthenticationError} With code 'NOT_AUTHENTICATED', 'INVALID_PHONE_NUMBER' or a mapped Firebase code
+   */
+  async function startSmsEnrollment(phoneNumber: string, appVerifier: ApplicationVerifier): Promise<MfaEnrollment> {
+    try {
+      const user = requireCurrentUser();
+      const session = await multiFactor(user).getSession();
+      const verificationId = await new PhoneAuthProvider(requireAuth()).verifyPhoneNumber(
+        { phoneNumber, session },
+        appVerifier
+      );
+
+      return {
+        complete: (code, displayName) => enrollMfaFactor(
+          user,
+          () => PhoneMultiFactorGenerator.assertion(PhoneAuthProvider.credential(verificationId, code)),
+          displayName
+        ),
+      };
+    } catch (error) {
+      throw toAuthenticationError(error);
+    }
+  }
+
+  /**
+   * Remove a second factor from the current user's account
+   * 
+   * Removing the factor the user signed in with ends their session, which
+   * is reported to onSessionLost() listeners as SIGNED_OUT.
+   * 
+   * @param factorUid - The factor's uid from listMfaFactors()
+   * @returns The factors still enrolled
+   * @throws {AuthenticationError} With code 'NOT_AUTHENTICATED', 'REQUIRES_RECENT_LOGIN' or a mapped Firebase code
+   */
+  async function unenrollMfaFactor(factorUid: string): Promise<MfaFactor[]> {
+    try {
+      const user = requireCurrentUser();
+      await multiFactor(user).unenroll(factorUid);
+
+      return multiFactor(user).enrolledFactors.map(toMfaFactor);
+    } catch (error) {
+      throw toAuthenticationError(error);
+    }
+  }
+
+  /**
+   * Ask the syncUserProfile Cloud Function to update public.user_identities
+   * 
+   * Runs after the Firebase link or unlink has succeeded, so a failure is
+   * reported with its own code; the next sign-in syncs the providers again.
+   * 
+   * @throws {AuthenticationError} With code 'PROVIDER_SYNC_FAILED'
+   */
+  async function syncLinkedProviders(): Promise<void> {
+    if (!firebaseApp) {
+      return;
+    }
+
+    try {
+      await httpsCallable(getFunctions(firebaseApp), 'syncUserProfile')();
+    } catch (error) {
+      throw new AuthenticationError(
+        `Sign-in methods changed, but syncing them to Supabase failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'PROVIDER_SYNC_FAILED'
+      );
+    }
+  }
+
+  async function linkCredential(credential: AuthCredential): Promise<User> {
+    try {
+      const result = await linkWithCredential(requireCurrentUser(), credential);
+      await syncLinkedProviders();
+
+      return result.user;
+    } catch (error) {
+      throw toAuthenticationError(error);
+    }
+  }
+
+  /**
+   * List the sign-in methods linked to the current user
+   * 
+   * @returns The providers, or an empty list when no user is signed in
+   *   (anonymous users have none)
+   */
+  function listLinkedProviders(): LinkedProvider[] {
+    return (auth?.currentUser?.providerData || []).map(provider => ({
+      providerId: provider.providerId,
+      uid: provider.uid,
+      email: provider.email,
+      displayName: provider.displayName,
+    }));
+  }
+
+  /**
+   * Link another sign-in method to the current user
+   * 
+   * Also upgrades an anonymous user to a permanent account. OAuth providers
+   * open a popup or redirect like signIn(); after a redirect,
+   * completeRedirectSignIn() finishes the link. The linked providers are
+   * then synced to public.user_identities.
+   * 
+   * @param config - Provider and its credentials, as for signIn()
+   * @returns The user with the new provider linked
+   * @throws {AuthenticationError} With code 'NOT_AUTHENTICATED',
+   *   'PROVIDER_ALREADY_LINKED', 'CREDENTIAL_IN_USE' (another account uses
+   *   it), 'PROVIDER_SYNC_FAILED' (linked, but public.user_identities was not
+   *   updated) or a mapped Firebase code
+   */
+  async function linkProvider(config: LinkProviderConfig): Promise<User> {
+    try {
+      const user = requireCurrentUser();
+
+      switch (config.provider) {
+        case 'password':
+          return await linkCredential(EmailAuthProvider.credential(config.email, config.password));
+        case 'emailLink': {
+          const { email, link } = readEmailLink(requireAuth(), config);
+          const linked = await linkCredential(EmailAuthProvider.credentialWithLink(email, link));
+          getLocalStorage()?.removeItem(EMAIL_FOR_SIGN_IN_KEY);
+          return linked;
+        }
+        default: {
+          const result = await linkWithOAuth(user, config);
+          await syncLinkedProviders();
+          return result.user;
+        }
+      }
+    } catch (error) {
+      throw toAuthenticationError(error);
+    }
+  }
+
+  /**
+   * Remove a sign-in method from the current user
+   * 
+   * @param providerId - e.g. 'google.com' or 'password' (see listLinkedProviders())
+   * @returns The user without the provider
+   * @throws {AuthenticationError} With code 'NOT_AUTHENTICATED',
+   *   'PROVIDER_NOT_LINKED', 'LAST_PROVIDER' (the account would have no way
+   *   to sign in), 'PROVIDER_SYNC_FAILED' (unlinked, but
+   *   public.user_identities was not updated) or a mapped Firebase code
+   */
+  async function unlinkProvider(providerId: string): Promise<User> {
+    try {
+      const user = requireCurrentUser();
+
+      if (!user.providerData.some(provider => provider.providerId === providerId)) {
+        throw new AuthenticationError(`${providerId} is not linked to this account`, 'PROVIDER_NOT_LINKED');
+      }
+      if (user.providerData.length === 1) {
+        throw new AuthenticationError('The only sign-in method of an account cannot be unlinked', 'LAST_PROVIDER');
+      }
+
+      const updated = await unlink(user, providerId);
+      await syncLinkedProviders();
+
+      return updated;
+    } catch (error) {
+      throw toAuthenticationError(error);
+    }
+  }
+
+  /**
+   * Query a user's row from the public.users table, bypassing the cache
+   */
+  async function fetchUserData(firebaseUid: string): Promise<UserData> {
+    try {
+      // Ensure Supabase is initialized
+      if (!supabase) {
+        initializeSupabase();
+      }
+
+      if (!supabase) {
+        throw new DataFetchError('Supabase client not initialized', 'NOT_INITIALIZED');
+      }
+
+      // Query user data from Supabase
+      const { data, error } = await supabase
+        .from('users')
+        .select('*')
+        .eq('firebase_uid', firebaseUid)
+        .single();
+
+      // Handle errors
+      if (error) {
+        throw toDataFetchError(error, 'fetch user data');
+      }
+
+      // Validate data
+      if (!data) {
+        throw new DataFetchError(
+          'No user data returned from database',
+          'NO_DATA'
+        );
+      }
+
+      const problems = findRowProblems('users', data);
+      if (problems.length) {
+        throw new DataFetchError(
+          `User data does not match the database schema: ${problems.join('; ')}`,
+          'INVALID_DATA'
+        );
+      }
+
+      return data;
+    } catch (error) {
+      if (error instanceof DataFetchError) {
+        throw error;
+      }
+
+      throw new DataFetchError(
+        `Unexpected error fetching user data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'UNEXPECTED_ERROR'
+      );
+    }
+  }
+
+  function getProfileStore(): ProfileStore {
+    if (!profileStore) {
+      const { profileCache, profileCacheFreshMs } = resolveOptions();
+
+      profileStore = createProfileStore({
+        adapter: profileCache === false ? null : profileCache || createMemoryProfileCache(),
+        fetchProfile: fetchUserData,
+        freshMs: profileCacheFreshMs,
+        onProfile: publishProfile,
+      });
+    }
+    return profileStore;
+  }
+
+  /**
+   * Fetch user data from Supabase database
+   * 
+   * This function queries the public.users table in Supabase
+   * using the Firebase UID. Row Level Security (RLS) policies
+   * ensure users can only access their own data.
+   * 
+   * A cached profile is returned right away and, once older than
+   * profileCacheFreshMs, revalidated in the background; the signed-in auth
+   * state is updated when the fresh profile arrives. Without network access
+   * the last-known profile keeps being served.
+   * 
+   * @param firebaseUid - The Firebase user ID
+   * @param forceRefresh - Skip the cache and wait for the database
+   * @returns Promise resolving to the user data
+   * @throws {DataFetchError} If data fetch fails and nothing is cached
+   */
+  async function getUserData(firebaseUid: string, forceRefresh: boolean = false): Promise<UserData> {
+    // Validate input
+    if (!firebaseUid || typeof firebaseUid !== 'string') {
+      throw new DataFetchError(
+        'Invalid Firebase UID provided',
+        'INVALID_UID'
+      );
+    }
+
+    return getProfileStore().get(firebaseUid, forceRefresh);
+  }
+
+  /**
+   * Drop a cached profile, e.g. when a change to it is known to have happened
+   * elsewhere; the next getUserData() waits for the database
+   * 
+   * @param firebaseUid - The Firebase user ID
+   */
+  function invalidateUserData(firebaseUid: string): Promise<void> {
+    return getProfileStore().invalidate(firebaseUid);
+  }
+
+  /**
+   * Update the current user's profile in public.users
+   * 
+   * The update only applies if the row's updated_at still matches the
+   * version the edit is based on, so a change made in another tab or device
+   * is never silently overwritten. On success the cached profile and the
+   * auth state are updated with the new profile.
+   * 
+   * @param patch - display_name and/or photo_url; null clears a field
+   * @param options - expectedUpdatedAt (defaults to the profile in the auth
+   *   state) and updateFirebaseProfile (default true) to keep the Firebase
+   *   user in step
+   * @returns Promise resolving to the updated profile
+   * @throws {DataFetchError} With code 'INVALID_PROFILE', 'CONFLICT' (the row
+   *   changed since expectedUpdatedAt; reload and retry), 'NOT_AUTHENTICATED',
+   *   'PERMISSION_DENIED' or 'FIREBASE_UPDATE_FAILED'
+   */
+  async function updateUserProfile(patch: UserProfilePatch, options: UpdateUserProfileOptions = {}): Promise<UserData> {
+    try {
+      const user = auth?.currentUser;
+      if (!user) {
+        throw new DataFetchError('No user is currently signed in', 'NOT_AUTHENTICATED');
+      }
+
+      const changes = validateProfilePatch(patch);
+
+      const stateProfile = authState.status === 'signed-in' && authState.profile.firebase_uid === user.uid
+        ? authState.profile
+        : null;
+      const expectedUpdatedAt = options.expectedUpdatedAt
+        || stateProfile?.updated_at
+        || (await getUserData(user.uid)).updated_at;
+
+      // Ensure Supabase is initialized
+      if (!supabase) {
+        initializeSupabase();
+      }
+
+      if (!supabase) {
+        throw new DataFetchError('Supabase client not initialized', 'NOT_INITIALIZED');
+      }
+
+      const query = supabase
+        .from('users')
+        .update(changes)
+        .eq('firebase_uid', user.uid);
+
+      // updated_at is nullable in the schema; a row without one only matches IS NULL
+      const { data, error } = await (expectedUpdatedAt === null
+        ? query.is('updated_at', null)
+        : query.eq('updated_at', expectedUpdatedAt)
+      )
+        .select('*')
+        .maybeSingle();
+
+      if (error) {
+        throw toDataFetchError(error, 'update profile');
+      }
+
+      if (!data) {
+        // No row matched: it either changed since expectedUpdatedAt or doesn't exist (USER_NOT_FOUND).
+        // Fetching also refreshes the cached profile for the retry.
+        await getProfileStore().fetch(user.uid);
+        throw new DataFetchError('The profile was changed elsewhere. Reload it and try again.', 'CONFLICT');
+      }
+
+      const profile = data;
+
+      // Cache the new profile and update the auth state
+      await getProfileStore().write(profile);
+
+      if (options.updateFirebaseProfile !== false) {
+        try {
+          await firebaseUpdateProfile(user, {
+            ...('display_name' in changes ? { displayName: changes.display_name } : {}),
+            ...('photo_url' in changes ? { photoURL: changes.photo_url } : {}),
+          });
+        } catch (firebaseError) {
+          throw new DataFetchError(
+            `Profile saved, but updating the Firebase profile failed: ${firebaseError instanceof Error ? firebaseError.message : 'Unknown error'}`,
+            'FIREBASE_UPDATE_FAILED'
+          );
+        }
+      }
+
+      return profile;
+    } catch (error) {
+      if (error instanceof DataFetchError) {
+        throw error;
+      }
+
+      throw new DataFetchError(
+        `Unexpected error updating profile: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'UNEXPECTED_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Get the current authenticated user from Firebase
+   * 
+   * @returns The current Firebase user or null if not authenticated
+   */
+  function getCurrentUser(): User | null {
+    if (!auth) {
+      return null;
+    }
+    return auth.currentUser;
+  }
+
+  /**
+   * Sign out the current user
+   * 
+   * @throws {AuthenticationError} If sign-out fails
+   */
+  async function signOut(): Promise<void> {
+    try {
+      if (!auth) {
+        throw new AuthenticationError('Firebase Auth not initialized', 'NOT_INITIALIZED');
+      }
+
+      // Stop proactive refreshes; clearing the token first also keeps the
+      // onIdTokenChanged listener from reporting this as a lost session
+      clearRefreshTimer();
+      supabaseToken = null;
+      realtime.closeAll();
+
+      const uid = auth.currentUser?.uid;
+      await auth.signOut();
+
+      // The next user on this device must not see this user's profile
+      if (uid) {
+        await getProfileStore().invalidate(uid);
+      }
+
+      // Clear Supabase session
+      if (supabase) {
+        await supabase.auth.signOut();
+      }
+    } catch (error) {
+      throw new AuthenticationError(
+        `Sign-out failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'SIGNOUT_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Get the current Firebase ID token
+   * 
+   * @param forceRefresh - Whether to force refresh the token
+   * @returns Promise resolving to the ID token
+   * @throws {AuthenticationError} If token retrieval fails
+   */
+  async function getIdToken(forceRefresh: boolean = false): Promise<string> {
+    try {
+      if (!auth || !auth.currentUser) {
+        throw new AuthenticationError('No user is currently signed in', 'NOT_AUTHENTICATED');
+      }
+
+      const token = await auth.currentUser.getIdToken(forceRefresh);
+      return token;
+    } catch (error) {
+      throw new AuthenticationError(
+        `Failed to get ID token: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'TOKEN_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Refresh the Supabase session with a new Firebase token
+   * 
+   * Refreshes happen automatically before the token expires (see
+   * startSessionRefresh); call this to force one, e.g. after changing claims
+   * 
+   * @throws {AuthenticationError} If refresh fails
+   */
+  async function refreshSupabaseSession(): Promise<void> {
+    try {
+      // Get fresh token from Firebase
+      const token = await getIdToken(true);
+
+      // Update Supabase session
+      await applySupabaseToken(token);
+    } catch (error) {
+      throw new AuthenticationError(
+        `Failed to refresh Supabase session: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'REFRESH_FAILED'
+      );
+    }
+  }
+
+  function clearRefreshTimer(): void {
+    if (refreshTimer) {
+      clearTimeout(refreshTimer);
+      refreshTimer = null;
+    }
+  }
+
+  function emitSessionLost(event: SessionLostEvent): void {
+    for (const listener of sessionLostListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Session lost listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Force a token refresh shortly before expiry; onIdTokenChanged then
+   * delivers the new token and schedules the next refresh
+   */
+  function scheduleTokenRefresh(user: User, expiresAt: number, delayMs: number = refreshDelayMs(expiresAt)): void {
+    clearRefreshTimer();
+
+    refreshTimer = setTimeout(() => {
+      refreshTimer = null;
+
+      user.getIdToken(true).catch((error) => {
+        // Keep retrying while the current token is still valid
+        if (Date.now() + TOKEN_REFRESH_RETRY_MS < expiresAt) {
+          scheduleTokenRefresh(user, expiresAt, TOKEN_REFRESH_RETRY_MS);
+          return;
+        }
+
+        supabaseToken = null;
+        emitSessionLost({
+          code: 'REFRESH_FAILED',
+          error: new AuthenticationError(
+            `Failed to refresh ID token: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            'REFRESH_FAILED'
+          ),
+        });
+      });
+    }, delayMs);
+  }
+
+  async function handleIdTokenChanged(user: User | null): Promise<void> {
+    clearRefreshTimer();
+
+    if (!user) {
+      // A token without signOut() clearing it means Firebase ended the session
+      if (supabaseToken !== null) {
+        supabaseToken = null;
+        realtime.closeAll();
+        await supabase?.auth.signOut().catch(() => undefined);
+        emitSessionLost({ code: 'SIGNED_OUT' });
+      }
+      return;
+    }
+
+    try {
+      const result = await user.getIdTokenResult();
+      await applySupabaseToken(result.token);
+      scheduleTokenRefresh(user, Date.parse(result.expirationTime));
+    } catch (error) {
+      emitSessionLost({
+        code: 'REFRESH_FAILED',
+        error: new AuthenticationError(
+          `Failed to update Supabase session: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'REFRESH_FAILED'
+        ),
+      });
+    }
+  }
+
+  /**
+   * Keep the Supabase session in step with the Firebase ID token
+   * 
+   * Subscribes to onIdTokenChanged: every new token is set on the Supabase
+   * client, and a refresh is forced TOKEN_REFRESH_MARGIN_MS before expiry so
+   * Supabase requests never run with an expired token. Called by
+   * initializeFirebase(); safe to call again.
+   */
+  function startSessionRefresh(): void {
+    if (unsubscribeIdToken || !auth) {
+      return;
+    }
+
+    unsubscribeIdToken = onIdTokenChanged(auth, (user) => {
+      void handleIdTokenChanged(user);
+    });
+  }
+
+  /**
+   * Stop the onIdTokenChanged subscription and any scheduled refresh
+   */
+  function stopSessionRefresh(): void {
+    clearRefreshTimer();
+
+    if (unsubscribeIdToken) {
+      unsubscribeIdToken();
+      unsubscribeIdToken = null;
+    }
+  }
+
+  /**
+   * Listen for the Supabase session being lost
+   * 
+   * @param listener - Called with the reason; typically redirects to sign-in
+   * @returns Function that removes the listener
+   */
+  function onSessionLost(listener: (event: SessionLostEvent) => void): () => void {
+    sessionLostListeners.add(listener);
+    return () => {
+      sessionLostListeners.delete(listener);
+    };
+  }
+
+  function setAuthState(state: AuthState): void {
+    authState = state;
+
+    for (const listener of authStateListeners) {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('Auth state listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Keep the signed-in state's profile in step with profiles fetched or
+   * written through the cache
+   */
+  function publishProfile(profile: UserData): void {
+    if (
+      authState.status === 'signed-in'
+      && authState.user.uid === profile.firebase_uid
+      && JSON.stringify(authState.profile) !== JSON.stringify(profile)
+    ) {
+      setAuthState({ status: 'signed-in', user: authState.user, profile });
+    }
+  }
+
+  /**
+   * Load the profile of a newly signed-in user and emit signed-in or error
+   * 
+   * A cached profile is emitted as signed-in right away and kept if the
+   * fresh one can't be loaded (e.g. offline). USER_NOT_FOUND is retried
+   * because the syncUserToSupabase Cloud Function may still be creating the
+   * row right after sign-up.
+   */
+  async function loadSignedInState(user: User, version: number): Promise<void> {
+    setAuthState({ status: 'signing-in', user });
+
+    const cached = await getProfileStore().read(user.uid);
+    if (cached && version === authStateVersion) {
+      setAuthState({ status: 'signed-in', user, profile: cached.profile });
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await establishSupabaseSession(user);
+        const profile = await getProfileStore().fetch(user.uid);
+
+        // Ignore results for a user who has since signed out or changed
+        if (version === authStateVersion) {
+          setAuthState({ status: 'signed-in', user, profile });
+        }
+        return;
+      } catch (error: any) {
+        if (version !== authStateVersion) {
+          return;
+        }
+
+        if (error?.code === 'USER_NOT_FOUND' && attempt < PROFILE_RETRY_DELAYS_MS.length) {
+          await new Promise(resolve => setTimeout(resolve, PROFILE_RETRY_DELAYS_MS[attempt]));
+          continue;
+        }
+
+        // Keep showing the cached profile unless the failure dropped it (e.g. USER_NOT_FOUND)
+        const stillCached = cached && await getProfileStore().read(user.uid);
+        if (stillCached || version !== authStateVersion) {
+          return;
+        }
+
+        setAuthState({
+          status: 'error',
+          user,
+          error: error instanceof DataFetchError || error instanceof AuthenticationError
+            ? error
+            : new DataFetchError(`Failed to load profile: ${error?.message || 'Unknown error'}`, 'UNEXPECTED_ERROR'),
+        });
+        return;
+      }
+    }
+  }
+
+  /**
+   * Follow Firebase auth state changes and turn them into AuthState updates
+   * 
+   * Called by initializeFirebase(); safe to call again.
+   */
+  function startAuthStateSync(): void {
+    if (unsubscribeAuthState || !auth) {
+      return;
+    }
+
+    unsubscribeAuthState = onAuthStateChanged(auth, (user) => {
+      const version = ++authStateVersion;
+
+      if (!user) {
+        // Also covers sign-outs without signOut() (revoked session, another tab)
+        const previousUser = authState.status === 'signed-out' ? null : authState.user;
+        if (previousUser) {
+          void getProfileStore().invalidate(previousUser.uid);
+        }
+
+        setAuthState({ status: 'signed-out' });
+        return;
+      }
+
+      void loadSignedInState(user, version);
+    });
+  }
+
+  /**
+   * Get the latest auth state
+   */
+  function getAuthState(): AuthState {
+    return authState;
+  }
+
+  /**
+   * Subscribe to combined auth state changes
+   * 
+   * The callback is called immediately with the current state and then on
+   * every change: signed-out, signing-in, signed-in (Firebase user plus
+   * Supabase profile) or error. Initializes Firebase if needed; a
+   * configuration error is delivered as an error state.
+   * 
+   * @param callback - Receives each new state
+   * @returns Function that removes the callback
+   */
+  function onAuthStateChange(callback: (state: AuthState) => void): () => void {
+    authStateListeners.add(callback);
+
+    try {
+      requireAuth();
+    } catch (error) {
+      authState = { status: 'error', user: null, error: toAuthenticationError(error) };
+    }
+
+    callback(authState);
+
+    return () => {
+      authStateListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Listen for changes to the signed-in user's rows in a table
+   * 
+   * Opens a Supabase Realtime channel with the user's Firebase token, so
+   * only changes the table's RLS SELECT policies let the user see are
+   * delivered, further limited to rows whose owner column holds their
+   * firebase_uid. The channel follows token refreshes and is closed on
+   * sign-out. The table must be in the supabase_realtime publication.
+   * 
+   * DELETE changes can't be filtered by owner: they carry only the deleted
+   * row's primary key, to be matched against rows the app already has.
+   * 
+   * @param table - Table to watch, e.g. 'orders'
+   * @param callback - Receives each change; rows are checked against the schema
+   * @param options - ownerColumn (defaults to firebase_uid or user_id), event and onError
+   * @returns Function that closes the channel
+   * @throws {DataFetchError} With code 'NOT_AUTHENTICATED' or 'INVALID_TABLE'
+   *   (no owner column)
+   */
+  function subscribeToOwnRows<T extends TableName>(
+    table: T,
+    callback: (change: RowChange<T>) => void,
+    options: OwnRowsOptions = {}
+  ): () => void {
+    const user = auth?.currentUser;
+    if (!user) {
+      throw new DataFetchError('No user is currently signed in', 'NOT_AUTHENTICATED');
+    }
+
+    const filter = ownRowsFilter(table, user.uid, options.ownerColumn);
+    if (!filter) {
+      throw new DataFetchError(
+        `${table} has no ${options.ownerColumn || 'firebase_uid or user_id'} column to filter by; pass options.ownerColumn`,
+        'INVALID_TABLE'
+      );
+    }
+
+    return realtime.add({
+      table,
+      filter,
+      event: options.event || '*',
+      onChange(payload) {
+        const change = toRowChange<T>(payload);
+
+        const problems = change.row ? findRowProblems(table, change.row) : [];
+        if (problems.length) {
+          options.onError?.(new DataFetchError(
+            `Realtime change does not match the database schema: ${problems.join('; ')}`,
+            'INVALID_DATA'
+          ));
+          return;
+        }
+
+        callback(change);
+      },
+      onFailure(error) {
+        options.onError?.(new DataFetchError(
+          `Realtime subscription to ${table} failed: ${error.message}`,
+          'REALTIME_FAILED'
+        ));
+      },
+    });
+  }
+
+  /**
+   * Listen for changes to a user's public.users row
+   * 
+   * Each new version is also written to the profile cache and the signed-in
+   * auth state; a deleted row is removed from the cache and delivered as null.
+   * Under 02-setup-rls.sql users only receive their own row.
+   * 
+   * @param firebaseUid - The signed-in user's Firebase UID
+   * @param callback - Receives the new profile, or null once it is deleted
+   * @param options - onError
+   * @returns Function that closes the channel
+   * @throws {DataFetchError} With code 'NOT_AUTHENTICATED'
+   */
+  function subscribeToUserProfile(
+    firebaseUid: string,
+    callback: (profile: UserData | null) => void,
+    options: Pick<OwnRowsOptions, 'onError'> = {}
+  ): () => void {
+    return subscribeToOwnRows('users', (change) => {
+      if (change.row) {
+        if (change.row.firebase_uid === firebaseUid) {
+          void getProfileStore().write(change.row);
+          callback(change.row);
+        }
+        return;
+      }
+
+      // Deletes of other users' rows also arrive, with only their primary key
+      if (change.oldRow?.firebase_uid === firebaseUid) {
+        void getProfileStore().invalidate(firebaseUid);
+        callback(null);
+      }
+    }, { ownerColumn: 'firebase_uid', onError: options.onError });
+  }
+
+  /**
+   * Export all data tied to the current user (GDPR access request)
+   * 
+   * Calls the exportUserData Cloud Function, which collects the user's
+   * public.users row and every row in tables that reference it (orders,
+   * products, ...).
+   * 
+   * @returns Promise resolving to the export bundle
+   * @throws {DataFetchError} If no user is signed in or the export fails
+   */
+  async function exportUserData(): Promise<UserDataExport> {
+    try {
+      if (!auth || !auth.currentUser || !firebaseApp) {
+        throw new DataFetchError('No user is currently signed in', 'NOT_AUTHENTICATED');
+      }
+
+      const callExport = httpsCallable<void, UserDataExport>(getFunctions(firebaseApp), 'exportUserData');
+      const result = await callExport();
+
+      return result.data;
+    } catch (error: any) {
+      if (error instanceof DataFetchError) {
+        throw error;
+      }
+
+      if (error.code === 'functions/unauthenticated') {
+        throw new DataFetchError(
+          'Session expired. Please sign in again.',
+          'NOT_AUTHENTICATED'
+        );
+      }
+
+      throw new DataFetchError(
+        `Failed to export user data: ${error.message || 'Unknown error'}`,
+        'EXPORT_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Export the current user's data and save it as a JSON file (browser only)
+   * 
+   * @param filename - Name of the downloaded file
+   * @returns Promise resolving to the export bundle that was downloaded
+   * @throws {DataFetchError} If the export fails
+   */
+  async function downloadUserDataExport(filename?: string): Promise<UserDataExport> {
+    const bundle = await exportUserData();
+
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename || `user-data-${bundle.firebase_uid}-${bundle.exported_at.slice(0, 10)}.json`;
+    link.click();
+    // The browser may read the URL after click() returns
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+
+    return bundle;
+  }
+
+  /**
+   * Stop all subscriptions and timers and delete the Firebase app
+   * 
+   * The client can be initialized again afterwards.
+   */
+  async function dispose(): Promise<void> {
+    stopSessionRefresh();
+
+    if (unsubscribeAuthState) {
+      unsubscribeAuthState();
+      unsubscribeAuthState = null;
+    }
+
+    // Drop profile loads that are still in flight
+    authStateVersion++;
+    authState = { status: 'signing-in', user: null };
+    authStateListeners.clear();
+    sessionLostListeners.clear();
+    supabaseToken = null;
+    profileStore = null;
+    realtime.closeAll();
+
+    const app = firebaseApp;
+    firebaseApp = null;
+    auth = null;
+    supabase = null;
+
+    if (app) {
+      await deleteApp(app);
+    }
+  }
+
+  const client: LumiBaseClient = {
+    get firebaseApp() {
+      return firebaseApp;
+    },
+    get auth() {
+      return auth;
+    },
+    get supabase() {
+      return supabase;
+    },
+    initializeFirebase,
+    initializeSupabase,
+    establishSupabaseSession,
+    signIn,
+    signInWithGoogle,
+    signInWithGitHub,
+    signInWithApple,
+    completeRedirectSignIn,
+    signInWithEmail,
+    signUpWithEmail,
+    sendEmailSignInLink,
+    signInWithEmailLink,
+    signInAnonymously,
+    signOut,
+    listLinkedProviders,
+    linkProvider,
+    unlinkProvider,
+    listMfaFactors,
+    startTotpEnrollment,
+    startSmsEnrollment,
+    unenrollMfaFactor,
+    getUserData,
+    invalidateUserData,
+    getCurrentUser,
+    getIdToken,
+    refreshSupabaseSession,
+    updateUserProfile,
+    startSessionRefresh,
+    stopSessionRefresh,
+    onSessionLost,
+    startAuthStateSync,
+    getAuthState,
+    onAuthStateChange,
+    subscribeToUserProfile,
+    subscribeToOwnRows,
+    exportUserData,
+    downloadUserDataExport,
+    dispose,
+  };
+
+  return client;
+}
+
+/**
+ * Create a LumiBase client
+ * 
+ * Each client has its own Firebase app, Supabase client, token refresh and
+ * auth state, so several can run side by side (one per tenant, per test or
+ * per server request). Nothing is read from process.env; pass every setting
+ * in options. Firebase and Supabase are initialized on first use.
+ * 
+ * @param options - Firebase and Supabase settings
+ * @returns Client with every function of this module as a method
+ * 
+ * @example
+ * const tenant = createLumiBaseClient({
+ *   appName: 'tenant-a',
+ *   firebase: { apiKey, authDomain, projectId },
+ *   supabaseUrl,
+ *   supabaseAnonKey,
+ * });
+ * await tenant.signInWithGoogle();
+ */
+export function createLumiBaseClient(options: LumiBaseClientOptions = {}): LumiBaseClient {
+  return buildClient(() => options);
+}
+
+/**
+ * Options for the default client, read from process.env when it initializes
+ */
+function readEnvOptions(): LumiBaseClientOptions {
+  const env: Record<string, string | undefined> = typeof process !== 'undefined' ? process.env : {};
+
+  return {
+    firebase: {
+      apiKey: env.FIREBASE_WEB_API_KEY || '',
+      authDomain: `${env.FIREBASE_PROJECT_ID || ''}.firebaseapp.com`,
+      projectId: env.FIREBASE_PROJECT_ID || '',
+    },
+    supabaseUrl: env.SUPABASE_URL,
+    supabaseAnonKey: env.SUPABASE_ANON_KEY,
+  };
+}
+
+// Instances of the default client, for advanced usage
+let firebaseApp: FirebaseApp | null = null;
+let auth: Auth | null = null;
+let supabase: SupabaseClient<Database> | null = null;
+
+const defaultClient = buildClient(readEnvOptions, (client) => {
+  firebaseApp = client.firebaseApp;
+  auth = client.auth;
+  supabase = client.supabase;
+});
+
+/**
+ * Get the default client behind this module's function exports
+ */
+export function getDefaultClient(): LumiBaseClient {
+  return defaultClient;
+}
+
+// The module-level API is the default client, configured from process.env
+export const {
+  initializeFirebase,
+  initializeSupabase,
+  establishSupabaseSession,
+  signIn,
+  signInWithGoogle,
+  signInWithGitHub,
+  signInWithApple,
+  completeRedirectSignIn,
+  signInWithEmail,
+  signUpWithEmail,
+  sendEmailSignInLink,
+  signInWithEmailLink,
+  signInAnonymously,
+  signOut,
+  listLinkedProviders,
+  linkProvider,
+  unlinkProvider,
+  listMfaFactors,
+  startTotpEnrollment,
+  startSmsEnrollment,
+  unenrollMfaFactor,
+  getUserData,
+  invalidateUserData,
+  getCurrentUser,
+  getIdToken,
+  refreshSupabaseSession,
+  updateUserProfile,
+  startSessionRefresh,
+  stopSessionRefresh,
+  onSessionLost,
+  startAuthStateSync,
+  getAuthState,
+  onAuthStateChange,
+  subscribeToUserProfile,
+  subscribeToOwnRows,
+  exportUserData,
+  downloadUserDataExport,
+} = defaultClient;
+
 export { auth, supabase, firebaseApp };
@@ -0,0 +1,732 @@
+/**
+ * Database Types
+ *
+ * Generated by scripts/generate-db-types.ts from the public schema of the
+ * local Postgres. Do not edit by hand; run `npm run generate-db-types` after
+ * changing init-scripts/ or applying a template migration.
+ */
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      categories: {
+        Row: {
+          created_at: string | null;
+          description: string | null;
+          id: string;
+          name: string;
+          parent_id: string | null;
+          slug: string;
+          sort_order: number | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          description?: string | null;
+          id?: string;
+          name: string;
+          parent_id?: string | null;
+          slug: string;
+          sort_order?: number | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          created_at?: string | null;
+          description?: string | null;
+          id?: string;
+          name?: string;
+          parent_id?: string | null;
+          slug?: string;
+          sort_order?: number | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey";
+            columns: ["parent_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      order_items: {
+        Row: {
+          created_at: string | null;
+          id: string;
+          order_id: string;
+          product_id: string | null;
+          product_image_url: string | null;
+          product_name: string;
+          product_sku: string | null;
+          quantity: number;
+          total_price: number;
+          unit_price: number;
+        };
+        Insert: {
+          created_at?: string | null;
+          id?: string;
+          order_id: string;
+          product_id?: string | null;
+          product_image_url?: string | null;
+          product_name: string;
+          product_sku?: string | null;
+          quantity: number;
+          total_price: number;
+          unit_price: number;
+        };
+        Update: {
+          created_at?: string | null;
+          id?: string;
+          order_id?: string;
+          product_id?: string | null;
+          product_image_url?: string | null;
+          product_name?: string;
+          product_sku?: string | null;
+          quantity?: number;
+          total_price?: number;
+          unit_price?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      order_status_history: {
+        Row: {
+          created_at: string | null;
+          created_by: string | null;
+          id: string;
+          note: string | null;
+          order_id: string;
+          status: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          created_by?: string | null;
+          id?: string;
+          note?: string | null;
+          order_id: string;
+          status: string;
+        };
+        Update: {
+          created_at?: string | null;
+          created_by?: string | null;
+          id?: string;
+          note?: string | null;
+          order_id?: string;
+          status?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["firebase_uid"];
+          },
+          {
+            foreignKeyName: "order_status_history_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      orders: {
+        Row: {
+          admin_note: string | null;
+          billing_address_line1: string | null;
+          billing_address_line2: string | null;
+          billing_city: string | null;
+          billing_country: string | null;
+          billing_email: string | null;
+          billing_name: string | null;
+          billing_phone: string | null;
+          billing_postal_code: string | null;
+          billing_state: string | null;
+          cancelled_at: string | null;
+          created_at: string | null;
+          customer_note: string | null;
+          delivered_at: string | null;
+          discount: number | null;
+          id: string;
+          order_number: string;
+          paid_at: string | null;
+          payment_method: string | null;
+          payment_status: "pending" | "paid" | "failed" | "refunded" | null;
+          payment_transaction_id: string | null;
+          shipped_at: string | null;
+          shipping_address_line1: string | null;
+          shipping_address_line2: string | null;
+          shipping_city: string | null;
+          shipping_cost: number | null;
+          shipping_country: string | null;
+          shipping_email: string | null;
+          shipping_name: string | null;
+          shipping_phone: string | null;
+          shipping_postal_code: string | null;
+          shipping_state: string | null;
+          status: "pending" | "processing" | "shipped" | "delivered" | "cancelled" | "refunded" | null;
+          subtotal: number;
+          tax: number | null;
+          total: number;
+          tracking_number: string | null;
+          tracking_url: string | null;
+          updated_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          admin_note?: string | null;
+          billing_address_line1?: string | null;
+          billing_address_line2?: string | null;
+          billing_city?: string | null;
+          billing_country?: string | null;
+          billing_email?: string | null;
+          billing_name?: string | null;
+          billing_phone?: string | null;
+          billing_postal_code?: string | null;
+          billing_state?: string | null;
+          cancelled_at?: string | null;
+          created_at?: string | null;
+          customer_note?: string | null;
+          delivered_at?: string | null;
+          discount?: number | null;
+          id?: string;
+          order_number: string;
+          paid_at?: string | null;
+          payment_method?: string | null;
+          payment_status?: "pending" | "paid" | "failed" | "refunded" | null;
+          payment_transaction_id?: string | null;
+          shipped_at?: string | null;
+          shipping_address_line1?: string | null;
+          shipping_address_line2?: string | null;
+          shipping_city?: string | null;
+          shipping_cost?: number | null;
+          shipping_country?: string | null;
+          shipping_email?: string | null;
+          shipping_name?: string | null;
+          shipping_phone?: string | null;
+          shipping_postal_code?: string | null;
+          shipping_state?: string | null;
+          status?: "pending" | "processing" | "shipped" | "delivered" | "cancelled" | "refunded" | null;
+          subtotal: number;
+          tax?: number | null;
+          total: number;
+          tracking_number?: string | null;
+          tracking_url?: string | null;
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          admin_note?: string | null;
+          billing_address_line1?: string | null;
+          billing_address_line2?: string | null;
+          billing_city?: string | null;
+          billing_country?: string | null;
+          billing_email?: string | null;
+          billing_name?: string | null;
+          billing_phone?: string | null;
+          billing_postal_code?: string | null;
+          billing_state?: string | null;
+          cancelled_at?: string | null;
+          created_at?: string | null;
+          customer_note?: string | null;
+          delivered_at?: string | null;
+          discount?: number | null;
+          id?: string;
+          order_number?: string;
+          paid_at?: string | null;
+          payment_method?: string | null;
+          payment_status?: "pending" | "paid" | "failed" | "refunded" | null;
+          payment_transaction_id?: string | null;
+          shipped_at?: string | null;
+          shipping_address_line1?: string | null;
+          shipping_address_line2?: string | null;
+          shipping_city?: string | null;
+          shipping_cost?: number | null;
+          shipping_country?: string | null;
+          shipping_email?: string | null;
+          shipping_name?: string | null;
+          shipping_phone?: string | null;
+          shipping_postal_code?: string | null;
+          shipping_state?: string | null;
+          status?: "pending" | "processing" | "shipped" | "delivered" | "cancelled" | "refunded" | null;
+          subtotal?: number;
+          tax?: number | null;
+          total?: number;
+          tracking_number?: string | null;
+          tracking_url?: string | null;
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "orders_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["firebase_uid"];
+          },
+        ];
+      };
+      product_categories: {
+        Row: {
+          category_id: string;
+          created_at: string | null;
+          id: string;
+          product_id: string;
+        };
+        Insert: {
+          category_id: string;
+          created_at?: string | null;
+          id?: string;
+          product_id: string;
+        };
+        Update: {
+          category_id?: string;
+          created_at?: string | null;
+          id?: string;
+          product_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "product_categories_category_id_fkey";
+            columns: ["category_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "product_categories_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      product_images: {
+        Row: {
+          alt_text: string | null;
+          created_at: string | null;
+          id: string;
+          is_primary: boolean | null;
+          product_id: string;
+          sort_order: number | null;
+          url: string;
+        };
+        Insert: {
+          alt_text?: string | null;
+          created_at?: string | null;
+          id?: string;
+          is_primary?: boolean | null;
+          product_id: string;
+          sort_order?: number | null;
+          url: string;
+        };
+        Update: {
+          alt_text?: string | null;
+          created_at?: string | null;
+          id?: string;
+          is_primary?: boolean | null;
+          product_id?: string;
+          sort_order?: number | null;
+          url?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "product_images_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      products: {
+        Row: {
+          barcode: string | null;
+          compare_at_price: number | null;
+          continue_selling_when_out_of_stock: boolean | null;
+          cost_per_item: number | null;
+          created_at: string | null;
+          created_by: string | null;
+          description: string | null;
+          featured: boolean | null;
+          id: string;
+          name: string;
+          price: number;
+          quantity: number | null;
+          short_description: string | null;
+          sku: string | null;
+          slug: string;
+          status: "draft" | "active" | "archived" | null;
+          track_quantity: boolean | null;
+          updated_at: string | null;
+          weight: number | null;
+          weight_unit: string | null;
+        };
+        Insert: {
+          barcode?: string | null;
+          compare_at_price?: number | null;
+          continue_selling_when_out_of_stock?: boolean | null;
+          cost_per_item?: number | null;
+          created_at?: string | null;
+          created_by?: string | null;
+          description?: string | null;
+          featured?: boolean | null;
+          id?: string;
+          name: string;
+          price: number;
+          quantity?: number | null;
+          short_description?: string | null;
+          sku?: string | null;
+          slug: string;
+          status?: "draft" | "active" | "archived" | null;
+          track_quantity?: boolean | null;
+          updated_at?: string | null;
+          weight?: number | null;
+          weight_unit?: string | null;
+        };
+        Update: {
+          barcode?: string | null;
+          compare_at_price?: number | null;
+          continue_selling_when_out_of_stock?: boolean | null;
+          cost_per_item?: number | null;
+          created_at?: string | null;
+          created_by?: string | null;
+          description?: string | null;
+          featured?: boolean | null;
+          id?: string;
+          name?: string;
+          price?: number;
+          quantity?: number | null;
+          short_description?: string | null;
+          sku?: string | null;
+          slug?: string;
+          status?: "draft" | "active" | "archived" | null;
+          track_quantity?: boolean | null;
+          updated_at?: string | null;
+          weight?: number | null;
+          weight_unit?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "products_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["firebase_uid"];
+          },
+        ];
+      };
+      sync_failures: {
+        Row: {
+          attempts: number;
+          created_at: string | null;
+          error_code: string | null;
+          error_message: string | null;
+          firebase_uid: string;
+          id: string;
+          last_attempt_at: string | null;
+          next_retry_at: string | null;
+          operation: "sync" | "delete";
+          payload: Json;
+          resolved_at: string | null;
+          status: "pending" | "resolved" | "dead";
+          updated_at: string | null;
+        };
+        Insert: {
+          attempts?: number;
+          created_at?: string | null;
+          error_code?: string | null;
+          error_message?: string | null;
+          firebase_uid: string;
+          id?: string;
+          last_attempt_at?: string | null;
+          next_retry_at?: string | null;
+          operation: "sync" | "delete";
+          payload?: Json;
+          resolved_at?: string | null;
+          status?: "pending" | "resolved" | "dead";
+          updated_at?: string | null;
+        };
+        Update: {
+          attempts?: number;
+          created_at?: string | null;
+          error_code?: string | null;
+          error_message?: string | null;
+          firebase_uid?: string;
+          id?: string;
+          last_attempt_at?: string | null;
+          next_retry_at?: string | null;
+          operation?: "sync" | "delete";
+          payload?: Json;
+          resolved_at?: string | null;
+          status?: "pending" | "resolved" | "dead";
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      user_identities: {
+        Row: {
+          created_at: string | null;
+          display_name: string | null;
+          email: string | null;
+          firebase_uid: string;
+          id: string;
+          phone_number: string | null;
+          provider_id: string;
+          provider_uid: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          display_name?: string | null;
+          email?: string | null;
+          firebase_uid: string;
+          id?: string;
+          phone_number?: string | null;
+          provider_id: string;
+          provider_uid: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          created_at?: string | null;
+          display_name?: string | null;
+          email?: string | null;
+          firebase_uid?: string;
+          id?: string;
+          phone_number?: string | null;
+          provider_id?: string;
+          provider_uid?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_identities_firebase_uid_fkey";
+            columns: ["firebase_uid"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["firebase_uid"];
+          },
+        ];
+      };
+      users: {
+        Row: {
+          created_at: string | null;
+          custom_claims: Json;
+          deleted_at: string | null;
+          display_name: string | null;
+          email: string;
+          firebase_uid: string;
+          photo_url: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          custom_claims?: Json;
+          deleted_at?: string | null;
+          display_name?: string | null;
+          email: string;
+          firebase_uid: string;
+          photo_url?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          created_at?: string | null;
+          custom_claims?: Json;
+          deleted_at?: string | null;
+          display_name?: string | null;
+          email?: string;
+          firebase_uid?: string;
+          photo_url?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+    };
+    Views: { [_ in never]: never };
+    Functions: { [_ in never]: never };
+    Enums: { [_ in never]: never };
+    CompositeTypes: { [_ in never]: never };
+  };
+};
+
+export type TableName = keyof Database['public']['Tables'];
+
+export type Tables<T extends TableName> = Database['public']['Tables'][T]['Row'];
+export type TablesInsert<T extends TableName> = Database['public']['Tables'][T]['Insert'];
+export type TablesUpdate<T extends TableName> = Database['public']['Tables'][T]['Update'];
+export type Enums<T extends keyof Database['public']['Enums']> = Database['public']['Enums'][T];
+
+// Column kinds, nullability and allowed values, checked at runtime by validators.ts
+export const DATABASE_COLUMNS = {
+  categories: {
+    created_at: { kind: 'string', nullable: true },
+    description: { kind: 'string', nullable: true },
+    id: { kind: 'string', nullable: false },
+    name: { kind: 'string', nullable: false },
+    parent_id: { kind: 'string', nullable: true },
+    slug: { kind: 'string', nullable: false },
+    sort_order: { kind: 'number', nullable: true },
+    updated_at: { kind: 'string', nullable: true },
+  },
+  order_items: {
+    created_at: { kind: 'string', nullable: true },
+    id: { kind: 'string', nullable: false },
+    order_id: { kind: 'string', nullable: false },
+    product_id: { kind: 'string', nullable: true },
+    product_image_url: { kind: 'string', nullable: true },
+    product_name: { kind: 'string', nullable: false },
+    product_sku: { kind: 'string', nullable: true },
+    quantity: { kind: 'number', nullable: false },
+    total_price: { kind: 'number', nullable: false },
+    unit_price: { kind: 'number', nullable: false },
+  },
+  order_status_history: {
+    created_at: { kind: 'string', nullable: true },
+    created_by: { kind: 'string', nullable: true },
+    id: { kind: 'string', nullable: false },
+    note: { kind: 'string', nullable: true },
+    order_id: { kind: 'string', nullable: false },
+    status: { kind: 'string', nullable: false },
+  },
+  orders: {
+    admin_note: { kind: 'string', nullable: true },
+    billing_address_line1: { kind: 'string', nullable: true },
+    billing_address_line2: { kind: 'string', nullable: true },
+    billing_city: { kind: 'string', nullable: true },
+    billing_country: { kind: 'string', nullable: true },
+    billing_email: { kind: 'string', nullable: true },
+    billing_name: { kind: 'string', nullable: true },
+    billing_phone: { kind: 'string', nullable: true },
+    billing_postal_code: { kind: 'string', nullable: true },
+    billing_state: { kind: 'string', nullable: true },
+    cancelled_at: { kind: 'string', nullable: true },
+    created_at: { kind: 'string', nullable: true },
+    customer_note: { kind: 'string', nullable: true },
+    delivered_at: { kind: 'string', nullable: true },
+    discount: { kind: 'number', nullable: true },
+    id: { kind: 'string', nullable: false },
+    order_number: { kind: 'string', nullable: false },
+    paid_at: { kind: 'string', nullable: true },
+    payment_method: { kind: 'string', nullable: true },
+    payment_status: { kind: 'string', nullable: true, values: ['pending', 'paid', 'failed', 'refunded'] },
+    payment_transaction_id: { kind: 'string', nullable: true },
+    shipped_at: { kind: 'string', nullable: true },
+    shipping_address_line1: { kind: 'string', nullable: true },
+    shipping_address_line2: { kind: 'string', nullable: true },
+    shipping_city: { kind: 'string', nullable: true },
+    shipping_cost: { kind: 'number', nullable: true },
+    shipping_country: { kind: 'string', nullable: true },
+    shipping_email: { kind: 'string', nullable: true },
+    shipping_name: { kind: 'string', nullable: true },
+    shipping_phone: { kind: 'string', nullable: true },
+    shipping_postal_code: { kind: 'string', nullable: true },
+    shipping_state: { kind: 'string', nullable: true },
+    status: { kind: 'string', nullable: true, values: ['pending', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded'] },
+    subtotal: { kind: 'number', nullable: false },
+    tax: { kind: 'number', nullable: true },
+    total: { kind: 'number', nullable: false },
+    tracking_number: { kind: 'string', nullable: true },
+    tracking_url: { kind: 'string', nullable: true },
+    updated_at: { kind: 'string', nullable: true },
+    user_id: { kind: 'string', nullable: false },
+  },
+  product_categories: {
+    category_id: { kind: 'string', nullable: false },
+    created_at: { kind: 'string', nullable: true },
+    id: { kind: 'string', nullable: false },
+    product_id: { kind: 'string', nullable: false },
+  },
+  product_images: {
+    alt_text: { kind: 'string', nullable: true },
+    created_at: { kind: 'string', nullable: true },
+    id: { kind: 'string', nullable: false },
+    is_primary: { kind: 'boolean', nullable: true },
+    product_id: { kind: 'string', nullable: false },
+    sort_order: { kind: 'number', nullable: true },
+    url: { kind: 'string', nullable: false },
+  },
+  products: {
+    barcode: { kind: 'string', nullable: true },
+    compare_at_price: { kind: 'number', nullable: true },
+    continue_selling_when_out_of_stock: { kind: 'boolean', nullable: true },
+    cost_per_item: { kind: 'number', nullable: true },
+    created_at: { kind: 'string', nullable: true },
+    created_by: { kind: 'string', nullable: true },
+    description: { kind: 'string', nullable: true },
+    featured: { kind: 'boolean', nullable: true },
+    id: { kind: 'string', nullable: false },
+    name: { kind: 'string', nullable: false },
+    price: { kind: 'number', nullable: false },
+    quantity: { kind: 'number', nullable: true },
+    short_description: { kind: 'string', nullable: true },
+    sku: { kind: 'string', nullable: true },
+    slug: { kind: 'string', nullable: false },
+    status: { kind: 'string', nullable: true, values: ['draft', 'active', 'archived'] },
+    track_quantity: { kind: 'boolean', nullable: true },
+    updated_at: { kind: 'string', nullable: true },
+    weight: { kind: 'number', nullable: true },
+    weight_unit: { kind: 'string', nullable: true },
+  },
+  sync_failures: {
+    attempts: { kind: 'number', nullable: false },
+    created_at: { kind: 'string', nullable: true },
+    error_code: { kind: 'string', nullable: true },
+    error_message: { kind: 'string', nullable: true },
+    firebase_uid: { kind: 'string', nullable: false },
+    id: { kind: 'string', nullable: false },
+    last_attempt_at: { kind: 'string', nullable: true },
+    next_retry_at: { kind: 'string', nullable: true },
+    operation: { kind: 'string', nullable: false, values: ['sync', 'delete'] },
+    payload: { kind: 'json', nullable: false },
+    resolved_at: { kind: 'string', nullable: true },
+    status: { kind: 'string', nullable: false, values: ['pending', 'resolved', 'dead'] },
+    updated_at: { kind: 'string', nullable: true },
+  },
+  user_identities: {
+    created_at: { kind: 'string', nullable: true },
+    display_name: { kind: 'string', nullable: true },
+    email: { kind: 'string', nullable: true },
+    firebase_uid: { kind: 'string', nullable: false },
+    id: { kind: 'string', nullable: false },
+    phone_number: { kind: 'string', nullable: true },
+    provider_id: { kind: 'string', nullable: false },
+    provider_uid: { kind: 'string', nullable: false },
+    updated_at: { kind: 'string', nullable: true },
+  },
+  users: {
+    created_at: { kind: 'string', nullable: true },
+    custom_claims: { kind: 'json', nullable: false },
+    deleted_at: { kind: 'string', nullable: true },
+    display_name: { kind: 'string', nullable: true },
+    email: { kind: 'string', nullable: false },
+    firebase_uid: { kind: 'string', nullable: false },
+    photo_url: { kind: 'string', nullable: true },
+    updated_at: { kind: 'string', nullable: true },
+  },
+} as const;
@@ -0,0 +1,245 @@
+/**
+ * Profile Cache
+ *
+ * getUserData() serves the last-known profile from a cache and revalidates
+ * it in the background (stale-while-revalidate), so the app has a profile to
+ * show right away and while offline.
+ *
+ * - createMemoryProfileCache() - per page load (the default)
+ * - createLocalStorageProfileCache() - survives reloads; small and synchronous
+ * - createIndexedDBProfileCache() - survives reloads; for offline-first apps
+ *
+ * Entries are keyed by firebase_uid and checked against that key on read, so
+ * switching accounts never serves another user's profile.
+ */
+
+import { Tables } from './database.types';
+import { isRow } from './validators';
+
+type Profile = Tables<'users'>;
+
+export interface ProfileCacheEntry {
+  profile: Profile;
+  // Date.now() when the profile was fetched
+  cachedAt: number;
+}
+
+/**
+ * Storage for cached profiles; implement this to cache somewhere else
+ */
+export interface ProfileCacheAdapter {
+  get(firebaseUid: string): Promise<ProfileCacheEntry | null>;
+  set(firebaseUid: string, entry: ProfileCacheEntry): Promise<void>;
+  delete(firebaseUid: string): Promise<void>;
+}
+
+// How long a cached profile is served without revalidating
+export const PROFILE_CACHE_FRESH_MS = 30 * 1000;
+
+// Fetch errors after which a cached profile must not be served any more
+const PROFILE_CACHE_DROP_CODES = ['USER_NOT_FOUND', 'INVALID_DATA'];
+
+/**
+ * Cache profiles in memory, for the lifetime of the page
+ */
+export function createMemoryProfileCache(): ProfileCacheAdapter {
+  const entries = new Map<string, ProfileCacheEntry>();
+
+  return {
+    async get(firebaseUid) {
+      return entries.get(firebaseUid) || null;
+    },
+    async set(firebaseUid, entry) {
+      entries.set(firebaseUid, entry);
+    },
+    async delete(firebaseUid) {
+      entries.delete(firebaseUid);
+    },
+  };
+}
+
+/**
+ * Cache profiles in localStorage
+ *
+ * @param options - storage (defaults to window.localStorage; without one
+ *   nothing is cached) and the key prefix
+ */
+export function createLocalStorageProfileCache(
+  options: { storage?: Storage; prefix?: string } = {}
+): ProfileCacheAdapter {
+  const prefix = options.prefix ?? 'lumibase:profile:';
+  const storage = (): Storage | null => options.storage
+    || (typeof window !== 'undefined' && window.localStorage ? window.localStorage : null);
+
+  return {
+    async get(firebaseUid) {
+      try {
+        const value = storage()?.getItem(prefix + firebaseUid);
+        return value ? JSON.parse(value) : null;
+      } catch {
+        return null;
+      }
+    },
+    async set(firebaseUid, entry) {
+      storage()?.setItem(prefix + firebaseUid, JSON.stringify(entry));
+    },
+    async delete(firebaseUid) {
+      storage()?.removeItem(prefix + firebaseUid);
+    },
+  };
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Cache profiles in IndexedDB
+ *
+ * @param options - Database and object store names, and the IDBFactory
+ *   (defaults to the global indexedDB; without one nothing is cached)
+ */
+export function createIndexedDBProfileCache(
+  options: { databaseName?: string; storeName?: string; indexedDB?: IDBFactory } = {}
+): ProfileCacheAdapter {
+  const databaseName = options.databaseName || 'lumibase';
+  const storeName = options.storeName || 'profiles';
+  let database: Promise<IDBDatabase | null> | null = null;
+
+  function openDatabase(): Promise<IDBDatabase | null> {
+    if (!database) {
+      const factory = options.indexedDB || (typeof indexedDB !== 'undefined' ? indexedDB : null);
+      if (!factory) {
+        return Promise.resolve(null);
+      }
+
+      const request = factory.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName);
+      };
+      database = requestResult(request);
+    }
+    return database;
+  }
+
+  async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> {
+    const db = await openDatabase();
+    return db ? requestResult(run(db.transaction(storeName, mode).objectStore(storeName))) : null;
+  }
+
+  return {
+    async get(firebaseUid) {
+      return (await withStore<ProfileCacheEntry | undefined>('readonly', store => store.get(firebaseUid))) || null;
+    },
+    async set(firebaseUid, entry) {
+      await withStore('readwrite', store => store.put(entry, firebaseUid));
+    },
+    async delete(firebaseUid) {
+      await withStore('readwrite', store => store.delete(firebaseUid));
+    },
+  };
+}
+
+export interface ProfileStoreOptions {
+  // Where profiles are cached; null disables caching
+  adapter: ProfileCacheAdapter | null;
+  // Reads the profile from Supabase
+  fetchProfile: (firebaseUid: string) => Promise<Profile>;
+  freshMs?: number;
+  // Called with every profile fetched or written, e.g. to update the auth state
+  onProfile?: (profile: Profile) => void;
+}
+
+/**
+ * Stale-while-revalidate access to profiles, used by getUserData()
+ */
+export interface ProfileStore {
+  // The cached entry, if it belongs to firebaseUid and matches the schema
+  read(firebaseUid: string): Promise<ProfileCacheEntry | null>;
+  // The cached profile (revalidated in the background once stale), or a fetched one
+  get(firebaseUid: string, forceRefresh?: boolean): Promise<Profile>;
+  // Fetch and cache the profile; concurrent calls share one request
+  fetch(firebaseUid: string): Promise<Profile>;
+  write(profile: Profile): Promise<void>;
+  invalidate(firebaseUid: string): Promise<void>;
+}
+
+/**
+ * Create the profile store of a client
+ *
+ * Cache failures (e.g. storage quota or a blocked IndexedDB) are treated as
+ * misses; they never fail a profile read.
+ */
+export function createProfileStore(options: ProfileStoreOptions): ProfileStore {
+  const { adapter, fetchProfile, onProfile } = options;
+  const freshMs = options.freshMs ?? PROFILE_CACHE_FRESH_MS;
+  const requests = new Map<string, Promise<Profile>>();
+
+  async function read(firebaseUid: string): Promise<ProfileCacheEntry | null> {
+    const entry = await adapter?.get(firebaseUid).catch(() => null);
+    if (!entry) {
+      return null;
+    }
+
+    // Never serve another user's profile, or one cached before a schema change
+    if (entry.profile?.firebase_uid !== firebaseUid || !isRow('users', entry.profile)) {
+      await invalidate(firebaseUid);
+      return null;
+    }
+
+    return entry;
+  }
+
+  async function write(profile: Profile): Promise<void> {
+    await adapter?.set(profile.firebase_uid, { profile, cachedAt: Date.now() }).catch(() => undefined);
+    onProfile?.(profile);
+  }
+
+  async function invalidate(firebaseUid: string): Promise<void> {
+    await adapter?.delete(firebaseUid).catch(() => undefined);
+  }
+
+  function fetch(firebaseUid: string): Promise<Profile> {
+    const pending = requests.get(firebaseUid);
+    if (pending) {
+      return pending;
+    }
+
+    const request = Promise.resolve()
+      .then(() => fetchProfile(firebaseUid))
+      .then(async (profile) => {
+        await write(profile);
+        return profile;
+      }, async (error) => {
+        if (PROFILE_CACHE_DROP_CODES.includes(error?.code)) {
+          await invalidate(firebaseUid);
+        }
+        throw error;
+      })
+      .finally(() => {
+        requests.delete(firebaseUid);
+      });
+
+    requests.set(firebaseUid, request);
+    return request;
+  }
+
+  async function get(firebaseUid: string, forceRefresh: boolean = false): Promise<Profile> {
+    const entry = forceRefresh ? null : await read(firebaseUid);
+    if (!entry) {
+      return fetch(firebaseUid);
+    }
+
+    if (Date.now() - entry.cachedAt >= freshMs) {
+      // Errors (e.g. offline) keep the stale profile; the next read tries again
+      fetch(firebaseUid).catch(() => undefined);
+    }
+
+    return entry.profile;
+  }
+
+  return { read, get, fetch, write, invalidate };
+}
@@ -0,0 +1,150 @@
+/**
+ * React Bindings
+ *
+ * Hooks and components on top of auth.ts so React apps don't have to wire
+ * onAuthStateChange, getUserData and signOut themselves.
+ *
+ * - useAuth() - combined auth state plus sign-in/sign-out actions
+ * - useUserProfile() - the signed-in user's public.users row, with refresh
+ * - <RequireAuth> - renders its children only for signed-in users
+ *
+ * All of them use the default client unless given one from createLumiBaseClient().
+ */
+
+import { ReactNode, createElement, Fragment, useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import type { User } from 'firebase/auth';
+import {
+  AuthState,
+  AuthenticationError,
+  DataFetchError,
+  LumiBaseClient,
+  SignInProviderConfig,
+  UserData,
+  getAuthState,
+  getUserData,
+  onAuthStateChange,
+  signIn,
+  signOut,
+} from './auth';
+
+// The parts of a LumiBaseClient the bindings use
+export type AuthClient = Pick<LumiBaseClient, 'getAuthState' | 'onAuthStateChange' | 'getUserData' | 'signIn' | 'signOut'>;
+
+const defaultAuthClient: AuthClient = { getAuthState, onAuthStateChange, getUserData, signIn, signOut };
+
+export interface UseAuthResult {
+  state: AuthState;
+  status: AuthState['status'];
+  user: User | null;
+  profile: UserData | null;
+  // True while the session is being restored or a sign-in is in progress
+  loading: boolean;
+  error: AuthenticationError | DataFetchError | null;
+  signIn: (config: SignInProviderConfig) => Promise<User>;
+  signOut: () => Promise<void>;
+}
+
+export interface UseUserProfileResult {
+  profile: UserData | null;
+  loading: boolean;
+  error: AuthenticationError | DataFetchError | null;
+  // Re-read the profile, e.g. after updating it
+  refresh: () => Promise<void>;
+}
+
+export interface RequireAuthProps {
+  children?: ReactNode;
+  // Rendered for signed-out users and errors (e.g. a sign-in page or <Navigate>)
+  fallback?: ReactNode;
+  // Rendered while the session is being restored
+  loading?: ReactNode;
+  client?: AuthClient;
+}
+
+/**
+ * Describe an AuthState with the fields components usually need
+ */
+export function describeAuthState(state: AuthState): Omit<UseAuthResult, 'signIn' | 'signOut'> {
+  return {
+    state,
+    status: state.status,
+    user: state.status === 'signed-out' ? null : state.user,
+    profile: state.status === 'signed-in' ? state.profile : null,
+    loading: state.status === 'signing-in',
+    error: state.status === 'error' ? state.error : null,
+  };
+}
+
+/**
+ * Current auth state, re-rendering on every change
+ */
+export function useAuth(client: AuthClient = defaultAuthClient): UseAuthResult {
+  const subscribe = useCallback(
+    (onChange: () => void) => client.onAuthStateChange(() => onChange()),
+    [client]
+  );
+  const state = useSyncExternalStore(subscribe, client.getAuthState, client.getAuthState);
+
+  return { ...describeAuthState(state), signIn: client.signIn, signOut: client.signOut };
+}
+
+/**
+ * The signed-in user's profile from public.users
+ *
+ * The profile comes from the auth state; refresh() re-reads it from Supabase.
+ */
+export function useUserProfile(client: AuthClient = defaultAuthClient): UseUserProfileResult {
+  const { user, profile, loading, error } = useAuth(client);
+  const [refreshed, setRefreshed] = useState<UserData | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<DataFetchError | null>(null);
+
+  // Drop a refreshed profile once the auth state delivers a new one
+  useEffect(() => {
+    setRefreshed(null);
+    setRefreshError(null);
+  }, [profile]);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+
+    setRefreshing(true);
+    try {
+      setRefreshed(await client.getUserData(user.uid, true));
+      setRefreshError(null);
+    } catch (fetchError) {
+      setRefreshError(fetchError instanceof DataFetchError
+        ? fetchError
+        : new DataFetchError('Failed to refresh profile', 'UNEXPECTED_ERROR'));
+    } finally {
+      setRefreshing(false);
+    }
+  }, [client, user]);
+
+  return {
+    profile: refreshed || profile,
+    loading: loading || refreshing,
+    error: refreshError || error,
+    refresh,
+  };
+}
+
+/**
+ * Render children only for signed-in users
+ *
+ * @example
+ * <RequireAuth fallback={<SignInPage />} loading={<Spinner />}>
+ *   <Dashboard />
+ * </RequireAuth>
+ */
+export function RequireAuth({ children, fallback = null, loading = null, client }: RequireAuthProps) {
+  const { status } = useAuth(client);
+
+  if (status === 'signing-in') {
+    return createElement(Fragment, null, loading);
+  }
+
+  return createElement(Fragment, null, status === 'signed-in' ? children : fallback);
+}
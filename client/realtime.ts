@@ -0,0 +1,143 @@
+/**
+ * Realtime Subscriptions
+ *
+ * Supabase Realtime channels behind subscribeToUserProfile() and
+ * subscribeToOwnRows() in auth.ts. Channels join with the Supabase client's
+ * access token, so Realtime checks every change against the table's RLS
+ * SELECT policies before delivering it; the owner filter keeps other rows a
+ * policy allows (e.g. public products) out of "own rows".
+ *
+ * auth.ts keeps the token current with realtime.setAuth() and calls
+ * reopen() after each new token and closeAll() on sign-out.
+ */
+
+import {
+  RealtimeChannel,
+  RealtimePostgresChangesPayload,
+  SupabaseClient,
+} from '@supabase/supabase-js';
+import { DATABASE_COLUMNS, TableName, Tables } from './database.types';
+
+export type RowChangeType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// A change delivered by subscribeToOwnRows()
+export interface RowChange<T extends TableName> {
+  type: RowChangeType;
+  // The row after an INSERT or UPDATE; null for DELETE
+  row: Tables<T> | null;
+  // For DELETE, the deleted row's primary key; RLS hides its other columns
+  oldRow: Partial<Tables<T>> | null;
+}
+
+// Columns that identify a row's owner, in order of preference
+const OWNER_COLUMNS = ['firebase_uid', 'user_id'];
+
+/**
+ * Build the Realtime filter that limits a table's changes to one owner
+ *
+ * @returns The filter, e.g. "user_id=eq.<uid>", or null if the table has no
+ *   such column
+ */
+export function ownRowsFilter(table: TableName, firebaseUid: string, ownerColumn?: string): string | null {
+  const columns: Record<string, unknown> = DATABASE_COLUMNS[table];
+  const column = ownerColumn
+    ? (ownerColumn in columns ? ownerColumn : null)
+    : OWNER_COLUMNS.find(candidate => candidate in columns);
+
+  return column ? `${column}=eq.${firebaseUid}` : null;
+}
+
+/**
+ * Turn a postgres_changes payload into a RowChange
+ */
+export function toRowChange<T extends TableName>(
+  payload: RealtimePostgresChangesPayload<Record<string, any>>
+): RowChange<T> {
+  const type = payload.eventType as RowChangeType;
+
+  return {
+    type,
+    row: type === 'DELETE' ? null : payload.new as Tables<T>,
+    oldRow: type === 'DELETE' && Object.keys(payload.old || {}).length ? payload.old as Partial<Tables<T>> : null,
+  };
+}
+
+export interface ChannelSpec {
+  table: TableName;
+  filter: string;
+  event: RowChangeType | '*';
+  onChange(payload: RealtimePostgresChangesPayload<Record<string, any>>): void;
+  // Called when the channel can't be joined (CHANNEL_ERROR or TIMED_OUT)
+  onFailure(error: Error): void;
+}
+
+export interface RealtimeSubscriptions {
+  // Open a channel; returns a function that closes it
+  add(spec: ChannelSpec): () => void;
+  // Re-open channels that are no longer joined, e.g. closed when a token expired
+  reopen(): void;
+  closeAll(): void;
+}
+
+type RealtimeClient = Pick<SupabaseClient<any>, 'channel' | 'removeChannel'>;
+
+/**
+ * Track a client's open channels
+ *
+ * @param getClient - The Supabase client to open channels on
+ */
+export function createRealtimeSubscriptions(getClient: () => RealtimeClient): RealtimeSubscriptions {
+  const subscriptions = new Map<ChannelSpec, { client: RealtimeClient; channel: RealtimeChannel }>();
+  let channelCount = 0;
+
+  function open(spec: ChannelSpec): { client: RealtimeClient; channel: RealtimeChannel } {
+    const client = getClient();
+    // Unique names, so two subscriptions to the same table never share a channel
+    const channel = client
+      .channel(`own-rows:${spec.table}:${++channelCount}`)
+      .on(
+        'postgres_changes',
+        { event: spec.event, schema: 'public', table: spec.table, filter: spec.filter },
+        (payload: RealtimePostgresChangesPayload<Record<string, any>>) => spec.onChange(payload)
+      )
+      .subscribe((status, error) => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          spec.onFailure(error || new Error(status));
+        }
+      });
+
+    return { client, channel };
+  }
+
+  function close(spec: ChannelSpec): void {
+    const subscription = subscriptions.get(spec);
+    if (subscription) {
+      subscriptions.delete(spec);
+      void subscription.client.removeChannel(subscription.channel).catch(() => undefined);
+    }
+  }
+
+  return {
+    add(spec) {
+      subscriptions.set(spec, open(spec));
+      return () => close(spec);
+    },
+
+    reopen() {
+      for (const [spec, subscription] of subscriptions) {
+        if (subscription.channel.state === 'joined' || subscription.channel.state === 'joining') {
+          continue;
+        }
+
+        void subscription.client.removeChannel(subscription.channel).catch(() => undefined);
+        subscriptions.set(spec, open(spec));
+      }
+    },
+
+    closeAll() {
+      for (const spec of [...subscriptions.keys()]) {
+        close(spec);
+      }
+    },
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * Server-side Session Helpers
+ *
+ * For server rendering (Next.js, Remix, Express, ...), where there is no
+ * browser and no signed-in Firebase user:
+ *
+ * - getServerSession(request, options) - verify the Firebase ID token (or
+ *   firebase-admin session cookie) carried by a request
+ * - createServerSupabaseClient(session, options) - a Supabase client bound to
+ *   that token, so queries run under the user's RLS policies
+ *
+ * Tokens are verified by firebase-admin's Auth (pass admin.auth()), or by
+ * anything with the same verifyIdToken/verifySessionCookie methods, e.g. a
+ * verifier for locally signed tokens in tests.
+ */
+
+import { createClient, SupabaseClient, SupabaseClientOptions } from '@supabase/supabase-js';
+import { AuthenticationError } from './auth';
+import { Database } from './database.types';
+import { SESSION_COOKIE_NAME } from './session-cookie';
+
+// Claims of a verified token; firebase-admin's DecodedIdToken fits this shape
+export interface VerifiedToken {
+  uid: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Minimal slice of firebase-admin's Auth used to verify requests
+ */
+export interface TokenVerifier {
+  verifyIdToken(idToken: string, checkRevoked?: boolean): Promise<VerifiedToken>;
+  verifySessionCookie(sessionCookie: string, checkRevoked?: boolean): Promise<VerifiedToken>;
+}
+
+// 'idToken' - a Firebase ID token (Bearer header or the session-cookie.ts cookie)
+// 'sessionCookie' - a cookie minted with firebase-admin's createSessionCookie()
+export type SessionTokenType = 'idToken' | 'sessionCookie';
+
+export interface ServerSession {
+  uid: string;
+  claims: VerifiedToken;
+  token: string;
+  type: SessionTokenType;
+}
+
+export interface ServerSessionOptions {
+  verifier: TokenVerifier;
+  cookieName?: string;
+  // Also reject tokens of disabled users or revoked sessions (one extra lookup)
+  checkRevoked?: boolean;
+}
+
+export interface ServerSupabaseOptions {
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  // Extra createClient() options, e.g. realtime: { transport: ws } on Node.js < 22
+  clientOptions?: SupabaseClientOptions<'public'>;
+}
+
+// Headers of a Fetch API Request or a Node.js IncomingMessage
+export interface RequestLike {
+  headers: Headers | Record<string, string | string[] | undefined>;
+}
+
+// firebase-admin error codes mapped to AuthenticationError codes
+const VERIFY_ERROR_CODES: Record<string, { code: string; message: string }> = {
+  'auth/id-token-expired': { code: 'TOKEN_EXPIRED', message: 'Session expired. Please sign in again.' },
+  'auth/session-cookie-expired': { code: 'TOKEN_EXPIRED', message: 'Session expired. Please sign in again.' },
+  'auth/id-token-revoked': { code: 'TOKEN_REVOKED', message: 'Session has been revoked. Please sign in again.' },
+  'auth/session-cookie-revoked': { code: 'TOKEN_REVOKED', message: 'Session has been revoked. Please sign in again.' },
+  'auth/user-disabled': { code: 'USER_DISABLED', message: 'This account has been disabled' },
+};
+
+function readHeader(request: RequestLike, name: string): string | null {
+  const { headers } = request;
+
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name);
+  }
+
+  const value = (headers as Record<string, string | string[] | undefined>)[name.toLowerCase()];
+  return Array.isArray(value) ? value.join('; ') : value ?? null;
+}
+
+/**
+ * Parse a Cookie header into name/value pairs
+ */
+export function parseCookies(header: string | null | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+
+  for (const part of (header || '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) {
+      continue;
+    }
+
+    const name = part.slice(0, separator).trim();
+    if (name && !(name in cookies)) {
+      try {
+        cookies[name] = decodeURIComponent(part.slice(separator + 1).trim());
+      } catch {
+        cookies[name] = part.slice(separator + 1).trim();
+      }
+    }
+  }
+
+  return cookies;
+}
+
+/**
+ * Read the token a request carries: an Authorization Bearer header wins over
+ * the session cookie
+ *
+ * @returns The token, or null if the request has neither
+ */
+export function readSessionToken(request: RequestLike, cookieName: string = SESSION_COOKIE_NAME): string | null {
+  const authorization = readHeader(request, 'authorization');
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i);
+  if (bearer) {
+    return bearer[1];
+  }
+
+  return parseCookies(readHeader(request, 'cookie'))[cookieName] || null;
+}
+
+/**
+ * Tell a session cookie from an ID token by its (unverified) issuer
+ */
+export function getSessionTokenType(token: string): SessionTokenType {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const { iss } = JSON.parse(atob(payload));
+
+    return typeof iss === 'string' && iss.startsWith('https://session.firebase.google.com/')
+      ? 'sessionCookie'
+      : 'idToken';
+  } catch {
+    return 'idToken';
+  }
+}
+
+/**
+ * Verify a token from a request
+ *
+ * @throws {AuthenticationError} With code 'TOKEN_EXPIRED', 'TOKEN_REVOKED',
+ *   'USER_DISABLED' or 'INVALID_TOKEN'
+ */
+export async function verifySessionToken(token: string, options: ServerSessionOptions): Promise<ServerSession> {
+  const type = getSessionTokenType(token);
+
+  try {
+    const claims = type === 'sessionCookie'
+      ? await options.verifier.verifySessionCookie(token, options.checkRevoked)
+      : await options.verifier.verifyIdToken(token, options.checkRevoked);
+
+    return { uid: claims.uid, claims, token, type };
+  } catch (error: any) {
+    const mapped = VERIFY_ERROR_CODES[error?.code];
+    if (mapped) {
+      throw new AuthenticationError(mapped.message, mapped.code);
+    }
+
+    throw new AuthenticationError(
+      `Invalid session token: ${error?.message || 'Unknown error'}`,
+      'INVALID_TOKEN'
+    );
+  }
+}
+
+/**
+ * Get the verified session of a request
+ *
+ * @returns The session, or null if the request carries no token
+ * @throws {AuthenticationError} If the token is invalid, expired or revoked;
+ *   callers typically clear the cookie and redirect to sign-in
+ *
+ * @example
+ * const session = await getServerSession(request, { verifier: admin.auth() });
+ * if (!session) return redirect('/sign-in');
+ */
+export async function getServerSession(
+  request: RequestLike,
+  options: ServerSessionOptions
+): Promise<ServerSession | null> {
+  const token = readSessionToken(request, options.cookieName);
+  if (!token) {
+    return null;
+  }
+
+  return verifySessionToken(token, options);
+}
+
+/**
+ * Create a Supabase client for one request, authorized as the session's user
+ *
+ * Create one per request and don't share it: it carries that user's token
+ * and never persists or refreshes a session.
+ *
+ * @throws {AuthenticationError} With code 'INVALID_CONFIG' if options are missing,
+ *   or 'ID_TOKEN_REQUIRED' for session cookies, which Supabase does not accept
+ */
+export function createServerSupabaseClient(session: ServerSession, options: ServerSupabaseOptions): SupabaseClient<Database> {
+  if (!options.supabaseUrl || !options.supabaseAnonKey) {
+    throw new AuthenticationError(
+      'Supabase configuration is incomplete. Please check the supabaseUrl and supabaseAnonKey options.',
+      'INVALID_CONFIG'
+    );
+  }
+
+  if (session.type !== 'idToken') {
+    throw new AuthenticationError(
+      'Supabase requests need a Firebase ID token; session cookies are only accepted by getServerSession',
+      'ID_TOKEN_REQUIRED'
+    );
+  }
+
+  const { global, auth, ...clientOptions } = options.clientOptions || {};
+
+  return createClient<Database>(options.supabaseUrl, options.supabaseAnonKey, {
+    ...clientOptions,
+    global: {
+      ...global,
+      headers: { ...global?.headers, Authorization: `Bearer ${session.token}` },
+    },
+    auth: {
+      ...auth,
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  });
+}
@@ -0,0 +1,146 @@
+/**
+ * Session Cookie (browser)
+ *
+ * Server-rendered pages can't see the Firebase session, which lives in the
+ * browser. These helpers copy the signed-in user's ID token into a cookie so
+ * every request carries it; server.ts verifies it and binds a per-request
+ * Supabase client to it.
+ *
+ * - mintSessionCookie() - write the current ID token, e.g. right after sign-in
+ * - clearSessionCookie() - remove it, e.g. on sign-out
+ * - syncSessionCookie() - keep it in step with token refreshes and sign-outs
+ *
+ * The cookie holds a Firebase ID token (valid for one hour) rather than a
+ * firebase-admin session cookie, because Supabase only accepts ID tokens.
+ */
+
+import { onIdTokenChanged, User } from 'firebase/auth';
+import { AuthenticationError, LumiBaseClient, getDefaultClient } from './auth';
+
+// Firebase Hosting strips every cookie except __session before requests
+// reach Cloud Functions / Cloud Run, so the default works there too
+export const SESSION_COOKIE_NAME = '__session';
+
+export interface SessionCookieOptions {
+  name?: string;
+  path?: string;
+  domain?: string;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  // Defaults to true on https pages
+  secure?: boolean;
+}
+
+/**
+ * Build a Set-Cookie / document.cookie string for the session cookie
+ *
+ * @param token - ID token to store, or null to expire the cookie
+ * @param expiresAt - When the token expires; the cookie expires with it
+ * @param options - Cookie attributes
+ */
+export function serializeSessionCookie(
+  token: string | null,
+  expiresAt: Date | null,
+  options: SessionCookieOptions = {}
+): string {
+  const parts = [`${options.name || SESSION_COOKIE_NAME}=${token ? encodeURIComponent(token) : ''}`];
+
+  parts.push(`Path=${options.path || '/'}`);
+
+  if (options.domain) {
+    parts.push(`Domain=${options.domain}`);
+  }
+
+  parts.push(`Expires=${(token && expiresAt ? expiresAt : new Date(0)).toUTCString()}`);
+  parts.push(`SameSite=${options.sameSite || 'Lax'}`);
+
+  const secure = options.secure ?? (typeof location !== 'undefined' && location.protocol === 'https:');
+  if (secure) {
+    parts.push('Secure');
+  }
+
+  return parts.join('; ');
+}
+
+function writeCookie(cookie: string): void {
+  if (typeof document === 'undefined') {
+    throw new AuthenticationError('Session cookies can only be written in the browser', 'NOT_SUPPORTED');
+  }
+
+  document.cookie = cookie;
+}
+
+async function writeUserCookie(user: User, options: SessionCookieOptions): Promise<void> {
+  const result = await user.getIdTokenResult();
+  writeCookie(serializeSessionCookie(result.token, new Date(result.expirationTime), options));
+}
+
+/**
+ * Write the signed-in user's ID token to the session cookie
+ *
+ * @param client - Client whose user to use; defaults to the module-level one
+ * @param options - Cookie attributes
+ * @throws {AuthenticationError} If no user is signed in
+ */
+export async function mintSessionCookie(
+  client: LumiBaseClient = getDefaultClient(),
+  options: SessionCookieOptions = {}
+): Promise<void> {
+  const user = client.getCurrentUser();
+  if (!user) {
+    throw new AuthenticationError('No user is currently signed in', 'NOT_AUTHENTICATED');
+  }
+
+  try {
+    await writeUserCookie(user, options);
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      throw error;
+    }
+    throw new AuthenticationError(
+      `Failed to write session cookie: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'TOKEN_FAILED'
+    );
+  }
+}
+
+/**
+ * Expire the session cookie
+ *
+ * @param options - Must match the name, path and domain it was written with
+ */
+export function clearSessionCookie(options: SessionCookieOptions = {}): void {
+  writeCookie(serializeSessionCookie(null, null, options));
+}
+
+/**
+ * Keep the session cookie in step with the client's ID token
+ *
+ * Writes the cookie on sign-in and on every token refresh (auth.ts refreshes
+ * tokens before they expire) and clears it on sign-out.
+ *
+ * @param client - Client to follow; defaults to the module-level one
+ * @param options - Cookie attributes
+ * @returns Function that stops syncing
+ * @throws {AuthenticationError} If Firebase cannot be initialized
+ */
+export function syncSessionCookie(
+  client: LumiBaseClient = getDefaultClient(),
+  options: SessionCookieOptions = {}
+): () => void {
+  client.initializeFirebase();
+
+  if (!client.auth) {
+    throw new AuthenticationError('Firebase Auth not initialized', 'NOT_INITIALIZED');
+  }
+
+  return onIdTokenChanged(client.auth, (user) => {
+    if (!user) {
+      clearSessionCookie(options);
+      return;
+    }
+
+    writeUserCookie(user, options).catch((error) => {
+      console.error('Failed to update session cookie:', error);
+    });
+  });
+}
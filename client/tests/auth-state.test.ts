@@ -0,0 +1,155 @@
+/**
+ * Unit Tests for Auth State Transitions During Sign-in
+ *
+ * Tests cover:
+ * - Signing in again as the signed-in user (re-authentication, step-up)
+ *   ending in signed-in instead of staying signing-in
+ * - A failed redirect sign-in emitting an error state
+ *
+ * Firebase and Supabase are replaced by mocks so onAuthStateChanged can be
+ * driven the way Firebase fires it: only when the signed-in uid changes.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthState, LumiBaseClient, createLumiBaseClient } from '../auth';
+
+const firebaseMock = vi.hoisted(() => {
+  const auth: { currentUser: any } = { currentUser: null };
+  const authListeners = new Set<(user: any) => void>();
+
+  return {
+    auth,
+    authListeners,
+    onAuthStateChanged: (_auth: unknown, listener: (user: any) => void) => {
+      authListeners.add(listener);
+      queueMicrotask(() => listener(auth.currentUser));
+      return () => {
+        authListeners.delete(listener);
+      };
+    },
+    signInAnonymously: vi.fn(),
+    getRedirectResult: vi.fn(),
+  };
+});
+
+const supabaseMock = vi.hoisted(() => {
+  const query: any = {
+    select: () => query,
+    eq: () => query,
+    single: vi.fn(),
+  };
+
+  return {
+    query,
+    client: {
+      auth: { setSession: vi.fn(async () => ({})), signOut: vi.fn(async () => ({})) },
+      realtime: { setAuth: vi.fn(async () => undefined) },
+      from: () => query,
+    },
+  };
+});
+
+vi.mock('firebase/app', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('firebase/app')>()),
+  initializeApp: () => ({}),
+  deleteApp: async () => undefined,
+}));
+
+vi.mock('firebase/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('firebase/auth')>()),
+  getAuth: () => firebaseMock.auth,
+  onAuthStateChanged: firebaseMock.onAuthStateChanged,
+  onIdTokenChanged: () => () => undefined,
+  signInAnonymously: firebaseMock.signInAnonymously,
+  getRedirectResult: firebaseMock.getRedirectResult,
+}));
+
+vi.mock('@supabase/supabase-js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@supabase/supabase-js')>()),
+  createClient: () => supabaseMock.client,
+}));
+
+const user = { uid: 'state-uid', getIdToken: async () => 'id-token' } as any;
+const profile = {
+  firebase_uid: 'state-uid',
+  email: 'state@example.com',
+  display_name: 'State User',
+  photo_url: null,
+  custom_claims: {},
+  deleted_at: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('Auth State During Sign-in - Unit Tests', () => {
+  let client: LumiBaseClient;
+  let states: AuthState[];
+
+  beforeEach(() => {
+    firebaseMock.auth.currentUser = user;
+    firebaseMock.authListeners.clear();
+    firebaseMock.signInAnonymously.mockReset();
+    firebaseMock.getRedirectResult.mockReset();
+    supabaseMock.query.single.mockReset();
+    supabaseMock.query.single.mockResolvedValue({ data: profile, error: null });
+
+    client = createLumiBaseClient({
+      firebase: { apiKey: 'api-key', projectId: 'project-id' },
+      supabaseUrl: 'https://example.supabase.co',
+      supabaseAnonKey: 'anon-key',
+    });
+    states = [];
+  });
+
+  afterEach(async () => {
+    await client.dispose();
+  });
+
+  async function startSignedIn(): Promise<void> {
+    client.onAuthStateChange(state => states.push(state));
+    await vi.waitFor(() => expect(client.getAuthState().status).toBe('signed-in'));
+    states.length = 0;
+  }
+
+  it('should return to signed-in when the signed-in user signs in again', async () => {
+    await startSignedIn();
+    firebaseMock.signInAnonymously.mockResolvedValue({ user });
+
+    await client.signIn({ provider: 'anonymous' });
+
+    expect(states.map(state => state.status)).toEqual(['signing-in', 'signed-in']);
+    expect(states[0]).toEqual({ status: 'signing-in', user });
+    expect(client.getAuthState()).toEqual({ status: 'signed-in', user, profile });
+  });
+
+  it('should load the profile when the user signs in again after a failed attempt', async () => {
+    await startSignedIn();
+    firebaseMock.signInAnonymously.mockRejectedValueOnce({ code: 'auth/network-request-failed' });
+    await expect(client.signIn({ provider: 'anonymous' })).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+    expect(client.getAuthState()).toMatchObject({ status: 'error', user });
+
+    firebaseMock.signInAnonymously.mockResolvedValue({ user });
+    await client.signIn({ provider: 'anonymous' });
+
+    await vi.waitFor(() => expect(client.getAuthState()).toEqual({ status: 'signed-in', user, profile }));
+  });
+
+  it('should leave a sign-in as another user to onAuthStateChanged', async () => {
+    await startSignedIn();
+    const other = { uid: 'other-uid', getIdToken: async () => 'other-token' } as any;
+    firebaseMock.signInAnonymously.mockResolvedValue({ user: other });
+
+    await client.signIn({ provider: 'anonymous' });
+
+    expect(states.map(state => state.status)).toEqual(['signing-in']);
+  });
+
+  it('should emit an error state when the redirect sign-in fails', async () => {
+    await startSignedIn();
+    firebaseMock.getRedirectResult.mockRejectedValue({ code: 'auth/network-request-failed' });
+
+    await expect(client.completeRedirectSignIn()).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+
+    expect(states).toEqual([expect.objectContaining({ status: 'error', user })]);
+  });
+});
@@ -5,7 +5,15 @@
  * 
  * Tests cover:
  * - signInWithGoogle returns valid JWT
+ * - Multi-provider sign-in: provider setup and consistent error codes
+ * - Redirect fallback when popups are blocked
+ * - Multi-factor sign-in resolver and enrollment contracts
+ * - Account linking and the ACCOUNT_EXISTS resolver
+ * - Automatic token refresh scheduling and session loss events
+ * - Combined auth state observable
  * - getUserData fetches correct user data
+ * - exportUserData requires a signed-in user
+ * - Realtime subscriptions require a signed-in user
  * - Error handling for all functions
  * 
  * Validates: Requirements 2.3, 3.5, 11.1, 11.2, 11.3, 11.7
@@ -15,7 +23,7 @@
  * tests with real services should be performed separately.
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   AuthenticationError,
   DataFetchError,
@@ -134,11 +142,37 @@ describe('Client Authentication Integration - Unit Tests', () => {
       expect(typeof authModule.initializeFirebase).toBe('function');
       expect(typeof authModule.initializeSupabase).toBe('function');
       expect(typeof authModule.signInWithGoogle).toBe('function');
+      expect(typeof authModule.signIn).toBe('function');
+      expect(typeof authModule.signInWithGitHub).toBe('function');
+      expect(typeof authModule.signInWithApple).toBe('function');
+      expect(typeof authModule.signInWithEmail).toBe('function');
+      expect(typeof authModule.signUpWithEmail).toBe('function');
+      expect(typeof authModule.sendEmailSignInLink).toBe('function');
+      expect(typeof authModule.signInWithEmailLink).toBe('function');
+      expect(typeof authModule.signInAnonymously).toBe('function');
+      expect(typeof authModule.completeRedirectSignIn).toBe('function');
+      expect(typeof authModule.listLinkedProviders).toBe('function');
+      expect(typeof authModule.linkProvider).toBe('function');
+      expect(typeof authModule.unlinkProvider).toBe('function');
+      expect(typeof authModule.listMfaFactors).toBe('function');
+      expect(typeof authModule.startTotpEnrollment).toBe('function');
+      expect(typeof authModule.startSmsEnrollment).toBe('function');
+      expect(typeof authModule.unenrollMfaFactor).toBe('function');
+      expect(typeof authModule.startSessionRefresh).toBe('function');
+      expect(typeof authModule.stopSessionRefresh).toBe('function');
+      expect(typeof authModule.onSessionLost).toBe('function');
+      expect(typeof authModule.onAuthStateChange).toBe('function');
+      expect(typeof authModule.getAuthState).toBe('function');
+      expect(typeof authModule.startAuthStateSync).toBe('function');
       expect(typeof authModule.getUserData).toBe('function');
       expect(typeof authModule.getCurrentUser).toBe('function');
       expect(typeof authModule.signOut).toBe('function');
       expect(typeof authModule.getIdToken).toBe('function');
       expect(typeof authModule.refreshSupabaseSession).toBe('function');
+      expect(typeof authModule.updateUserProfile).toBe('function');
+      expect(typeof authModule.exportUserData).toBe('function');
+      expect(typeof authModule.downloadUserDataExport).toBe('function');
+      expect(typeof authModule.createLumiBaseClient).toBe('function');
     });
 
     it('should export error classes', async () => {
@@ -162,6 +196,516 @@ describe('Client Authentication Integration - Unit Tests', () => {
     });
   });
 
+  describe('Multi-provider Sign-in', () => {
+    it('should create OAuth providers with default scopes', async () => {
+      const { createAuthProvider } = await import('../auth');
+
+      const google = createAuthProvider({ provider: 'google' }) as any;
+      const github = createAuthProvider({ provider: 'github', scopes: ['repo'] }) as any;
+      const apple = createAuthProvider({ provider: 'apple', customParameters: { locale: 'fr' } }) as any;
+
+      expect(google.providerId).toBe('google.com');
+      expect(google.getScopes()).toEqual(['profile', 'email']);
+      expect(github.providerId).toBe('github.com');
+      expect(github.getScopes()).toEqual(['read:user', 'user:email', 'repo']);
+      expect(apple.providerId).toBe('apple.com');
+      expect(apple.getCustomParameters()).toEqual({ locale: 'fr' });
+    });
+
+    it('should create generic OAuth providers by id', async () => {
+      const { createAuthProvider } = await import('../auth');
+
+      expect(createAuthProvider({ provider: 'oauth', providerId: 'microsoft.com' }).providerId).toBe('microsoft.com');
+      expect(() => createAuthProvider({ provider: 'oauth' })).toThrow(AuthenticationError);
+    });
+
+    it('should map Firebase errors to the same codes for every provider', async () => {
+      const { toAuthenticationError } = await import('../auth');
+
+      const cases: Record<string, string> = {
+        'auth/popup-closed-by-user': 'POPUP_CLOSED',
+        'auth/popup-blocked': 'POPUP_BLOCKED',
+        'auth/cancelled-popup-request': 'POPUP_ALREADY_OPEN',
+        'auth/network-request-failed': 'NETWORK_ERROR',
+        'auth/wrong-password': 'INVALID_CREDENTIALS',
+        'auth/invalid-credential': 'INVALID_CREDENTIALS',
+        'auth/email-already-in-use': 'EMAIL_IN_USE',
+        'auth/weak-password': 'WEAK_PASSWORD',
+        'auth/operation-not-allowed': 'PROVIDER_DISABLED',
+        'auth/account-exists-with-different-credential': 'ACCOUNT_EXISTS',
+        'auth/expired-action-code': 'INVALID_EMAIL_LINK',
+      };
+
+      for (const [firebaseCode, code] of Object.entries(cases)) {
+        const error = toAuthenticationError({ code: firebaseCode, message: 'Firebase: Error' });
+        expect(error).toBeInstanceOf(AuthenticationError);
+        expect(error.code).toBe(code);
+      }
+    });
+
+    it('should keep unknown Firebase codes and existing AuthenticationErrors', async () => {
+      const { toAuthenticationError } = await import('../auth');
+      const existing = new AuthenticationError('Email required', 'EMAIL_REQUIRED');
+
+      expect(toAuthenticationError(existing)).toBe(existing);
+      expect(toAuthenticationError({ code: 'auth/internal-error', message: 'boom' })).toMatchObject({
+        code: 'auth/internal-error',
+        message: 'Sign-in failed: boom',
+      });
+      expect(toAuthenticationError(new Error('boom')).code).toBe('SIGNIN_FAILED');
+    });
+
+    it('should reject every sign-in method when Firebase is not configured', async () => {
+      const { signIn, signInWithEmail, signInAnonymously } = await import('../auth');
+
+      await expect(signIn({ provider: 'github' })).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+      await expect(signInWithEmail('user@example.com', 'secret')).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+      await expect(signInAnonymously()).rejects.toBeInstanceOf(AuthenticationError);
+    });
+  });
+
+  describe('Redirect Sign-in Fallback', () => {
+    it('should fall back to a redirect when the popup is blocked in auto mode', async () => {
+      const { shouldFallBackToRedirect } = await import('../auth');
+
+      expect(shouldFallBackToRedirect({ code: 'auth/popup-blocked' })).toBe(true);
+      expect(shouldFallBackToRedirect({ code: 'auth/operation-not-supported-in-this-environment' }, 'auto')).toBe(true);
+    });
+
+    it('should not fall back in popup mode or for other errors', async () => {
+      const { shouldFallBackToRedirect } = await import('../auth');
+
+      expect(shouldFallBackToRedirect({ code: 'auth/popup-blocked' }, 'popup')).toBe(false);
+      expect(shouldFallBackToRedirect({ code: 'auth/popup-closed-by-user' })).toBe(false);
+      expect(shouldFallBackToRedirect({ code: 'auth/network-request-failed' })).toBe(false);
+    });
+
+    it('should reject completeRedirectSignIn when Firebase is not configured', async () => {
+      const { completeRedirectSignIn } = await import('../auth');
+
+      await expect(completeRedirectSignIn()).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+    });
+
+    it('should emit an error state when completeRedirectSignIn fails', async () => {
+      const { createLumiBaseClient } = await import('../auth');
+      const client = createLumiBaseClient();
+      const states: string[] = [];
+
+      const unsubscribe = client.onAuthStateChange(state => states.push(state.status));
+      states.length = 0;
+      await expect(client.completeRedirectSignIn()).rejects.toBeInstanceOf(AuthenticationError);
+      unsubscribe();
+
+      expect(states).toEqual(['error']);
+    });
+  });
+
+  describe('Account Linking', () => {
+    const pendingCredential = { providerId: 'github.com' } as any;
+
+    it('should map Firebase linking errors to linking codes', async () => {
+      const { toAuthenticationError } = await import('../auth');
+
+      expect(toAuthenticationError({ code: 'auth/provider-already-linked' }).code).toBe('PROVIDER_ALREADY_LINKED');
+      expect(toAuthenticationError({ code: 'auth/credential-already-in-use' }).code).toBe('CREDENTIAL_IN_USE');
+      expect(toAuthenticationError({ code: 'auth/no-such-provider' }).code).toBe('PROVIDER_NOT_LINKED');
+    });
+
+    it('should carry the resolver on an ACCOUNT_EXISTS AuthenticationError', async () => {
+      const { AccountExistsError, createAccountLinkResolver } = await import('../auth');
+      const resolver = createAccountLinkResolver(
+        {} as any,
+        { email: 'user@example.com', credential: pendingCredential },
+        { signIn: vi.fn(), linkCredential: vi.fn() }
+      );
+      const error = new AccountExistsError('An account already exists', resolver);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error.code).toBe('ACCOUNT_EXISTS');
+      expect(error.resolver.email).toBe('user@example.com');
+      expect(error.resolver.providerId).toBe('github.com');
+    });
+
+    it('should sign in with the existing method and then link the new one', async () => {
+      const { createAccountLinkResolver } = await import('../auth');
+      const calls: string[] = [];
+      const signIn = vi.fn(async () => {
+        calls.push('signIn');
+        return { uid: 'test-uid' } as any;
+      });
+      const linkCredential = vi.fn(async () => {
+        calls.push('link');
+        return { uid: 'test-uid' } as any;
+      });
+      const resolver = createAccountLinkResolver(
+        {} as any,
+        { email: 'user@example.com', credential: pendingCredential },
+        { signIn, linkCredential }
+      );
+
+      await expect(resolver.signInAndLink({ provider: 'google' })).resolves.toEqual({ uid: 'test-uid' });
+      expect(signIn).toHaveBeenCalledWith({ provider: 'google' });
+      expect(linkCredential).toHaveBeenCalledWith(pendingCredential);
+      expect(calls).toEqual(['signIn', 'link']);
+    });
+
+    it('should not link when the sign-in fails or no credential is pending', async () => {
+      const { createAccountLinkResolver } = await import('../auth');
+      const linkCredential = vi.fn();
+      const failing = createAccountLinkResolver(
+        {} as any,
+        { email: 'user@example.com', credential: pendingCredential },
+        { signIn: vi.fn().mockRejectedValue(new AuthenticationError('Wrong password', 'INVALID_CREDENTIALS')), linkCredential }
+      );
+      const expired = createAccountLinkResolver({} as any, { email: null, credential: null }, { signIn: vi.fn(), linkCredential });
+
+      await expect(failing.signInAndLink({ provider: 'password', email: 'user@example.com', password: 'wrong' }))
+        .rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+      await expect(expired.link()).rejects.toMatchObject({ code: 'LINK_UNAVAILABLE' });
+      await expect(expired.fetchSignInMethods()).resolves.toEqual([]);
+      expect(expired.providerId).toBeNull();
+      expect(linkCredential).not.toHaveBeenCalled();
+    });
+
+    it('should require a signed-in user to link and unlink providers', async () => {
+      const { listLinkedProviders, linkProvider, unlinkProvider } = await import('../auth');
+
+      expect(listLinkedProviders()).toEqual([]);
+      await expect(linkProvider({ provider: 'google' })).rejects.toMatchObject({ code: 'NOT_AUTHENTICATED' });
+      await expect(linkProvider({ provider: 'password', email: 'user@example.com', password: 'secret' }))
+        .rejects.toMatchObject({ code: 'NOT_AUTHENTICATED' });
+      await expect(unlinkProvider('google.com')).rejects.toBeInstanceOf(AuthenticationError);
+    });
+  });
+
+  describe('Multi-factor Authentication', () => {
+    const totpHint = { uid: 'totp-1', factorId: 'totp', displayName: 'Authenticator', enrollmentTime: 'Mon, 01 Jan 2024 00:00:00 GMT' };
+    const phoneHint = { ...totpHint, uid: 'phone-1', factorId: 'phone', phoneNumber: '+*******1234' };
+
+    function createFakeResolver() {
+      return {
+        hints: [totpHint, phoneHint],
+        session: {},
+        resolveSignIn: vi.fn(async () => ({ user: { uid: 'test-uid' } })),
+      } as any;
+    }
+
+    it('should map Firebase MFA errors to MFA codes', async () => {
+      const { toAuthenticationError } = await import('../auth');
+
+      expect(toAuthenticationError({ code: 'auth/multi-factor-auth-required' }).code).toBe('MFA_REQUIRED');
+      expect(toAuthenticationError({ code: 'auth/invalid-verification-code' }).code).toBe('MFA_INVALID_CODE');
+      expect(toAuthenticationError({ code: 'auth/code-expired' }).code).toBe('MFA_CODE_EXPIRED');
+      expect(toAuthenticationError({ code: 'auth/requires-recent-login' }).code).toBe('REQUIRES_RECENT_LOGIN');
+    });
+
+    it('should carry the resolver on an MFA_REQUIRED AuthenticationError', async () => {
+      const { MfaRequiredError } = await import('../auth');
+      const resolver = { factors: [], sendSmsCode: vi.fn(), resolveSignIn: vi.fn() };
+      const error = new MfaRequiredError('A second factor is required', resolver);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error.code).toBe('MFA_REQUIRED');
+      expect(error.resolver).toBe(resolver);
+    });
+
+    it('should list the factors and finish sign-in with a TOTP code', async () => {
+      const { createMfaSignInResolver } = await import('../auth');
+      const firebaseResolver = createFakeResolver();
+      const onSignedIn = vi.fn(async (result: any) => result.user);
+      const resolver = createMfaSignInResolver({} as any, firebaseResolver, onSignedIn);
+
+      expect(resolver.factors).toEqual([
+        { uid: 'totp-1', factorId: 'totp', displayName: 'Authenticator', enrolledAt: totpHint.enrollmentTime },
+        { uid: 'phone-1', factorId: 'phone', displayName: 'Authenticator', enrolledAt: totpHint.enrollmentTime, phoneNumber: '+*******1234' },
+      ]);
+      await expect(resolver.resolveSignIn('totp-1', '123456')).resolves.toEqual({ uid: 'test-uid' });
+      expect(firebaseResolver.resolveSignIn).toHaveBeenCalledWith(expect.objectContaining({ factorId: 'totp' }));
+      expect(onSignedIn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let the user retry a wrong code', async () => {
+      const { createMfaSignInResolver } = await import('../auth');
+      const firebaseResolver = createFakeResolver();
+      firebaseResolver.resolveSignIn.mockRejectedValueOnce({ code: 'auth/invalid-verification-code' });
+      const onSignedIn = vi.fn(async (result: any) => result.user);
+      const resolver = createMfaSignInResolver({} as any, firebaseResolver, onSignedIn);
+
+      await expect(resolver.resolveSignIn('totp-1', '000000')).rejects.toMatchObject({ code: 'MFA_INVALID_CODE' });
+      expect(onSignedIn).not.toHaveBeenCalled();
+
+      await expect(resolver.resolveSignIn('totp-1', '123456')).resolves.toEqual({ uid: 'test-uid' });
+    });
+
+    it('should reject unknown factors and SMS codes that were never sent', async () => {
+      const { createMfaSignInResolver } = await import('../auth');
+      const firebaseResolver = createFakeResolver();
+      const resolver = createMfaSignInResolver({} as any, firebaseResolver, vi.fn());
+
+      await expect(resolver.resolveSignIn('unknown', '123456')).rejects.toMatchObject({ code: 'MFA_FACTOR_NOT_FOUND' });
+      await expect(resolver.resolveSignIn('phone-1', '123456')).rejects.toMatchObject({ code: 'MFA_CODE_NOT_SENT' });
+      expect(firebaseResolver.resolveSignIn).not.toHaveBeenCalled();
+    });
+
+    it('should require a signed-in user to manage second factors', async () => {
+      const { listMfaFactors, startTotpEnrollment, startSmsEnrollment, unenrollMfaFactor } = await import('../auth');
+
+      expect(listMfaFactors()).toEqual([]);
+      await expect(startTotpEnrollment()).rejects.toMatchObject({ code: 'NOT_AUTHENTICATED' });
+      await expect(startSmsEnrollment('+15555550100', {} as any)).rejects.toMatchObject({ code: 'NOT_AUTHENTICATED' });
+      await expect(unenrollMfaFactor('totp-1')).rejects.toBeInstanceOf(AuthenticationError);
+    });
+  });
+
+  describe('Automatic Token Refresh', () => {
+    it('should schedule the refresh before the token expires', async () => {
+      const { refreshDelayMs, TOKEN_REFRESH_MARGIN_MS } = await import('../auth');
+      const now = Date.parse('2024-01-01T00:00:00Z');
+      const expiresAt = now + 60 * 60 * 1000;
+
+      expect(refreshDelayMs(expiresAt, now)).toBe(60 * 60 * 1000 - TOKEN_REFRESH_MARGIN_MS);
+      expect(refreshDelayMs(expiresAt, now, 0)).toBe(60 * 60 * 1000);
+    });
+
+    it('should refresh immediately when the token is inside the margin or expired', async () => {
+      const { refreshDelayMs } = await import('../auth');
+      const now = Date.parse('2024-01-01T00:00:00Z');
+
+      expect(refreshDelayMs(now + 60 * 1000, now)).toBe(0);
+      expect(refreshDelayMs(now - 60 * 1000, now)).toBe(0);
+    });
+
+    it('should register and remove session lost listeners', async () => {
+      const { onSessionLost } = await import('../auth');
+      const listener = vi.fn();
+
+      const unsubscribe = onSessionLost(listener);
+
+      expect(typeof unsubscribe).toBe('function');
+      expect(() => unsubscribe()).not.toThrow();
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should stop refreshing without an initialized Firebase app', async () => {
+      const { startSessionRefresh, stopSessionRefresh } = await import('../auth');
+
+      expect(() => startSessionRefresh()).not.toThrow();
+      expect(() => stopSessionRefresh()).not.toThrow();
+    });
+  });
+
+  describe('Auth State Observable', () => {
+    it('should call the callback immediately with the current state', async () => {
+      const { onAuthStateChange, getAuthState } = await import('../auth');
+      const callback = vi.fn();
+
+      const unsubscribe = onAuthStateChange(callback);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(getAuthState());
+      unsubscribe();
+    });
+
+    it('should report a configuration error as an error state', async () => {
+      const { onAuthStateChange } = await import('../auth');
+      const callback = vi.fn();
+
+      onAuthStateChange(callback)();
+
+      expect(callback.mock.calls[0][0]).toMatchObject({
+        status: 'error',
+        user: null,
+        error: { name: 'AuthenticationError', code: 'INVALID_CONFIG' },
+      });
+    });
+
+    it('should emit an error state when sign-in fails', async () => {
+      const { onAuthStateChange, signIn } = await import('../auth');
+      const states: string[] = [];
+
+      const unsubscribe = onAuthStateChange(state => states.push(state.status));
+      await expect(signIn({ provider: 'anonymous' })).rejects.toBeInstanceOf(AuthenticationError);
+      unsubscribe();
+
+      expect(states[states.length - 1]).toBe('error');
+    });
+
+    it('should stop calling removed callbacks', async () => {
+      const { onAuthStateChange, signIn } = await import('../auth');
+      const callback = vi.fn();
+
+      onAuthStateChange(callback)();
+      await expect(signIn({ provider: 'anonymous' })).rejects.toBeInstanceOf(AuthenticationError);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('GDPR Data Export', () => {
+    it('should reject export when no user is signed in', async () => {
+      const { exportUserData } = await import('../auth');
+
+      await expect(exportUserData()).rejects.toThrow(DataFetchError);
+      await expect(exportUserData()).rejects.toMatchObject({ code: 'NOT_AUTHENTICATED' });
+    });
+
+    it('should not start a download when the export fails', async () => {
+      const { downloadUserDataExport } = await import('../auth');
+
+      await expect(downloadUserDataExport('export.json')).rejects.toMatchObject({
+        code: 'NOT_AUTHENTICATED',
+      });
+    });
+  });
+
+  describe('Profile Updates', () => {
+    it('should trim values and turn blank values into null', async () => {
+      const { validateProfilePatch } = await import('../auth');
+
+      expect(validateProfilePatch({ display_name: '  Ada Lovelace  ', photo_url: '   ' })).toEqual({
+        display_name: 'Ada Lovelace',
+        photo_url: null,
+      });
+      expect(validateProfilePatch({ photo_url: 'https://example.com/a.png' })).toEqual({
+        photo_url: 'https://example.com/a.png',
+      });
+    });
+
+    it('should reject fields users cannot change', async () => {
+      const { validateProfilePatch } = await import('../auth');
+
+      expect(() => validateProfilePatch({ email: 'new@example.com' } as any))
+        .toThrow(expect.objectContaining({ code: 'INVALID_PROFILE', message: expect.stringContaining('email') }));
+      expect(() => validateProfilePatch({})).toThrow(expect.objectContaining({ code: 'INVALID_PROFILE' }));
+    });
+
+    it('should reject invalid display names', async () => {
+      const { validateProfilePatch } = await import('../auth');
+
+      expect(() => validateProfilePatch({ display_name: 'x'.repeat(256) })).toThrow('at most 255 characters');
+      expect(() => validateProfilePatch({ display_name: 'line\nbreak' })).toThrow('control characters');
+      expect(() => validateProfilePatch({ display_name: 42 as any })).toThrow('must be a string or null');
+      expect(validateProfilePatch({ display_name: 'x'.repeat(255) }).display_name).toHaveLength(255);
+    });
+
+    it('should reject photo URLs that are not http(s)', async () => {
+      const { validateProfilePatch } = await import('../auth');
+
+      for (const photoUrl of ['javascript:alert(1)', 'ftp://example.com/a.png', 'example.com/a.png', 'https://exa mple.com']) {
+        expect(() => validateProfilePatch({ photo_url: photoUrl })).toThrow(DataFetchError);
+      }
+      expect(() => validateProfilePatch({ photo_url: `https://example.com/${'a'.repeat(2048)}` })).toThrow('at most 2048');
+    });
+
+    it('should map PostgREST errors to DataFetchError codes', async () => {
+      const { toDataFetchError } = await import('../auth');
+
+      expect(toDataFetchError({ code: 'PGRST116', message: 'no rows' }, 'fetch user data').code).toBe('USER_NOT_FOUND');
+      expect(toDataFetchError({ code: '42501', message: 'denied' }, 'update profile').code).toBe('PERMISSION_DENIED');
+      expect(toDataFetchError({ code: 'PGRST301', message: 'JWT expired' }, 'update profile').code).toBe('NOT_AUTHENTICATED');
+      expect(toDataFetchError({ code: '22001', message: 'value too long' }, 'update profile').code).toBe('INVALID_PROFILE');
+
+      const unmapped = toDataFetchError({ code: '08006', message: 'connection failure' }, 'update profile');
+      expect(unmapped).toBeInstanceOf(DataFetchError);
+      expect(unmapped.code).toBe('08006');
+      expect(unmapped.message).toBe('Failed to update profile: connection failure');
+    });
+
+    it('should reject updates when no user is signed in', async () => {
+      const { updateUserProfile } = await import('../auth');
+
+      await expect(updateUserProfile({ display_name: 'Ada' })).rejects.toMatchObject({
+        name: 'DataFetchError',
+        code: 'NOT_AUTHENTICATED',
+      });
+    });
+  });
+
+  describe('Realtime Subscriptions', () => {
+    it('should require a signed-in user', async () => {
+      const { subscribeToOwnRows, subscribeToUserProfile } = await import('../auth');
+
+      expect(() => subscribeToOwnRows('orders', vi.fn())).toThrow(expect.objectContaining({
+        name: 'DataFetchError',
+        code: 'NOT_AUTHENTICATED',
+      }));
+      expect(() => subscribeToUserProfile('test-uid', vi.fn())).toThrow(DataFetchError);
+    });
+  });
+
+  describe('LumiBase Client Instances', () => {
+    const firebase = { apiKey: 'test-api-key', authDomain: 'test.firebaseapp.com', projectId: 'test-project' };
+
+    it('should expose every module function as a method', async () => {
+      const authModule = await import('../auth');
+      const client = authModule.createLumiBaseClient();
+
+      for (const name of ['initializeFirebase', 'signIn', 'signOut', 'getUserData', 'onAuthStateChange', 'exportUserData'] as const) {
+        expect(typeof client[name]).toBe('function');
+        expect(typeof authModule[name]).toBe('function');
+      }
+      expect(client.auth).toBeNull();
+      expect(client.supabase).toBeNull();
+    });
+
+    it('should back the module functions with the default client', async () => {
+      const { getDefaultClient, signIn, getAuthState } = await import('../auth');
+
+      expect(getDefaultClient().signIn).toBe(signIn);
+      expect(getDefaultClient().getAuthState).toBe(getAuthState);
+    });
+
+    it('should not read configuration from process.env', async () => {
+      const { createLumiBaseClient } = await import('../auth');
+      vi.stubEnv('FIREBASE_WEB_API_KEY', 'env-api-key');
+      vi.stubEnv('FIREBASE_PROJECT_ID', 'env-project');
+      vi.stubEnv('SUPABASE_URL', 'http://localhost:54321');
+      vi.stubEnv('SUPABASE_ANON_KEY', 'env-anon-key');
+
+      try {
+        const client = createLumiBaseClient();
+
+        expect(() => client.initializeFirebase()).toThrow(expect.objectContaining({ code: 'INVALID_CONFIG' }));
+        expect(() => client.initializeSupabase()).toThrow(expect.objectContaining({ code: 'INVALID_CONFIG' }));
+      } finally {
+        vi.unstubAllEnvs();
+      }
+    });
+
+    it('should keep auth state separate between clients', async () => {
+      const { createLumiBaseClient } = await import('../auth');
+      const first = createLumiBaseClient();
+      const second = createLumiBaseClient();
+      const callback = vi.fn();
+
+      const unsubscribe = first.onAuthStateChange(callback);
+      await expect(second.signIn({ provider: 'anonymous' })).rejects.toBeInstanceOf(AuthenticationError);
+      unsubscribe();
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(second.getAuthState().status).toBe('error');
+    });
+
+    it('should initialize a separate Firebase app per client', async () => {
+      const { createLumiBaseClient } = await import('../auth');
+      const tenantA = createLumiBaseClient({ firebase, appName: 'tenant-a' });
+      const tenantB = createLumiBaseClient({ firebase, appName: 'tenant-b' });
+
+      try {
+        expect(tenantA.initializeFirebase().name).toBe('tenant-a');
+        expect(tenantB.initializeFirebase().name).toBe('tenant-b');
+        expect(tenantA.auth).not.toBe(tenantB.auth);
+        expect(tenantA.getCurrentUser()).toBeNull();
+      } finally {
+        await tenantA.dispose();
+        await tenantB.dispose();
+      }
+
+      expect(tenantA.firebaseApp).toBeNull();
+      expect(tenantA.auth).toBeNull();
+    });
+  });
+
   describe('Type Safety - UserData Interface', () => {
     /**
      * Test that UserData interface matches Supabase schema
@@ -269,7 +813,8 @@ describe('Client Authentication Integration - Unit Tests', () => {
        * 
        * ERROR CASES:
        * - Popup closed by user: AuthenticationError with code 'POPUP_CLOSED'
-       * - Popup blocked by browser: AuthenticationError with code 'POPUP_BLOCKED'
+       * - Popup blocked by browser: falls back to a redirect ('auto' mode),
+       *   or AuthenticationError with code 'POPUP_BLOCKED' in 'popup' mode
        * - Another popup already open: AuthenticationError with code 'POPUP_ALREADY_OPEN'
        * - Network error: AuthenticationError with code 'NETWORK_ERROR'
        * - Firebase not initialized: AuthenticationError with code 'NOT_INITIALIZED'
@@ -329,8 +874,9 @@ describe('Client Authentication Integration - Unit Tests', () => {
        * 4. SUBSEQUENT REQUESTS:
        *    - JWT token automatically included in all Supabase requests
        *    - Token valid for 1 hour
-       *    - Call refreshSupabaseSession() every 50 minutes
-       *    - Or call getIdToken(true) to force refresh
+       *    - Refreshed automatically 5 minutes before expiry (onIdTokenChanged)
+       *    - Call refreshSupabaseSession() to force a refresh
+       *    - Subscribe with onSessionLost() to handle a session that can't be kept
        * 
        * 5. USER SIGN OUT:
        *    - Call signOut()
@@ -349,8 +895,9 @@ describe('Client Authentication Integration - Unit Tests', () => {
        * 
        * 1. POPUP BLOCKED:
        *    - Catch AuthenticationError with code 'POPUP_BLOCKED'
+       *    - Only thrown in 'popup' mode; the default 'auto' mode falls back
+       *      to a redirect, finished by completeRedirectSignIn() on page load
        *    - Show user-friendly message: "Please allow popups for this site"
-       *    - Provide alternative: use redirect-based authentication
        *    - Add instructions for enabling popups in browser settings
        * 
        * 2. NETWORK ERROR:
@@ -373,11 +920,10 @@ describe('Client Authentication Integration - Unit Tests', () => {
        *    - If still fails, force re-authentication
        * 
        * 5. TOKEN EXPIRATION:
-       *    - Implement proactive token refresh
+       *    - Tokens are refreshed proactively before they expire
        *    - Firebase tokens expire after 1 hour
-       *    - Set up interval to call refreshSupabaseSession() every 50 minutes
        *    - Handle 401 errors by refreshing token and retrying
-       *    - If refresh fails, redirect to login
+       *    - If refresh fails, onSessionLost() fires: redirect to login
        */
       expect(true).toBe(true);
     });
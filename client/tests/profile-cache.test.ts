@@ -0,0 +1,188 @@
+// @vitest-environment jsdom
+/**
+ * Unit Tests for the Profile Cache
+ *
+ * Tests cover:
+ * - Memory, localStorage and IndexedDB adapters
+ * - Stale-while-revalidate reads, request sharing and invalidation
+ * - Entries never being served for another firebase_uid
+ * - Offline reads on a client without a reachable Supabase
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  ProfileCacheAdapter,
+  createIndexedDBProfileCache,
+  createLocalStorageProfileCache,
+  createMemoryProfileCache,
+  createProfileStore,
+} from '../profile-cache';
+import { DataFetchError, UserData, createLumiBaseClient } from '../auth';
+
+function createProfile(firebaseUid: string, overrides: Partial<UserData> = {}): UserData {
+  return {
+    firebase_uid: firebaseUid,
+    email: `${firebaseUid}@example.com`,
+    display_name: null,
+    photo_url: null,
+    custom_claims: {},
+    deleted_at: null,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const aliceProfile = createProfile('alice');
+
+describe('Profile Cache - Unit Tests', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  describe('Adapters', () => {
+    const adapters: [string, () => ProfileCacheAdapter][] = [
+      ['memory', () => createMemoryProfileCache()],
+      ['localStorage', () => createLocalStorageProfileCache()],
+      ['IndexedDB', () => createIndexedDBProfileCache({ indexedDB: new IDBFactory() })],
+    ];
+
+    for (const [name, createAdapter] of adapters) {
+      it(`should store, read and delete entries by firebase_uid (${name})`, async () => {
+        const adapter = createAdapter();
+        const entry = { profile: aliceProfile, cachedAt: 1000 };
+
+        await adapter.set('alice', entry);
+
+        expect(await adapter.get('alice')).toEqual(entry);
+        expect(await adapter.get('bob')).toBeNull();
+
+        await adapter.delete('alice');
+        expect(await adapter.get('alice')).toBeNull();
+      });
+    }
+
+    it('should ignore unreadable localStorage entries', async () => {
+      localStorage.setItem('lumibase:profile:alice', '{not json');
+
+      expect(await createLocalStorageProfileCache().get('alice')).toBeNull();
+    });
+  });
+
+  describe('createProfileStore', () => {
+    it('should fetch and cache a profile on a miss', async () => {
+      const adapter = createMemoryProfileCache();
+      const fetchProfile = vi.fn(async (uid: string) => createProfile(uid));
+      const store = createProfileStore({ adapter, fetchProfile });
+
+      await expect(store.get('alice')).resolves.toEqual(aliceProfile);
+      await expect(store.get('alice')).resolves.toEqual(aliceProfile);
+
+      expect(fetchProfile).toHaveBeenCalledTimes(1);
+      expect((await adapter.get('alice'))?.profile).toEqual(aliceProfile);
+    });
+
+    it('should serve a stale profile and revalidate it in the background', async () => {
+      const adapter = createMemoryProfileCache();
+      await adapter.set('alice', { profile: aliceProfile, cachedAt: Date.now() - 60 * 1000 });
+      const renamed = createProfile('alice', { display_name: 'Alice', updated_at: '2024-02-01T00:00:00Z' });
+      const onProfile = vi.fn();
+      const store = createProfileStore({ adapter, fetchProfile: async () => renamed, onProfile });
+
+      await expect(store.get('alice')).resolves.toEqual(aliceProfile);
+
+      await vi.waitFor(() => expect(onProfile).toHaveBeenCalledWith(renamed));
+      expect((await adapter.get('alice'))?.profile).toEqual(renamed);
+    });
+
+    it('should keep serving the cached profile while offline', async () => {
+      const adapter = createMemoryProfileCache();
+      await adapter.set('alice', { profile: aliceProfile, cachedAt: 0 });
+      const fetchProfile = vi.fn(async () => {
+        throw new DataFetchError('Failed to fetch user data: fetch failed', 'FETCH_FAILED');
+      });
+      const store = createProfileStore({ adapter, fetchProfile });
+
+      await expect(store.get('alice')).resolves.toEqual(aliceProfile);
+      await expect(store.get('alice')).resolves.toEqual(aliceProfile);
+      await expect(store.get('alice', true)).rejects.toMatchObject({ code: 'FETCH_FAILED' });
+    });
+
+    it('should share one request between concurrent fetches', async () => {
+      const fetchProfile = vi.fn(async (uid: string) => createProfile(uid));
+      const store = createProfileStore({ adapter: null, fetchProfile });
+
+      await Promise.all([store.fetch('alice'), store.fetch('alice'), store.get('alice')]);
+      await store.fetch('alice');
+
+      expect(fetchProfile).toHaveBeenCalledTimes(2);
+    });
+
+    it('should drop the cached profile when the user no longer exists', async () => {
+      const adapter = createMemoryProfileCache();
+      await adapter.set('alice', { profile: aliceProfile, cachedAt: 0 });
+      const store = createProfileStore({
+        adapter,
+        fetchProfile: async () => {
+          throw new DataFetchError('User not found in database', 'USER_NOT_FOUND');
+        },
+      });
+
+      await expect(store.fetch('alice')).rejects.toMatchObject({ code: 'USER_NOT_FOUND' });
+      expect(await adapter.get('alice')).toBeNull();
+    });
+
+    it("should never serve another user's profile", async () => {
+      const adapter = createMemoryProfileCache();
+      await adapter.set('bob', { profile: aliceProfile, cachedAt: Date.now() });
+      const store = createProfileStore({ adapter, fetchProfile: async (uid) => createProfile(uid) });
+
+      await expect(store.read('bob')).resolves.toBeNull();
+      await expect(store.get('bob')).resolves.toMatchObject({ firebase_uid: 'bob' });
+    });
+
+    it('should drop entries that no longer match the schema', async () => {
+      const adapter = createMemoryProfileCache();
+      const { custom_claims: _claims, ...outdated } = aliceProfile;
+      await adapter.set('alice', { profile: outdated as UserData, cachedAt: Date.now() });
+      const store = createProfileStore({ adapter, fetchProfile: async () => aliceProfile });
+
+      await expect(store.read('alice')).resolves.toBeNull();
+      expect(await adapter.get('alice')).toBeNull();
+    });
+
+    it('should treat cache failures as misses', async () => {
+      const failing: ProfileCacheAdapter = {
+        get: async () => { throw new Error('blocked'); },
+        set: async () => { throw new Error('quota exceeded'); },
+        delete: async () => { throw new Error('blocked'); },
+      };
+      const store = createProfileStore({ adapter: failing, fetchProfile: async () => aliceProfile });
+
+      await expect(store.get('alice')).resolves.toEqual(aliceProfile);
+      await expect(store.invalidate('alice')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('LumiBase client', () => {
+    it('should serve a cached profile without reaching Supabase', async () => {
+      const profileCache = createLocalStorageProfileCache();
+      await profileCache.set('alice', { profile: aliceProfile, cachedAt: 0 });
+      // No Supabase configuration: every request fails, like being offline
+      const client = createLumiBaseClient({ profileCache });
+
+      await expect(client.getUserData('alice')).resolves.toEqual(aliceProfile);
+
+      await client.invalidateUserData('alice');
+      await expect(client.getUserData('alice')).rejects.toBeInstanceOf(DataFetchError);
+    });
+
+    it('should always query Supabase when caching is disabled', async () => {
+      const client = createLumiBaseClient({ profileCache: false });
+
+      await expect(client.getUserData('alice')).rejects.toBeInstanceOf(DataFetchError);
+      await expect(client.getUserData('')).rejects.toMatchObject({ code: 'INVALID_UID' });
+    });
+  });
+});
@@ -0,0 +1,220 @@
+// @vitest-environment jsdom
+/**
+ * Unit Tests for the React Bindings
+ * 
+ * Tests cover:
+ * - useAuth re-rendering on auth state changes
+ * - useUserProfile refresh and error handling
+ * - RequireAuth rendering children, fallback or loading content
+ * 
+ * Firebase is replaced by a mocked auth state so the hooks can be driven
+ * through every state without network access.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createElement } from 'react';
+import { act, cleanup, render, renderHook, screen } from '@testing-library/react';
+import { DataFetchError } from '../auth';
+import { RequireAuth, describeAuthState, useAuth, useUserProfile } from '../react';
+
+const authMock = vi.hoisted(() => {
+  const initial = { status: 'signing-in', user: null };
+  const listeners = new Set<(state: any) => void>();
+  let state: any = initial;
+
+  return {
+    listeners,
+    emit(next: any) {
+      state = next;
+      listeners.forEach(listener => listener(next));
+    },
+    reset() {
+      state = initial;
+      listeners.clear();
+    },
+    getAuthState: () => state,
+    onAuthStateChange: (callback: (state: any) => void) => {
+      listeners.add(callback);
+      callback(state);
+      return () => {
+        listeners.delete(callback);
+      };
+    },
+    getUserData: vi.fn(),
+    signIn: vi.fn(),
+    signOut: vi.fn(),
+  };
+});
+
+vi.mock('../auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../auth')>()),
+  getAuthState: authMock.getAuthState,
+  onAuthStateChange: authMock.onAuthStateChange,
+  getUserData: authMock.getUserData,
+  signIn: authMock.signIn,
+  signOut: authMock.signOut,
+}));
+
+const user = { uid: 'react-uid', email: 'react@example.com' } as any;
+const profile = {
+  firebase_uid: 'react-uid',
+  email: 'react@example.com',
+  display_name: 'React User',
+  photo_url: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('React Bindings - Unit Tests', () => {
+  beforeEach(() => {
+    authMock.reset();
+    authMock.getUserData.mockReset();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  describe('useAuth', () => {
+    it('should start in the signing-in state', () => {
+      const { result } = renderHook(() => useAuth());
+
+      expect(result.current.status).toBe('signing-in');
+      expect(result.current.loading).toBe(true);
+      expect(result.current.user).toBeNull();
+    });
+
+    it('should follow auth state changes', () => {
+      const { result } = renderHook(() => useAuth());
+
+      act(() => authMock.emit({ status: 'signed-in', user, profile }));
+      expect(result.current).toMatchObject({ status: 'signed-in', user, profile, loading: false, error: null });
+
+      act(() => authMock.emit({ status: 'signed-out' }));
+      expect(result.current).toMatchObject({ status: 'signed-out', user: null, profile: null });
+    });
+
+    it('should expose errors and the sign-in actions', () => {
+      const error = new DataFetchError('Permission denied', 'PERMISSION_DENIED');
+      const { result } = renderHook(() => useAuth());
+
+      act(() => authMock.emit({ status: 'error', user, error }));
+
+      expect(result.current.error).toBe(error);
+      expect(result.current.signIn).toBe(authMock.signIn);
+      expect(result.current.signOut).toBe(authMock.signOut);
+    });
+
+    it('should follow the given client instead of the default one', () => {
+      const state = { status: 'signed-in', user, profile } as const;
+      const client = {
+        getAuthState: () => state,
+        onAuthStateChange: vi.fn(() => () => undefined),
+        getUserData: vi.fn(),
+        signIn: vi.fn(),
+        signOut: vi.fn(),
+      };
+
+      const { result } = renderHook(() => useAuth(client));
+
+      expect(result.current.status).toBe('signed-in');
+      expect(result.current.signOut).toBe(client.signOut);
+      expect(client.onAuthStateChange).toHaveBeenCalled();
+      expect(authMock.listeners.size).toBe(0);
+    });
+
+    it('should unsubscribe on unmount', () => {
+      const { unmount } = renderHook(() => useAuth());
+      expect(authMock.listeners.size).toBe(1);
+
+      unmount();
+
+      expect(authMock.listeners.size).toBe(0);
+    });
+  });
+
+  describe('describeAuthState', () => {
+    it('should keep the user while the profile is loading', () => {
+      expect(describeAuthState({ status: 'signing-in', user })).toMatchObject({ user, profile: null, loading: true });
+    });
+  });
+
+  describe('useUserProfile', () => {
+    it('should return the profile from the auth state', () => {
+      authMock.emit({ status: 'signed-in', user, profile });
+
+      const { result } = renderHook(() => useUserProfile());
+
+      expect(result.current.profile).toEqual(profile);
+      expect(result.current.loading).toBe(false);
+    });
+
+    it('should re-read the profile on refresh', async () => {
+      authMock.emit({ status: 'signed-in', user, profile });
+      authMock.getUserData.mockResolvedValue({ ...profile, display_name: 'Renamed' });
+      const { result } = renderHook(() => useUserProfile());
+
+      await act(() => result.current.refresh());
+
+      expect(authMock.getUserData).toHaveBeenCalledWith('react-uid', true);
+      expect(result.current.profile?.display_name).toBe('Renamed');
+    });
+
+    it('should report refresh failures', async () => {
+      authMock.emit({ status: 'signed-in', user, profile });
+      authMock.getUserData.mockRejectedValue(new DataFetchError('User not found in database', 'USER_NOT_FOUND'));
+      const { result } = renderHook(() => useUserProfile());
+
+      await act(() => result.current.refresh());
+
+      expect(result.current.error?.code).toBe('USER_NOT_FOUND');
+      expect(result.current.profile).toEqual(profile);
+    });
+
+    it('should not fetch without a user', async () => {
+      authMock.emit({ status: 'signed-out' });
+      const { result } = renderHook(() => useUserProfile());
+
+      await act(() => result.current.refresh());
+
+      expect(authMock.getUserData).not.toHaveBeenCalled();
+      expect(result.current.profile).toBeNull();
+    });
+  });
+
+  describe('RequireAuth', () => {
+    function renderGuard() {
+      return render(createElement(
+        RequireAuth,
+        { fallback: 'Please sign in', loading: 'Loading...' },
+        'Dashboard'
+      ));
+    }
+
+    it('should render the loading content while signing in', () => {
+      renderGuard();
+
+      expect(screen.getByText('Loading...')).toBeTruthy();
+      expect(screen.queryByText('Dashboard')).toBeNull();
+    });
+
+    it('should render the children for signed-in users', () => {
+      renderGuard();
+
+      act(() => authMock.emit({ status: 'signed-in', user, profile }));
+
+      expect(screen.getByText('Dashboard')).toBeTruthy();
+    });
+
+    it('should render the fallback for signed-out users and errors', () => {
+      renderGuard();
+
+      act(() => authMock.emit({ status: 'signed-out' }));
+      expect(screen.getByText('Please sign in')).toBeTruthy();
+
+      act(() => authMock.emit({ status: 'error', user: null, error: new DataFetchError('Failed', 'FETCH_FAILED') }));
+      expect(screen.getByText('Please sign in')).toBeTruthy();
+      expect(screen.queryByText('Dashboard')).toBeNull();
+    });
+  });
+});
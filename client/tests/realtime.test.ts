@@ -0,0 +1,146 @@
+/**
+ * Unit Tests for the Realtime Subscriptions
+ *
+ * Tests cover:
+ * - Owner filters for own-row subscriptions
+ * - Mapping postgres_changes payloads to row changes
+ * - Opening, re-opening after a token change, and closing channels
+ *
+ * Channels come from a fake client with the same channel()/removeChannel()
+ * contract as SupabaseClient.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ChannelSpec, createRealtimeSubscriptions, ownRowsFilter, toRowChange } from '../realtime';
+
+/**
+ * Fake Supabase client recording the channels it opens
+ */
+function createFakeClient() {
+  const channels: any[] = [];
+
+  const client = {
+    channel: vi.fn((name: string) => {
+      const channel: any = {
+        name,
+        state: 'joining',
+        on: vi.fn((_type: string, filter: unknown, handler: (payload: any) => void) => {
+          channel.filter = filter;
+          channel.handler = handler;
+          return channel;
+        }),
+        subscribe: vi.fn((callback: (status: string, error?: Error) => void) => {
+          channel.emitStatus = callback;
+          return channel;
+        }),
+      };
+      channels.push(channel);
+      return channel;
+    }),
+    removeChannel: vi.fn(async () => 'ok'),
+  };
+
+  return { client, channels };
+}
+
+function createSpec(overrides: Partial<ChannelSpec> = {}): ChannelSpec {
+  return {
+    table: 'orders',
+    filter: 'user_id=eq.uid-1',
+    event: '*',
+    onChange: vi.fn(),
+    onFailure: vi.fn(),
+    ...overrides,
+  };
+}
+
+describe('Realtime Subscriptions - Unit Tests', () => {
+  describe('ownRowsFilter', () => {
+    it('should filter by firebase_uid or user_id', () => {
+      expect(ownRowsFilter('users', 'uid-1')).toBe('firebase_uid=eq.uid-1');
+      expect(ownRowsFilter('orders', 'uid-1')).toBe('user_id=eq.uid-1');
+    });
+
+    it('should use a given owner column only if the table has it', () => {
+      expect(ownRowsFilter('products', 'uid-1')).toBeNull();
+      expect(ownRowsFilter('products', 'uid-1', 'created_by')).toBe('created_by=eq.uid-1');
+      expect(ownRowsFilter('products', 'uid-1', 'owner')).toBeNull();
+    });
+  });
+
+  describe('toRowChange', () => {
+    it('should deliver the new row of inserts and updates', () => {
+      const row = { id: 'order-1', user_id: 'uid-1' };
+
+      expect(toRowChange({ eventType: 'UPDATE', new: row, old: {} } as any))
+        .toEqual({ type: 'UPDATE', row, oldRow: null });
+    });
+
+    it('should deliver the primary key of deletes', () => {
+      expect(toRowChange({ eventType: 'DELETE', new: {}, old: { id: 'order-1' } } as any))
+        .toEqual({ type: 'DELETE', row: null, oldRow: { id: 'order-1' } });
+    });
+  });
+
+  describe('createRealtimeSubscriptions', () => {
+    it('should open a filtered postgres_changes channel', () => {
+      const { client, channels } = createFakeClient();
+      const spec = createSpec();
+
+      createRealtimeSubscriptions(() => client as any).add(spec);
+      channels[0].handler({ eventType: 'INSERT', new: { id: 'order-1' }, old: {} });
+
+      expect(channels[0].on).toHaveBeenCalledWith(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'orders', filter: 'user_id=eq.uid-1' },
+        expect.any(Function)
+      );
+      expect(spec.onChange).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'INSERT' }));
+    });
+
+    it('should report channels that fail to join', () => {
+      const { client, channels } = createFakeClient();
+      const spec = createSpec();
+
+      createRealtimeSubscriptions(() => client as any).add(spec);
+      channels[0].emitStatus('SUBSCRIBED');
+      channels[0].emitStatus('CHANNEL_ERROR', new Error('invalid token'));
+
+      expect(spec.onFailure).toHaveBeenCalledTimes(1);
+      expect(spec.onFailure).toHaveBeenCalledWith(new Error('invalid token'));
+    });
+
+    it('should re-open only channels that are no longer joined', () => {
+      const { client, channels } = createFakeClient();
+      const subscriptions = createRealtimeSubscriptions(() => client as any);
+      subscriptions.add(createSpec());
+      subscriptions.add(createSpec({ table: 'users', filter: 'firebase_uid=eq.uid-1' }));
+      channels[0].state = 'joined';
+      channels[1].state = 'closed';
+
+      subscriptions.reopen();
+
+      expect(channels).toHaveLength(3);
+      expect(channels[2].filter).toMatchObject({ table: 'users' });
+      expect(client.removeChannel).toHaveBeenCalledWith(channels[1]);
+      expect(channels[2].name).not.toBe(channels[1].name);
+    });
+
+    it('should close channels on unsubscribe and on closeAll', () => {
+      const { client, channels } = createFakeClient();
+      const subscriptions = createRealtimeSubscriptions(() => client as any);
+      const unsubscribe = subscriptions.add(createSpec());
+      subscriptions.add(createSpec());
+
+      unsubscribe();
+      unsubscribe();
+      subscriptions.closeAll();
+      subscriptions.reopen();
+
+      expect(client.removeChannel).toHaveBeenCalledTimes(2);
+      expect(client.removeChannel).toHaveBeenCalledWith(channels[0]);
+      expect(client.removeChannel).toHaveBeenCalledWith(channels[1]);
+      expect(channels).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Unit Tests for the Server-side Session Helpers
+ *
+ * Tests cover:
+ * - Reading tokens from Bearer headers and cookies (Fetch and Node.js requests)
+ * - Verifying ID tokens and session cookies, and mapping verification errors
+ * - Per-request Supabase clients bound to the session's token
+ *
+ * Tokens are signed locally with HS256, like in
+ * tests/property/jwt-token-validation.property.test.ts, and checked by a
+ * verifier with the same contract as firebase-admin's Auth.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as jwt from 'jsonwebtoken';
+import { AuthenticationError } from '../auth';
+import {
+  TokenVerifier,
+  createServerSupabaseClient,
+  getServerSession,
+  getSessionTokenType,
+  parseCookies,
+  readSessionToken,
+} from '../server';
+
+const JWT_SECRET = 'test-jwt-secret-at-least-32-characters-long';
+const FIREBASE_PROJECT_ID = 'test-project';
+const ID_TOKEN_ISSUER = `https://securetoken.google.com/${FIREBASE_PROJECT_ID}`;
+const SESSION_COOKIE_ISSUER = `https://session.firebase.google.com/${FIREBASE_PROJECT_ID}`;
+
+/**
+ * Helper function to create a Firebase-style token
+ */
+function createToken(
+  uid: string,
+  { expiresIn = 3600, issuer = ID_TOKEN_ISSUER, secret = JWT_SECRET } = {}
+): string {
+  const now = Math.floor(Date.now() / 1000);
+
+  return jwt.sign({
+    sub: uid,
+    aud: FIREBASE_PROJECT_ID,
+    iss: issuer,
+    iat: now - 60,
+    exp: now + expiresIn,
+    user_id: uid,
+    firebase: {
+      identities: {},
+      sign_in_provider: 'custom'
+    }
+  }, secret, { algorithm: 'HS256' });
+}
+
+function firebaseError(code: string, message: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Verifier for locally signed tokens that fails like firebase-admin does
+ */
+function createLocalVerifier(revokedUids: string[] = []): TokenVerifier {
+  const verify = (issuer: string, kind: 'id-token' | 'session-cookie') => async (token: string, checkRevoked?: boolean) => {
+    let claims: jwt.JwtPayload;
+
+    try {
+      claims = jwt.verify(token, JWT_SECRET, {
+        algorithms: ['HS256'],
+        audience: FIREBASE_PROJECT_ID,
+        issuer,
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw firebaseError(`auth/${kind}-expired`, error.message);
+      }
+      throw firebaseError('auth/argument-error', (error as Error).message);
+    }
+
+    if (checkRevoked && revokedUids.includes(claims.sub!)) {
+      throw firebaseError(`auth/${kind}-revoked`, 'The token has been revoked');
+    }
+
+    return { ...claims, uid: claims.sub! };
+  };
+
+  return {
+    verifyIdToken: vi.fn(verify(ID_TOKEN_ISSUER, 'id-token')),
+    verifySessionCookie: vi.fn(verify(SESSION_COOKIE_ISSUER, 'session-cookie')),
+  };
+}
+
+function requestWith(headers: Record<string, string>): Request {
+  return new Request('http://localhost/dashboard', { headers });
+}
+
+describe('Server-side Session Helpers - Unit Tests', () => {
+  describe('parseCookies', () => {
+    it('should parse and decode cookie values', () => {
+      expect(parseCookies('theme=dark; __session=a%2Eb.c; empty=')).toEqual({
+        theme: 'dark',
+        __session: 'a.b.c',
+        empty: '',
+      });
+    });
+
+    it('should handle missing and malformed headers', () => {
+      expect(parseCookies(undefined)).toEqual({});
+      expect(parseCookies('novalue; =x; bad=%E0%A4%A')).toEqual({ bad: '%E0%A4%A' });
+    });
+  });
+
+  describe('readSessionToken', () => {
+    it('should read the session cookie', () => {
+      expect(readSessionToken(requestWith({ cookie: 'theme=dark; __session=cookie-token' }))).toBe('cookie-token');
+    });
+
+    it('should prefer an Authorization Bearer header', () => {
+      const request = requestWith({ authorization: 'Bearer header-token', cookie: '__session=cookie-token' });
+
+      expect(readSessionToken(request)).toBe('header-token');
+    });
+
+    it('should read Node.js request headers and custom cookie names', () => {
+      const request = { headers: { cookie: 'app_session=node-token' } };
+
+      expect(readSessionToken(request, 'app_session')).toBe('node-token');
+      expect(readSessionToken(request)).toBeNull();
+    });
+
+    it('should return null for requests without a token', () => {
+      expect(readSessionToken(requestWith({ authorization: 'Basic dXNlcjpwYXNz' }))).toBeNull();
+    });
+  });
+
+  describe('getSessionTokenType', () => {
+    it('should tell session cookies from ID tokens by issuer', () => {
+      expect(getSessionTokenType(createToken('uid-1'))).toBe('idToken');
+      expect(getSessionTokenType(createToken('uid-1', { issuer: SESSION_COOKIE_ISSUER }))).toBe('sessionCookie');
+    });
+
+    it('should treat undecodable tokens as ID tokens', () => {
+      expect(getSessionTokenType('not-a-jwt')).toBe('idToken');
+    });
+  });
+
+  describe('getServerSession', () => {
+    it('should return null when the request has no token', async () => {
+      const verifier = createLocalVerifier();
+
+      await expect(getServerSession(requestWith({}), { verifier })).resolves.toBeNull();
+      expect(verifier.verifyIdToken).not.toHaveBeenCalled();
+    });
+
+    it('should verify an ID token from the session cookie', async () => {
+      const token = createToken('firebase-uid-123');
+
+      const session = await getServerSession(
+        requestWith({ cookie: `__session=${token}` }),
+        { verifier: createLocalVerifier() }
+      );
+
+      expect(session).toMatchObject({ uid: 'firebase-uid-123', token, type: 'idToken' });
+      expect(session?.claims.user_id).toBe('firebase-uid-123');
+    });
+
+    it('should verify firebase-admin session cookies', async () => {
+      const verifier = createLocalVerifier();
+      const token = createToken('firebase-uid-123', { issuer: SESSION_COOKIE_ISSUER, expiresIn: 14 * 24 * 3600 });
+
+      const session = await getServerSession(requestWith({ cookie: `__session=${token}` }), { verifier });
+
+      expect(session?.type).toBe('sessionCookie');
+      expect(verifier.verifySessionCookie).toHaveBeenCalledWith(token, undefined);
+    });
+
+    it('should reject expired tokens with TOKEN_EXPIRED', async () => {
+      const token = createToken('firebase-uid-123', { expiresIn: -60 });
+
+      await expect(getServerSession(requestWith({ authorization: `Bearer ${token}` }), { verifier: createLocalVerifier() }))
+        .rejects.toMatchObject({ name: 'AuthenticationError', code: 'TOKEN_EXPIRED' });
+    });
+
+    it('should reject tokens with an invalid signature', async () => {
+      const token = createToken('firebase-uid-123', { secret: 'wrong-secret-key-that-will-fail-verification' });
+
+      const error = await getServerSession(requestWith({ authorization: `Bearer ${token}` }), { verifier: createLocalVerifier() })
+        .catch(caught => caught);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error.code).toBe('INVALID_TOKEN');
+    });
+
+    it('should reject revoked sessions only when checkRevoked is set', async () => {
+      const verifier = createLocalVerifier(['revoked-uid']);
+      const request = requestWith({ cookie: `__session=${createToken('revoked-uid')}` });
+
+      await expect(getServerSession(request, { verifier })).resolves.toMatchObject({ uid: 'revoked-uid' });
+      await expect(getServerSession(request, { verifier, checkRevoked: true }))
+        .rejects.toMatchObject({ code: 'TOKEN_REVOKED' });
+    });
+  });
+
+  describe('createServerSupabaseClient', () => {
+    const supabaseOptions = { supabaseUrl: 'http://localhost:54321', supabaseAnonKey: 'anon-key' };
+
+    it('should send the session token with every request', async () => {
+      const token = createToken('firebase-uid-123');
+      const fetch = vi.fn(async () => new Response('[]', { status: 200, headers: { 'Content-Type': 'application/json' } }));
+      const session = await getServerSession(requestWith({ cookie: `__session=${token}` }), { verifier: createLocalVerifier() });
+
+      const supabase = createServerSupabaseClient(session!, {
+        ...supabaseOptions,
+        clientOptions: {
+          global: { fetch, headers: { 'X-Request-Id': 'req-1' } },
+          // Node.js < 22 has no global WebSocket; realtime isn't used here
+          realtime: { transport: class {} as any },
+        },
+      });
+      await supabase.from('users').select('*');
+
+      const headers = new Headers((fetch.mock.calls[0] as unknown as [string, RequestInit])[1].headers);
+      expect(headers.get('Authorization')).toBe(`Bearer ${token}`);
+      expect(headers.get('X-Request-Id')).toBe('req-1');
+    });
+
+    it('should refuse session cookies, which Supabase does not accept', () => {
+      const token = createToken('firebase-uid-123', { issuer: SESSION_COOKIE_ISSUER });
+      const session = { uid: 'firebase-uid-123', claims: { uid: 'firebase-uid-123' }, token, type: 'sessionCookie' as const };
+
+      expect(() => createServerSupabaseClient(session, supabaseOptions))
+        .toThrow(expect.objectContaining({ code: 'ID_TOKEN_REQUIRED' }));
+    });
+
+    it('should require Supabase options', () => {
+      const session = { uid: 'uid', claims: { uid: 'uid' }, token: 'token', type: 'idToken' as const };
+
+      expect(() => createServerSupabaseClient(session, { supabaseUrl: '', supabaseAnonKey: '' }))
+        .toThrow(expect.objectContaining({ code: 'INVALID_CONFIG' }));
+    });
+  });
+});
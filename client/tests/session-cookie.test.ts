@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+/**
+ * Unit Tests for the Browser Session Cookie Helpers
+ *
+ * Tests cover:
+ * - Cookie serialization (expiry, attributes, clearing)
+ * - Minting the cookie from a signed-in client and clearing it
+ * - Round trip: the minted cookie is what the server helpers read
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  SESSION_COOKIE_NAME,
+  clearSessionCookie,
+  mintSessionCookie,
+  serializeSessionCookie,
+} from '../session-cookie';
+import { parseCookies, readSessionToken } from '../server';
+
+const expiresAt = new Date('2030-01-01T01:00:00Z');
+
+function signedInClient(token: string) {
+  return {
+    getCurrentUser: () => ({
+      getIdTokenResult: async () => ({ token, expirationTime: expiresAt.toUTCString() }),
+    }),
+  } as any;
+}
+
+describe('Session Cookie - Unit Tests', () => {
+  afterEach(() => {
+    clearSessionCookie();
+  });
+
+  describe('serializeSessionCookie', () => {
+    it('should expire the cookie with the token', () => {
+      expect(serializeSessionCookie('a.b.c', expiresAt)).toBe(
+        `${SESSION_COOKIE_NAME}=a.b.c; Path=/; Expires=${expiresAt.toUTCString()}; SameSite=Lax`
+      );
+    });
+
+    it('should apply cookie attributes', () => {
+      const cookie = serializeSessionCookie('a.b.c', expiresAt, {
+        name: 'app_session',
+        path: '/app',
+        domain: 'example.com',
+        sameSite: 'Strict',
+        secure: true,
+      });
+
+      expect(cookie).toBe(
+        `app_session=a.b.c; Path=/app; Domain=example.com; Expires=${expiresAt.toUTCString()}; SameSite=Strict; Secure`
+      );
+    });
+
+    it('should serialize a cleared cookie with an expiry in the past', () => {
+      expect(serializeSessionCookie(null, null)).toContain(`Expires=${new Date(0).toUTCString()}`);
+    });
+  });
+
+  describe('mintSessionCookie', () => {
+    it('should write the ID token for the server to read', async () => {
+      await mintSessionCookie(signedInClient('header.payload.signature'));
+
+      expect(parseCookies(document.cookie)[SESSION_COOKIE_NAME]).toBe('header.payload.signature');
+      expect(readSessionToken({ headers: { cookie: document.cookie } })).toBe('header.payload.signature');
+    });
+
+    it('should reject minting without a signed-in user', async () => {
+      await expect(mintSessionCookie({ getCurrentUser: () => null } as any))
+        .rejects.toMatchObject({ name: 'AuthenticationError', code: 'NOT_AUTHENTICATED' });
+    });
+
+    it('should remove the cookie on clear', async () => {
+      await mintSessionCookie(signedInClient('header.payload.signature'));
+
+      clearSessionCookie();
+
+      expect(parseCookies(document.cookie)[SESSION_COOKIE_NAME]).toBeUndefined();
+    });
+  });
+});
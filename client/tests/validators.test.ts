@@ -0,0 +1,59 @@
+/**
+ * Unit Tests for the Runtime Row Validators
+ *
+ * Tests cover:
+ * - Accepting rows that match the generated schema
+ * - Reporting missing columns, nulls, wrong kinds and disallowed values
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findRowProblems, isRow } from '../validators';
+
+const userRow = {
+  firebase_uid: 'test-uid-123',
+  email: 'test@example.com',
+  display_name: null,
+  photo_url: null,
+  custom_claims: { role: 'user' },
+  deleted_at: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('Row Validators - Unit Tests', () => {
+  it('should accept a valid row, including extra columns', () => {
+    expect(findRowProblems('users', userRow)).toEqual([]);
+    expect(isRow('users', { ...userRow, added_later: 1 })).toBe(true);
+  });
+
+  it('should report missing columns and nulls in NOT NULL columns', () => {
+    const { email: _email, ...withoutEmail } = userRow;
+
+    expect(findRowProblems('users', { ...withoutEmail, custom_claims: null })).toEqual([
+      'users.custom_claims must not be null',
+      'users.email is missing',
+    ]);
+  });
+
+  it('should report values of the wrong kind', () => {
+    expect(findRowProblems('users', { ...userRow, display_name: 42 })).toEqual([
+      'users.display_name must be string, got 42',
+    ]);
+  });
+
+  it('should report values outside a CHECK (... IN ...) list', () => {
+    const problems = findRowProblems('products', {
+      id: 'p1', name: 'Mug', slug: 'mug', price: 9.5, status: 'sold',
+      description: null, short_description: null, compare_at_price: null, cost_per_item: null,
+      sku: null, barcode: null, quantity: 1, track_quantity: true, continue_selling_when_out_of_stock: false,
+      weight: null, weight_unit: 'kg', featured: false, created_by: null, created_at: null, updated_at: null,
+    });
+
+    expect(problems).toEqual(['products.status must be draft | active | archived, got "sold"']);
+  });
+
+  it('should reject values that are not row objects', () => {
+    expect(isRow('users', null)).toBe(false);
+    expect(isRow('users', [userRow])).toBe(false);
+  });
+});
@@ -0,0 +1,170 @@
+// @vitest-environment jsdom
+/**
+ * Unit Tests for the Vue Bindings
+ * 
+ * Tests cover:
+ * - useAuth refs following auth state changes
+ * - Unsubscribing when the effect scope is disposed
+ * - useUserProfile refresh and error handling
+ * 
+ * Firebase is replaced by a mocked auth state so the composables can be
+ * driven through every state without network access.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { effectScope, nextTick } from 'vue';
+import { DataFetchError } from '../auth';
+import { useAuth, useUserProfile } from '../vue';
+
+const authMock = vi.hoisted(() => {
+  const initial = { status: 'signing-in', user: null };
+  const listeners = new Set<(state: any) => void>();
+  let state: any = initial;
+
+  return {
+    listeners,
+    emit(next: any) {
+      state = next;
+      listeners.forEach(listener => listener(next));
+    },
+    reset() {
+      state = initial;
+      listeners.clear();
+    },
+    getAuthState: () => state,
+    onAuthStateChange: (callback: (state: any) => void) => {
+      listeners.add(callback);
+      callback(state);
+      return () => {
+        listeners.delete(callback);
+      };
+    },
+    getUserData: vi.fn(),
+    signIn: vi.fn(),
+    signOut: vi.fn(),
+  };
+});
+
+vi.mock('../auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../auth')>()),
+  getAuthState: authMock.getAuthState,
+  onAuthStateChange: authMock.onAuthStateChange,
+  getUserData: authMock.getUserData,
+  signIn: authMock.signIn,
+  signOut: authMock.signOut,
+}));
+
+const user = { uid: 'vue-uid', email: 'vue@example.com' } as any;
+const profile = {
+  firebase_uid: 'vue-uid',
+  email: 'vue@example.com',
+  display_name: 'Vue User',
+  photo_url: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('Vue Bindings - Unit Tests', () => {
+  beforeEach(() => {
+    authMock.reset();
+    authMock.getUserData.mockReset();
+  });
+
+  describe('useAuth', () => {
+    it('should start in the signing-in state', () => {
+      const scope = effectScope();
+      const auth = scope.run(() => useAuth())!;
+
+      expect(auth.status.value).toBe('signing-in');
+      expect(auth.loading.value).toBe(true);
+      expect(auth.user.value).toBeNull();
+      scope.stop();
+    });
+
+    it('should follow auth state changes', () => {
+      const scope = effectScope();
+      const auth = scope.run(() => useAuth())!;
+
+      authMock.emit({ status: 'signed-in', user, profile });
+      expect(auth.status.value).toBe('signed-in');
+      expect(auth.user.value).toBe(user);
+      expect(auth.profile.value).toEqual(profile);
+
+      const error = new DataFetchError('Permission denied', 'PERMISSION_DENIED');
+      authMock.emit({ status: 'error', user, error });
+      expect(auth.error.value).toBe(error);
+      expect(auth.profile.value).toBeNull();
+      scope.stop();
+    });
+
+    it('should follow the given client instead of the default one', () => {
+      const client = {
+        getAuthState: () => ({ status: 'signed-in', user, profile } as const),
+        onAuthStateChange: vi.fn(() => () => undefined),
+        getUserData: vi.fn(),
+        signIn: vi.fn(),
+        signOut: vi.fn(),
+      };
+      const scope = effectScope();
+      const auth = scope.run(() => useAuth(client))!;
+
+      expect(auth.status.value).toBe('signed-in');
+      expect(auth.signOut).toBe(client.signOut);
+      expect(authMock.listeners.size).toBe(0);
+      scope.stop();
+    });
+
+    it('should unsubscribe when the scope is disposed', () => {
+      const scope = effectScope();
+      scope.run(() => useAuth());
+      expect(authMock.listeners.size).toBe(1);
+
+      scope.stop();
+
+      expect(authMock.listeners.size).toBe(0);
+    });
+  });
+
+  describe('useUserProfile', () => {
+    it('should re-read the profile on refresh', async () => {
+      authMock.emit({ status: 'signed-in', user, profile });
+      authMock.getUserData.mockResolvedValue({ ...profile, display_name: 'Renamed' });
+      const scope = effectScope();
+      const result = scope.run(() => useUserProfile())!;
+
+      await result.refresh();
+
+      expect(authMock.getUserData).toHaveBeenCalledWith('vue-uid', true);
+      expect(result.profile.value?.display_name).toBe('Renamed');
+      expect(result.loading.value).toBe(false);
+      scope.stop();
+    });
+
+    it('should drop the refreshed profile when the auth state changes', async () => {
+      authMock.emit({ status: 'signed-in', user, profile });
+      authMock.getUserData.mockResolvedValue({ ...profile, display_name: 'Renamed' });
+      const scope = effectScope();
+      const result = scope.run(() => useUserProfile())!;
+      await result.refresh();
+
+      authMock.emit({ status: 'signed-out' });
+      await nextTick();
+
+      expect(result.profile.value).toBeNull();
+      scope.stop();
+    });
+
+    it('should report refresh failures', async () => {
+      authMock.emit({ status: 'signed-in', user, profile });
+      authMock.getUserData.mockRejectedValue(new Error('boom'));
+      const scope = effectScope();
+      const result = scope.run(() => useUserProfile())!;
+
+      await result.refresh();
+
+      expect(result.error.value?.code).toBe('UNEXPECTED_ERROR');
+      expect(result.profile.value).toEqual(profile);
+      scope.stop();
+    });
+  });
+});
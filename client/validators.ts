@@ -0,0 +1,80 @@
+/**
+ * Runtime Row Validators
+ *
+ * Check rows returned by Supabase against the column information generated
+ * into database.types.ts, so a schema change that wasn't followed by
+ * `npm run generate-db-types` fails loudly instead of drifting silently.
+ *
+ * Only the columns the schema knows about are checked; extra columns (e.g.
+ * from a newer migration) are allowed.
+ */
+
+import { DATABASE_COLUMNS, TableName, Tables } from './database.types';
+
+interface ColumnSpec {
+  kind: 'string' | 'number' | 'boolean' | 'json' | 'unknown';
+  nullable: boolean;
+  array?: boolean;
+  values?: readonly string[];
+}
+
+function matchesKind(value: unknown, spec: ColumnSpec): boolean {
+  switch (spec.kind) {
+    case 'string':
+      return typeof value === 'string' && (!spec.values || spec.values.includes(value));
+    case 'number':
+      return typeof value === 'number';
+    case 'boolean':
+      return typeof value === 'boolean';
+    default:
+      return true;
+  }
+}
+
+/**
+ * Describe how a value differs from a row of the given table
+ *
+ * @returns One message per problem; empty if the value is a valid row
+ */
+export function findRowProblems(table: TableName, value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [`${table}: expected a row object`];
+  }
+
+  const row = value as Record<string, unknown>;
+  const columns: Record<string, ColumnSpec> = DATABASE_COLUMNS[table];
+  const problems: string[] = [];
+
+  for (const [name, spec] of Object.entries(columns)) {
+    if (!(name in row)) {
+      problems.push(`${table}.${name} is missing`);
+      continue;
+    }
+
+    const columnValue = row[name];
+    if (columnValue === null) {
+      if (!spec.nullable) {
+        problems.push(`${table}.${name} must not be null`);
+      }
+      continue;
+    }
+
+    const valid = spec.array
+      ? Array.isArray(columnValue) && columnValue.every(item => item === null || matchesKind(item, spec))
+      : matchesKind(columnValue, spec);
+
+    if (!valid) {
+      const expected = spec.values ? spec.values.join(' | ') : `${spec.kind}${spec.array ? '[]' : ''}`;
+      problems.push(`${table}.${name} must be ${expected}, got ${JSON.stringify(columnValue)}`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Check whether a value is a row of the given table
+ */
+export function isRow<T extends TableName>(table: T, value: unknown): value is Tables<T> {
+  return findRowProblems(table, value).length === 0;
+}
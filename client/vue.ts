@@ -0,0 +1,123 @@
+/**
+ * Vue Bindings
+ *
+ * Composables on top of auth.ts, the Vue counterpart of react.ts.
+ *
+ * - useAuth() - combined auth state plus sign-in/sign-out actions as refs
+ * - useUserProfile() - the signed-in user's public.users row, with refresh
+ *
+ * Subscriptions end when the calling component (or effect scope) is disposed.
+ * Both use the default client unless given one from createLumiBaseClient().
+ */
+
+import { ComputedRef, Ref, computed, getCurrentScope, onScopeDispose, ref, shallowRef, watch } from 'vue';
+import type { User } from 'firebase/auth';
+import {
+  AuthState,
+  AuthenticationError,
+  DataFetchError,
+  LumiBaseClient,
+  SignInProviderConfig,
+  UserData,
+  getAuthState,
+  getUserData,
+  onAuthStateChange,
+  signIn,
+  signOut,
+} from './auth';
+
+// The parts of a LumiBaseClient the composables use
+export type AuthClient = Pick<LumiBaseClient, 'getAuthState' | 'onAuthStateChange' | 'getUserData' | 'signIn' | 'signOut'>;
+
+const defaultAuthClient: AuthClient = { getAuthState, onAuthStateChange, getUserData, signIn, signOut };
+
+export interface UseAuthResult {
+  state: Ref<AuthState>;
+  status: ComputedRef<AuthState['status']>;
+  user: ComputedRef<User | null>;
+  profile: ComputedRef<UserData | null>;
+  // True while the session is being restored or a sign-in is in progress
+  loading: ComputedRef<boolean>;
+  error: ComputedRef<AuthenticationError | DataFetchError | null>;
+  signIn: (config: SignInProviderConfig) => Promise<User>;
+  signOut: () => Promise<void>;
+}
+
+export interface UseUserProfileResult {
+  profile: ComputedRef<UserData | null>;
+  loading: ComputedRef<boolean>;
+  error: ComputedRef<AuthenticationError | DataFetchError | null>;
+  // Re-read the profile, e.g. after updating it
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Current auth state as refs that update on every change
+ */
+export function useAuth(client: AuthClient = defaultAuthClient): UseAuthResult {
+  // shallowRef: Firebase User objects must not be made deeply reactive
+  const state = shallowRef<AuthState>(client.getAuthState());
+
+  const unsubscribe = client.onAuthStateChange((next) => {
+    state.value = next;
+  });
+
+  if (getCurrentScope()) {
+    onScopeDispose(unsubscribe);
+  }
+
+  return {
+    state,
+    status: computed(() => state.value.status),
+    user: computed(() => (state.value.status === 'signed-out' ? null : state.value.user)),
+    profile: computed(() => (state.value.status === 'signed-in' ? state.value.profile : null)),
+    loading: computed(() => state.value.status === 'signing-in'),
+    error: computed(() => (state.value.status === 'error' ? state.value.error : null)),
+    signIn: client.signIn,
+    signOut: client.signOut,
+  };
+}
+
+/**
+ * The signed-in user's profile from public.users
+ *
+ * The profile comes from the auth state; refresh() re-reads it from Supabase.
+ */
+export function useUserProfile(client: AuthClient = defaultAuthClient): UseUserProfileResult {
+  const auth = useAuth(client);
+  const refreshed = shallowRef<UserData | null>(null);
+  const refreshing = ref(false);
+  const refreshError = shallowRef<DataFetchError | null>(null);
+
+  // Drop a refreshed profile once the auth state delivers a new one
+  watch(auth.profile, () => {
+    refreshed.value = null;
+    refreshError.value = null;
+  });
+
+  const refresh = async () => {
+    const user = auth.user.value;
+    if (!user) {
+      return;
+    }
+
+    refreshing.value = true;
+    try {
+      refreshed.value = await client.getUserData(user.uid, true);
+      refreshError.value = null;
+    } catch (fetchError) {
+      refreshError.value = fetchError instanceof DataFetchError
+        ? fetchError
+        : new DataFetchError('Failed to refresh profile', 'UNEXPECTED_ERROR');
+    } finally {
+      refreshing.value = false;
+    }
+  };
+
+  return {
+    profile: computed(() => refreshed.value || auth.profile.value),
+    loading: computed(() => auth.loading.value || refreshing.value),
+    error: computed(() => refreshError.value || auth.error.value),
+    refresh,
+  };
+}
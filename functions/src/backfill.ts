@@ -0,0 +1,163 @@
+/**
+ * User Backfill
+ *
+ * Streams every Firebase Auth user and batch-upserts them into the Supabase
+ * public.users table, for projects whose existing users never hit the
+ * syncUserToSupabase onCreate trigger. Uses the same field mapping as the
+ * trigger and records a checkpoint after every batch so an interrupted run
+ * can resume where it stopped.
+ *
+ * Used by scripts/backfill-users.ts.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { extractUserData } from './user-data';
+import { UserLister } from './reconcile';
+
+/**
+ * Progress saved after each successfully written batch
+ */
+export interface BackfillCheckpoint {
+  pageToken: string | null;
+  batches: number;
+  processed: number;
+  updatedAt: string;
+}
+
+/**
+ * Where checkpoints are persisted (a JSON file for the CLI)
+ */
+export interface CheckpointStore {
+  load(): Promise<BackfillCheckpoint | null>;
+  save(checkpoint: BackfillCheckpoint): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface BackfillOptions {
+  batchSize?: number;
+  dryRun?: boolean;
+  checkpoint?: CheckpointStore;
+  onBatch?: (progress: BackfillCheckpoint) => void;
+}
+
+/**
+ * Result of a backfill run
+ *
+ * newUsers/existingUsers are only computed in dry-run mode.
+ */
+export interface BackfillSummary {
+  dryRun: boolean;
+  resumed: boolean;
+  batches: number;
+  processed: number;
+  upserted: number;
+  newUsers: number;
+  existingUsers: number;
+}
+
+// listUsers() returns at most 1000 users per page
+export const MAX_BATCH_SIZE = 1000;
+export const DEFAULT_BATCH_SIZE = 500;
+
+/**
+ * Count how many of the given uids already have a row in public.users
+ *
+ * @throws The Supabase error if the lookup fails
+ */
+async function countExistingUsers(supabase: SupabaseClient, uids: string[]): Promise<number> {
+  if (uids.length === 0) {
+    return 0;
+  }
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('firebase_uid')
+    .in('firebase_uid', uids);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).length;
+}
+
+/**
+ * Backfill public.users from Firebase Auth
+ *
+ * @param auth - Firebase Auth (admin.auth()) or anything that can list users
+ * @param supabase - Supabase client created with the service role key
+ * @param options - Batch size (1-1000), dry run, checkpoint store, progress callback
+ * @returns Summary of the run
+ * @throws If listing users or writing a batch fails; the checkpoint still
+ *   points at the first unwritten batch so the run can be resumed
+ */
+export async function backfillUsers(
+  auth: UserLister,
+  supabase: SupabaseClient,
+  options: BackfillOptions = {}
+): Promise<BackfillSummary> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_BATCH_SIZE) {
+    throw new RangeError(`batchSize must be an integer between 1 and ${MAX_BATCH_SIZE}`);
+  }
+
+  const dryRun = !!options.dryRun;
+  const saved = dryRun || !options.checkpoint ? null : await options.checkpoint.load();
+
+  const summary: BackfillSummary = {
+    dryRun,
+    resumed: !!saved,
+    batches: saved?.batches || 0,
+    processed: saved?.processed || 0,
+    upserted: 0,
+    newUsers: 0,
+    existingUsers: 0,
+  };
+
+  let pageToken: string | undefined = saved?.pageToken || undefined;
+
+  do {
+    const page = await auth.listUsers(batchSize, pageToken);
+    const rows = page.users.map(user => extractUserData(user));
+
+    if (dryRun) {
+      const existing = await countExistingUsers(supabase, rows.map(row => row.firebase_uid));
+      summary.existingUsers += existing;
+      summary.newUsers += rows.length - existing;
+    } else if (rows.length > 0) {
+      const { error } = await supabase
+        .from('users')
+        .upsert(rows, { onConflict: 'firebase_uid' });
+
+      if (error) {
+        throw error;
+      }
+
+      summary.upserted += rows.length;
+    }
+
+    summary.batches++;
+    summary.processed += rows.length;
+    pageToken = page.pageToken;
+
+    const progress: BackfillCheckpoint = {
+      pageToken: pageToken || null,
+      batches: summary.batches,
+      processed: summary.processed,
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (!dryRun && options.checkpoint) {
+      await options.checkpoint.save(progress);
+    }
+
+    options.onBatch?.(progress);
+  } while (pageToken);
+
+  // Finished: the next run starts from the beginning again
+  if (!dryRun && options.checkpoint) {
+    await options.checkpoint.clear();
+  }
+
+  return summary;
+}
@@ -0,0 +1,157 @@
+/**
+ * Custom Claims
+ *
+ * Sets Firebase custom claims (e.g. app_role, tenant_id, plan) and mirrors
+ * them into public.users.custom_claims so both stores agree. Firebase remains
+ * the source of truth: the claims end up in the user's ID token, which is what
+ * role-based RLS policies read.
+ *
+ * The application role lives in `app_role` because PostgREST uses the `role`
+ * claim to pick the Postgres role for the request (SET ROLE).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CustomClaims } from './user-data';
+
+/**
+ * Minimal slice of firebase-admin's Auth used for claims management
+ */
+export interface ClaimsAuth {
+  getUser(uid: string): Promise<{ uid: string; customClaims?: CustomClaims | null }>;
+  setCustomUserClaims(uid: string, customClaims: object | null): Promise<void>;
+}
+
+/**
+ * Thrown when requested claims are not acceptable to Firebase
+ */
+export class ClaimsValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClaimsValidationError';
+  }
+}
+
+/**
+ * Thrown when public.users has no row to mirror the claims into, e.g. before
+ * syncUserToSupabase has inserted it
+ */
+export class ClaimsUserNotFoundError extends Error {
+  constructor(public uid: string) {
+    super(`public.users has no row for user ${uid}`);
+    this.name = 'ClaimsUserNotFoundError';
+  }
+}
+
+// Claim names reserved by Firebase ID tokens
+const RESERVED_CLAIMS = [
+  'acr', 'amr', 'at_hash', 'aud', 'auth_time', 'azp', 'cnf', 'c_hash',
+  'exp', 'firebase', 'iat', 'iss', 'jti', 'nbf', 'nonce', 'sub',
+];
+
+// Postgres roles that a claim must never name, since PostgREST switches to the
+// role in the `role` claim
+const POSTGRES_ROLES = ['anon', 'authenticated', 'postgres', 'service_role'];
+
+// Firebase rejects custom claims payloads larger than 1000 bytes
+const MAX_CLAIMS_BYTES = 1000;
+
+/**
+ * Validate claims before they are sent to Firebase
+ *
+ * @throws {ClaimsValidationError} If claims are not a plain object, use a
+ *   reserved name, set `role`, exceed 1000 bytes or carry an app_role that
+ *   is not a non-empty string or is a Postgres role name
+ */
+export function validateClaims(claims: unknown): CustomClaims {
+  if (!claims || typeof claims !== 'object' || Array.isArray(claims)) {
+    throw new ClaimsValidationError('Claims must be an object');
+  }
+
+  const reserved = Object.keys(claims).filter(key => RESERVED_CLAIMS.includes(key));
+  if (reserved.length > 0) {
+    throw new ClaimsValidationError(`Reserved claim names cannot be used: ${reserved.join(', ')}`);
+  }
+
+  if ('role' in claims) {
+    throw new ClaimsValidationError('role is the Postgres role used by PostgREST; use app_role instead');
+  }
+
+  const appRole = (claims as CustomClaims).app_role;
+  if (appRole !== undefined && (typeof appRole !== 'string' || appRole.length === 0)) {
+    throw new ClaimsValidationError('app_role must be a non-empty string');
+  }
+
+  if (typeof appRole === 'string' && POSTGRES_ROLES.includes(appRole)) {
+    throw new ClaimsValidationError(`app_role cannot be a Postgres role name: ${appRole}`);
+  }
+
+  if (Buffer.byteLength(JSON.stringify(claims), 'utf8') > MAX_CLAIMS_BYTES) {
+    throw new ClaimsValidationError(`Claims must not exceed ${MAX_CLAIMS_BYTES} bytes`);
+  }
+
+  return claims as CustomClaims;
+}
+
+/**
+ * Write claims to public.users.custom_claims
+ *
+ * @throws {ClaimsUserNotFoundError} If no row was updated
+ * @throws The Supabase error if the update fails
+ */
+async function writeSupabaseClaims(
+  supabase: SupabaseClient,
+  uid: string,
+  claims: CustomClaims
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('users')
+    .update({ custom_claims: claims })
+    .eq('firebase_uid', uid)
+    .select('firebase_uid');
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    throw new ClaimsUserNotFoundError(uid);
+  }
+}
+
+/**
+ * Replace a user's custom claims in Firebase and Supabase
+ *
+ * Supabase is written first; if Firebase then rejects the claims, the
+ * Supabase row is restored to the previous claims so the stores never
+ * disagree.
+ *
+ * @param auth - Firebase Auth (admin.auth())
+ * @param supabase - Supabase client created with the service role key
+ * @param uid - User whose claims are replaced
+ * @param claims - New claims ({} clears all claims)
+ * @returns The claims that were applied
+ * @throws {ClaimsValidationError} If the claims are invalid
+ * @throws {ClaimsUserNotFoundError} If public.users has no row for the user
+ * @throws The Firebase or Supabase error if either write fails
+ */
+export async function updateUserClaims(
+  auth: ClaimsAuth,
+  supabase: SupabaseClient,
+  uid: string,
+  claims: unknown
+): Promise<CustomClaims> {
+  const nextClaims = validateClaims(claims);
+  const user = await auth.getUser(uid);
+  const previousClaims = user.customClaims || {};
+
+  await writeSupabaseClaims(supabase, uid, nextClaims);
+
+  try {
+    await auth.setCustomUserClaims(uid, nextClaims);
+  } catch (error) {
+    await writeSupabaseClaims(supabase, uid, previousClaims);
+    throw error;
+  }
+
+  return nextClaims;
+}
@@ -0,0 +1,109 @@
+/**
+ * Environment Configuration Rules
+ *
+ * Which variables each deployment needs and how to tell a placeholder from a
+ * real value. Shared by the functions config loader (which rejects values
+ * copied unchanged from .env.example) and the environment configuration
+ * property test (which checks that .env.example only contains placeholders).
+ * Kept free of dependencies so both can import it.
+ *
+ * The placeholder patterns are deliberately broad and only judge the example
+ * files; at runtime the loader compares against the exact example values, so
+ * a real URL or key that happens to contain "example" or "here" is accepted.
+ */
+
+// Variables the root .env.example must document (Requirements 8.3-8.5)
+export const REQUIRED_ENV_VARS = [
+  // Database configuration (Requirement 8.3)
+  'DB_USER',
+  'DB_PASSWORD',
+  'DB_NAME',
+
+  // Directus configuration (Requirement 8.3)
+  'DIRECTUS_KEY',
+  'DIRECTUS_SECRET',
+
+  // Firebase configuration (Requirement 8.4)
+  'FIREBASE_PROJECT_ID',
+  'FIREBASE_PRIVATE_KEY',
+  'FIREBASE_CLIENT_EMAIL',
+
+  // Supabase configuration (Requirement 8.5)
+  'SUPABASE_URL',
+  'SUPABASE_ANON_KEY',
+  'SUPABASE_SERVICE_ROLE_KEY',
+];
+
+// Variables the Cloud Functions need at runtime (functions/.env.example)
+export const FUNCTIONS_REQUIRED_ENV_VARS = [
+  'SUPABASE_URL',
+  'SUPABASE_SERVICE_ROLE_KEY',
+];
+
+// Variables whose example values must be obvious placeholders
+export const SENSITIVE_ENV_VARS = [
+  'DIRECTUS_KEY',
+  'DIRECTUS_SECRET',
+  'FIREBASE_PRIVATE_KEY',
+  'SUPABASE_ANON_KEY',
+  'SUPABASE_SERVICE_ROLE_KEY',
+  'SUPABASE_JWT_SECRET',
+];
+
+// Values the .env.example files ship for the variables the Cloud Functions read
+export const EXAMPLE_ENV_VALUES: Record<string, string> = {
+  SUPABASE_URL: 'https://xxxxxxxxxxxxx.supabase.co',
+  SUPABASE_SERVICE_ROLE_KEY: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+};
+
+// Patterns that indicate placeholder values in .env.example (not real secrets)
+export const PLACEHOLDER_PATTERNS = [
+  /your[_-]/i,
+  /example/i,
+  /placeholder/i,
+  /xxxxx/i,
+  /\.\.\./,
+  /changeme/i,
+  /replace/i,
+  /here/i,
+];
+
+// Patterns that indicate real secrets (should NOT be in .env.example)
+export const REAL_SECRET_PATTERNS = [
+  /^[A-Za-z0-9+/]{40,}={0,2}$/, // Base64 encoded secrets
+  /^AIza[A-Za-z0-9_-]{35}$/, // Firebase API keys
+  /^https:\/\/[a-z0-9]{20,}\.supabase\.co$/, // Real Supabase URLs
+  /^eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/, // JWT tokens
+];
+
+function stripQuotes(value: string): string {
+  return value.replace(/^["']|["']$/g, '');
+}
+
+/**
+ * Check if a value is a placeholder (not a real secret)
+ */
+export function isPlaceholder(value: string): boolean {
+  // Empty values are considered placeholders
+  if (!value || value.trim() === '') {
+    return true;
+  }
+
+  const cleanValue = stripQuotes(value);
+  return PLACEHOLDER_PATTERNS.some(pattern => pattern.test(cleanValue));
+}
+
+/**
+ * Check if a value is the one .env.example ships for the variable
+ */
+export function isExampleValue(name: string, value: string): boolean {
+  return name in EXAMPLE_ENV_VALUES && stripQuotes(value.trim()) === EXAMPLE_ENV_VALUES[name];
+}
+
+/**
+ * Check if a value looks like a real secret
+ */
+export function looksLikeRealSecret(value: string): boolean {
+  const cleanValue = stripQuotes(value);
+  return REAL_SECRET_PATTERNS.some(pattern => pattern.test(cleanValue));
+}
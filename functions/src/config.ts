@@ -0,0 +1,157 @@
+/**
+ * Functions Configuration
+ *
+ * Typed, validated settings for the Cloud Functions. Each key can come from
+ * (highest precedence first):
+ *
+ * 1. A Secret Manager secret declared with defineSecret (bound to the
+ *    functions when USE_SECRET_MANAGER=true)
+ * 2. An environment variable / params .env file (functions/.env)
+ * 3. Legacy runtime config (firebase functions:config:set supabase.url=...)
+ *
+ * Values are checked against the rules in config-rules.ts, so a value copied
+ * unchanged from .env.example is reported just like a missing one. All
+ * problems are collected into one ConfigError instead of surfacing later as
+ * failed Supabase requests.
+ */
+
+import * as functions from 'firebase-functions';
+import { defineSecret } from 'firebase-functions/params';
+import { isExampleValue } from './config-rules';
+
+export interface FunctionsConfig {
+  supabaseUrl: string;
+  supabaseServiceRoleKey: string;
+}
+
+export type ConfigValues = Record<string, string | undefined>;
+
+export interface ConfigSources {
+  // Values of defineSecret params
+  secrets?: ConfigValues;
+  // process.env, including variables loaded from functions/.env
+  env?: ConfigValues;
+  // Result of functions.config()
+  legacy?: Record<string, Record<string, string> | undefined>;
+}
+
+interface ConfigKey {
+  key: keyof FunctionsConfig;
+  // Environment variable / secret name
+  name: string;
+  // Legacy functions.config() path as [namespace, key]
+  legacy: [string, string];
+  validate?: (value: string) => string | null;
+}
+
+function validateUrl(value: string): string | null {
+  return /^https?:\/\/[^\s/]+/.test(value) ? null : 'must be an http(s) URL';
+}
+
+export const CONFIG_SCHEMA: ConfigKey[] = [
+  { key: 'supabaseUrl', name: 'SUPABASE_URL', legacy: ['supabase', 'url'], validate: validateUrl },
+  { key: 'supabaseServiceRoleKey', name: 'SUPABASE_SERVICE_ROLE_KEY', legacy: ['supabase', 'service_key'] },
+];
+
+/**
+ * Thrown when required configuration is missing or invalid
+ */
+export class ConfigError extends Error {
+  code = 'CONFIG_INVALID';
+
+  constructor(public problems: string[]) {
+    super(`Invalid functions configuration:\n- ${problems.join('\n- ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// Service role key in Secret Manager (firebase functions:secrets:set SUPABASE_SERVICE_ROLE_KEY)
+export const supabaseServiceRoleKeySecret = defineSecret('SUPABASE_SERVICE_ROLE_KEY');
+
+// Secrets to bind with runWith({ secrets }); empty unless the project opted in,
+// so deployments that use .env or legacy config don't need Secret Manager
+export const SUPABASE_SECRETS: ReturnType<typeof defineSecret>[] =
+  process.env.USE_SECRET_MANAGER === 'true' ? [supabaseServiceRoleKeySecret] : [];
+
+/**
+ * Resolve and validate the configuration from the given sources
+ *
+ * @throws {ConfigError} Listing every missing, placeholder or malformed key
+ */
+export function resolveConfig(sources: ConfigSources): FunctionsConfig {
+  const problems: string[] = [];
+  const config = {} as FunctionsConfig;
+
+  for (const entry of CONFIG_SCHEMA) {
+    const [namespace, legacyKey] = entry.legacy;
+    const value = (
+      sources.secrets?.[entry.name]
+      || sources.env?.[entry.name]
+      || sources.legacy?.[namespace]?.[legacyKey]
+      || ''
+    ).trim();
+
+    if (!value) {
+      problems.push(`${entry.name} is not set (use functions/.env, a secret or functions:config:set ${namespace}.${legacyKey})`);
+      continue;
+    }
+
+    // Only the exact example value is flagged; real values can contain words like "example"
+    if (isExampleValue(entry.name, value)) {
+      problems.push(`${entry.name} still has the placeholder value from .env.example`);
+      continue;
+    }
+
+    const invalid = entry.validate?.(value);
+    if (invalid) {
+      problems.push(`${entry.name} ${invalid}`);
+      continue;
+    }
+
+    config[entry.key] = value;
+  }
+
+  if (problems.length) {
+    throw new ConfigError(problems);
+  }
+
+  return config;
+}
+
+/**
+ * Read legacy runtime config; returns {} where functions.config() is unavailable
+ */
+function readLegacyConfig(): ConfigSources['legacy'] {
+  try {
+    return functions.config();
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Read the values of the declared secrets that are bound to this function
+ */
+function readSecrets(): ConfigValues {
+  const secrets: ConfigValues = {};
+
+  for (const secret of SUPABASE_SECRETS) {
+    secrets[secret.name] = secret.value() || undefined;
+  }
+
+  return secrets;
+}
+
+/**
+ * Load the configuration of the running function
+ *
+ * @throws {ConfigError} If a required key is missing or invalid
+ */
+export function loadFunctionsConfig(): FunctionsConfig {
+  return resolveConfig({
+    secrets: readSecrets(),
+    env: process.env,
+    legacy: readLegacyConfig(),
+  });
+}
+
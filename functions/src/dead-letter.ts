@@ -0,0 +1,323 @@
+/**
+ * Dead-Letter Queue for User Sync
+ *
+ * Sync and delete events that exhaust their in-function retries are persisted
+ * to the Supabase public.sync_failures table instead of being dropped. A
+ * scheduled function replays pending entries with exponential backoff until
+ * they succeed or reach MAX_REPLAY_ATTEMPTS, at which point they are marked
+ * dead for manual follow-up.
+ *
+ * A 'sync' replay never writes personal data back onto a deleted user: once a
+ * delete succeeds, the user's pending 'sync' entries are resolved, and a
+ * 'sync' entry is resolved without being applied when its row is
+ * soft-deleted, or when the row is gone and the user was deleted (the queue
+ * holds a 'delete' entry for the uid or the Firebase user no longer exists).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { deleteUserRow } from './user-deletion';
+import { SupabaseUserData } from './user-data';
+
+export type SyncOperation = 'sync' | 'delete';
+
+/**
+ * Minimal slice of firebase-admin's Auth used to check a user still exists
+ */
+export interface UserLookup {
+  getUser(uid: string): Promise<{ uid: string }>;
+}
+
+export type SyncFailureStatus = 'pending' | 'resolved' | 'dead';
+
+/**
+ * Row shape of public.sync_failures
+ */
+export interface SyncFailure {
+  id: string;
+  firebase_uid: string;
+  operation: SyncOperation;
+  payload: Partial<SupabaseUserData>;
+  error_code: string | null;
+  error_message: string | null;
+  attempts: number;
+  status: SyncFailureStatus;
+  next_retry_at: string | null;
+}
+
+/**
+ * Failure details captured when a sync function gives up
+ */
+export interface SyncFailureInput {
+  uid: string;
+  operation: SyncOperation;
+  payload: Partial<SupabaseUserData>;
+  error: { code?: string; message?: string } | null;
+  attempts: number;
+}
+
+/**
+ * Summary of a replay run
+ */
+export interface ReplaySummary {
+  processed: number;
+  resolved: number;
+  retrying: number;
+  dead: number;
+}
+
+export const SYNC_FAILURES_TABLE = 'sync_failures';
+
+// Stop replaying after this many total attempts and mark the entry dead
+export const MAX_REPLAY_ATTEMPTS = 10;
+
+// Replay backoff: 1 minute, doubling per attempt, capped at 6 hours
+const BASE_REPLAY_DELAY_MS = 60 * 1000;
+const MAX_REPLAY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Compute the delay before the next replay of an entry
+ *
+ * @param attempts - Attempts made so far
+ * @returns Delay in milliseconds
+ */
+export function nextReplayDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(BASE_REPLAY_DELAY_MS * 2 ** exponent, MAX_REPLAY_DELAY_MS);
+}
+
+/**
+ * Persist a failed sync/delete event to the dead-letter queue
+ *
+ * @param supabase - Supabase client created with the service role key
+ * @param failure - Failure details
+ * @param now - Current time (injectable for tests)
+ * @throws The Supabase error if the insert fails
+ */
+export async function recordSyncFailure(
+  supabase: SupabaseClient,
+  failure: SyncFailureInput,
+  now: Date = new Date()
+): Promise<void> {
+  const { error } = await supabase.from(SYNC_FAILURES_TABLE).insert({
+    firebase_uid: failure.uid,
+    operation: failure.operation,
+    payload: failure.payload,
+    error_code: failure.error?.code || null,
+    error_message: failure.error?.message || null,
+    attempts: failure.attempts,
+    status: 'pending',
+    last_attempt_at: now.toISOString(),
+    next_retry_at: new Date(now.getTime() + nextReplayDelayMs(failure.attempts)).toISOString(),
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Resolve a user's pending 'sync' entries after the user has been deleted
+ *
+ * @param supabase - Supabase client created with the service role key
+ * @param uid - Firebase UID of the deleted user
+ * @param now - Current time (injectable for tests)
+ * @throws The Supabase error if the update fails
+ */
+export async function resolvePendingSyncs(
+  supabase: SupabaseClient,
+  uid: string,
+  now: Date = new Date()
+): Promise<void> {
+  const { error } = await supabase
+    .from(SYNC_FAILURES_TABLE)
+    .update({ status: 'resolved', resolved_at: now.toISOString() })
+    .eq('firebase_uid', uid)
+    .eq('operation', 'sync')
+    .eq('status', 'pending');
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Write the outcome of a replay onto its dead-letter entry
+ *
+ * @throws The Supabase error if the update fails
+ */
+async function updateSyncFailure(
+  supabase: SupabaseClient,
+  id: string,
+  changes: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase
+    .from(SYNC_FAILURES_TABLE)
+    .update(changes)
+    .eq('id', id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Check whether a user without a public.users row has been deleted
+ *
+ * Firebase never reuses a uid, so any 'delete' entry for it counts.
+ *
+ * @throws The Supabase or Firebase error if either lookup fails
+ */
+async function isDeletedUser(auth: UserLookup, supabase: SupabaseClient, uid: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from(SYNC_FAILURES_TABLE)
+    .select('id')
+    .eq('firebase_uid', uid)
+    .eq('operation', 'delete')
+    .limit(1);
+
+  if (error) {
+    throw error;
+  }
+
+  if (data && data.length > 0) {
+    return true;
+  }
+
+  try {
+    await auth.getUser(uid);
+    return false;
+  } catch (lookupError: any) {
+    if (lookupError?.code === 'auth/user-not-found') {
+      return true;
+    }
+    throw lookupError;
+  }
+}
+
+/**
+ * Re-run the Supabase operation recorded in a dead-letter entry
+ *
+ * A 'sync' entry is skipped when its row is soft-deleted, or missing because
+ * the user was hard-deleted.
+ *
+ * @throws The Supabase error if the operation fails
+ */
+async function applySyncFailure(
+  auth: UserLookup,
+  supabase: SupabaseClient,
+  entry: SyncFailure
+): Promise<void> {
+  if (entry.operation === 'sync') {
+    const { data: row, error: readError } = await supabase
+      .from('users')
+      .select('deleted_at')
+      .eq('firebase_uid', entry.firebase_uid)
+      .maybeSingle();
+
+    if (readError) {
+      throw readError;
+    }
+
+    if (row?.deleted_at || (!row && await isDeletedUser(auth, supabase, entry.firebase_uid))) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('users')
+      .upsert(
+        { ...entry.payload, firebase_uid: entry.firebase_uid, updated_at: new Date().toISOString() },
+        { onConflict: 'firebase_uid' }
+      );
+
+    if (error) {
+      throw error;
+    }
+    return;
+  }
+
+  await deleteUserRow(supabase, entry.firebase_uid);
+  await resolvePendingSyncs(supabase, entry.firebase_uid);
+}
+
+/**
+ * Replay pending dead-letter entries whose next_retry_at has passed
+ *
+ * Each entry is marked resolved on success. On failure the attempt count is
+ * incremented and the next replay is scheduled with exponential backoff, or
+ * the entry is marked dead once MAX_REPLAY_ATTEMPTS is reached. 'sync'
+ * entries for a user deleted earlier in the batch are resolved unapplied.
+ *
+ * @param auth - Firebase Auth (admin.auth()), to check a user still exists
+ * @param supabase - Supabase client created with the service role key
+ * @param options - Batch size and current time (injectable for tests)
+ * @returns Counts of processed, resolved, retrying and dead entries
+ * @throws The Supabase error if the queue cannot be read or an entry's
+ *   status cannot be updated
+ */
+export async function replaySyncFailures(
+  auth: UserLookup,
+  supabase: SupabaseClient,
+  options: { limit?: number; now?: Date } = {}
+): Promise<ReplaySummary> {
+  const now = options.now || new Date();
+  const summary: ReplaySummary = { processed: 0, resolved: 0, retrying: 0, dead: 0 };
+
+  const { data, error } = await supabase
+    .from(SYNC_FAILURES_TABLE)
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_retry_at', now.toISOString())
+    .order('next_retry_at', { ascending: true })
+    .limit(options.limit || 50);
+
+  if (error) {
+    throw error;
+  }
+
+  // Users deleted by this batch; their later 'sync' entries must not run
+  const deletedUids = new Set<string>();
+
+  for (const entry of (data || []) as SyncFailure[]) {
+    summary.processed++;
+    const attempts = entry.attempts + 1;
+
+    try {
+      if (entry.operation === 'delete' || !deletedUids.has(entry.firebase_uid)) {
+        await applySyncFailure(auth, supabase, entry);
+      }
+    } catch (replayError: any) {
+      const dead = attempts >= MAX_REPLAY_ATTEMPTS;
+
+      await updateSyncFailure(supabase, entry.id, {
+        status: dead ? 'dead' : 'pending',
+        attempts,
+        error_code: replayError?.code || null,
+        error_message: replayError?.message || null,
+        last_attempt_at: now.toISOString(),
+        next_retry_at: dead ? null : new Date(now.getTime() + nextReplayDelayMs(attempts)).toISOString(),
+      });
+
+      if (dead) {
+        summary.dead++;
+      } else {
+        summary.retrying++;
+      }
+      continue;
+    }
+
+    if (entry.operation === 'delete') {
+      deletedUids.add(entry.firebase_uid);
+    }
+
+    await updateSyncFailure(supabase, entry.id, {
+      status: 'resolved',
+      attempts,
+      last_attempt_at: now.toISOString(),
+      resolved_at: now.toISOString(),
+    });
+
+    summary.resolved++;
+  }
+
+  return summary;
+}
@@ -0,0 +1,121 @@
+/**
+ * Identity Sync
+ *
+ * Mirrors the sign-in providers linked to a Firebase user (its providerData)
+ * into the Supabase public.user_identities table, so the CMS shows how each
+ * user logs in. Runs on every sync path: user creation, sign-in and the
+ * syncUserProfile callable that clients call after linking or unlinking a
+ * provider.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Subset of a Firebase providerData entry
+ */
+export interface FirebaseProviderFields {
+  providerId: string;
+  uid: string;
+  email?: string | null;
+  displayName?: string | null;
+  phoneNumber?: string | null;
+}
+
+/**
+ * Subset of the Firebase user record whose providers are synced
+ */
+export interface FirebaseIdentityFields {
+  uid: string;
+  providerData?: FirebaseProviderFields[] | null;
+}
+
+/**
+ * Row shape written to public.user_identities
+ */
+export interface UserIdentityRow {
+  firebase_uid: string;
+  provider_id: string;
+  provider_uid: string;
+  email: string | null;
+  display_name: string | null;
+  phone_number: string | null;
+}
+
+/**
+ * Outcome of an identity sync
+ */
+export interface IdentitySyncResult {
+  uid: string;
+  // Providers linked in Firebase, now stored
+  providers: string[];
+  // Providers that were unlinked and have been removed
+  removed: string[];
+}
+
+/**
+ * Map a Firebase user's providerData onto public.user_identities rows
+ *
+ * Anonymous users have no providers, so they get no rows.
+ *
+ * @param user - The Firebase user object
+ * @returns One row per linked provider
+ */
+export function extractIdentities(user: FirebaseIdentityFields): UserIdentityRow[] {
+  return (user.providerData || []).map(provider => ({
+    firebase_uid: user.uid,
+    provider_id: provider.providerId,
+    provider_uid: provider.uid,
+    email: provider.email || null,
+    display_name: provider.displayName || null,
+    phone_number: provider.phoneNumber || null,
+  }));
+}
+
+/**
+ * Write the user's linked providers and remove the ones that were unlinked
+ *
+ * The public.users row must exist, since identities reference it.
+ *
+ * @param supabase - Supabase client created with the service role key
+ * @param user - The Firebase user object
+ * @returns Which providers are stored and which were removed
+ * @throws The Supabase error if a write fails
+ */
+export async function syncUserIdentities(
+  supabase: SupabaseClient,
+  user: FirebaseIdentityFields
+): Promise<IdentitySyncResult> {
+  const identities = extractIdentities(user);
+  const providers = identities.map(identity => identity.provider_id);
+
+  if (identities.length > 0) {
+    const { error } = await supabase
+      .from('user_identities')
+      .upsert(identities, { onConflict: 'firebase_uid,provider_id' });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  let unlinked = supabase
+    .from('user_identities')
+    .delete()
+    .eq('firebase_uid', user.uid);
+
+  if (providers.length > 0) {
+    unlinked = unlinked.not('provider_id', 'in', `(${providers.map(id => `"${id}"`).join(',')})`);
+  }
+
+  const { data, error } = await unlinked.select('provider_id');
+
+  if (error) {
+    throw error;
+  }
+
+  return {
+    uid: user.uid,
+    providers,
+    removed: ((data || []) as { provider_id: string }[]).map(row => row.provider_id),
+  };
+}
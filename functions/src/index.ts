@@ -1,28 +1,50 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import { createClient } from '@supabase/supabase-js';
+import { SupabaseClient, createClient } from '@supabase/supabase-js';
+import { extractUserData } from './user-data';
+import { syncProfileChanges } from './profile-sync';
+import { syncUserIdentities } from './identity-sync';
+import { recordSyncFailure, replaySyncFailures, resolvePendingSyncs } from './dead-letter';
+import { runReconciliation } from './reconcile';
+import { ClaimsUserNotFoundError, ClaimsValidationError, updateUserClaims } from './claims';
+import { deleteUserRow, purgeExpiredUsers } from './user-deletion';
+import { collectUserData } from './user-export';
+import { DEFAULT_MAX_ATTEMPTS, deadlineFromTimeout, isRetryableError, withRetry } from './retry';
+import { correlationIdFrom, createLogger } from './logger';
+import { metrics, recordSyncOutcome } from './metrics';
+import { SUPABASE_SECRETS, loadFunctionsConfig } from './config';
 
 // Initialize Firebase Admin SDK
 admin.initializeApp();
 
-// Initialize Supabase client with service role key
-// Note: These will be configured via Firebase Functions config
-const supabaseUrl = functions.config().supabase?.url || process.env.SUPABASE_URL || '';
-const supabaseServiceKey = functions.config().supabase?.service_key || process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+// Supabase client with the service role key, created on first use so that
+// missing or placeholder configuration fails with a ConfigError listing every
+// problem (see config.ts) instead of as failed requests
+let supabaseClient: SupabaseClient | undefined;
 
-// Create Supabase client (will be properly configured when deployed)
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
+function getSupabase(): SupabaseClient {
+  if (!supabaseClient) {
+    const config = loadFunctionsConfig();
+    supabaseClient = createClient(config.supabaseUrl, config.supabaseServiceRoleKey);
+  }
+  return supabaseClient;
+}
+
+// Timeout of the auth triggers; their retry deadline is derived from it
+const SYNC_TIMEOUT_SECONDS = 5;
 
 /**
  * Cloud Function triggered when a new user is created in Firebase Auth
  * Syncs user data to Supabase database
  * 
+ * Linked providers are then written to public.user_identities.
+ * 
  * Requirements:
  * - 6.1: Triggers on onCreate event
  * - 6.2: Extracts firebase_uid, email, displayName, photoURL
  * - 6.3: Inserts or updates record in public.users table
  * - 6.4: Uses Supabase service role key to bypass RLS
- * - 6.5: Handles duplicate email errors with retry logic
+ * - 6.5: Retries transient errors with backoff (see retry.ts); duplicate emails fail fast
  * - 6.6: Completes within 5 seconds (configured via timeoutSeconds)
  * - 6.7: Full error handling and logging
  * 
@@ -31,114 +53,117 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey);
  */
 export const syncUserToSupabase = functions
   .runWith({
-    timeoutSeconds: 5, // Requirement 6.6: Ensure function completes within 5 seconds
-    memory: '256MB'
+    timeoutSeconds: SYNC_TIMEOUT_SECONDS, // Requirement 6.6: Ensure function completes within 5 seconds
+    memory: '256MB',
+    secrets: SUPABASE_SECRETS
   })
-  .auth.user().onCreate(async (user) => {
+  .auth.user().onCreate(async (user, context) => {
     const startTime = Date.now();
     const { uid, email, displayName, photoURL } = user;
-
-    console.log(`[syncUserToSupabase] Starting sync for user: ${uid}`, {
-      email,
-      displayName,
-      photoURL
+    const log = createLogger('syncUserToSupabase', {
+      correlationId: correlationIdFrom(context),
+      fields: { uid }
     });
 
+    log.info('Starting sync', { status: 'start', email, displayName, photoURL });
+
     // Requirement 6.2: Extract user data from Firebase user object
-    const userData = {
-      firebase_uid: uid,
-      email: email || '',
-      display_name: displayName || null,
-      photo_url: photoURL || null,
-      updated_at: new Date().toISOString(),
-    };
-
-    // Requirement 6.5: Retry logic for handling errors
-    const maxRetries = 2;
-    let lastError: any = null;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        console.log(`[syncUserToSupabase] Attempt ${attempt}/${maxRetries} for user: ${uid}`);
+    const userData = extractUserData(user);
+
+    // Requirement 6.5: Retry transient errors; permanent ones (e.g. duplicate email) go straight to the dead-letter queue
+    let attempts = 0;
+
+    try {
+      await withRetry(async (attempt) => {
+        attempts = attempt;
+        log.debug('Upserting user', { status: 'attempt', attempt, maxAttempts: DEFAULT_MAX_ATTEMPTS });
 
         // Requirement 6.3 & 6.4: Insert or update using service role key (bypasses RLS)
-        const { error } = await supabase
+        const { error } = await getSupabase()
           .from('users')
           .upsert(userData, {
             onConflict: 'firebase_uid'
           });
 
         if (error) {
-          // Log specific error details
-          console.error(`[syncUserToSupabase] Supabase error on attempt ${attempt}:`, {
-            code: error.code,
-            message: error.message,
-            details: error.details,
-            hint: error.hint
-          });
-
-          // Requirement 6.5: Handle duplicate email specifically
-          if (error.code === '23505' && error.message.includes('email')) {
-            console.warn(`[syncUserToSupabase] Duplicate email detected for user ${uid}, retrying with upsert...`);
-            lastError = error;
-            
-            // On duplicate email, try to update by firebase_uid
-            if (attempt < maxRetries) {
-              await new Promise(resolve => setTimeout(resolve, 100 * attempt)); // Exponential backoff
-              continue;
-            }
-          }
-          
           throw error;
         }
-
-        // Success - log completion time
-        const duration = Date.now() - startTime;
-        console.log(`[syncUserToSupabase] Successfully synced user ${uid} in ${duration}ms`);
-        
-        // Requirement 6.6: Verify completion time
-        if (duration > 5000) {
-          console.warn(`[syncUserToSupabase] Function took ${duration}ms, exceeding 5 second target`);
+      }, {
+        deadline: deadlineFromTimeout(SYNC_TIMEOUT_SECONDS, startTime),
+        onRetry: (error, attempt, delayMs) => {
+          log.warn(`Attempt ${attempt} failed, retrying in ${delayMs}ms`, {
+            status: 'retry',
+            attempt,
+            maxAttempts: DEFAULT_MAX_ATTEMPTS,
+            delayMs,
+            error
+          });
         }
+      });
 
-        return { success: true, uid, duration };
+      // Linked providers are informational; a failure is logged and fixed by the next sign-in
+      try {
+        await syncUserIdentities(getSupabase(), user);
+      } catch (identityError: any) {
+        log.warn('Failed to sync linked providers', { status: 'warning', error: identityError });
+      }
 
-      } catch (error: any) {
-        lastError = error;
-        console.error(`[syncUserToSupabase] Attempt ${attempt} failed:`, {
-          error: error.message,
-          code: error.code,
-          uid
-        });
+      // Success - log completion time
+      const duration = Date.now() - startTime;
+      recordSyncOutcome('sync', 'success', duration, attempts);
+      log.info('Synced user', { status: 'success', attempt: attempts, duration });
 
-        // If not last attempt, wait before retry
-        if (attempt < maxRetries) {
-          await new Promise(resolve => setTimeout(resolve, 100 * attempt));
-        }
+      // Requirement 6.6: Verify completion time
+      if (duration > 5000) {
+        log.warn(`Function took ${duration}ms, exceeding 5 second target`, { status: 'warning', duration });
       }
-    }
 
-    // All retries failed
-    const duration = Date.now() - startTime;
-    console.error(`[syncUserToSupabase] Failed to sync user ${uid} after ${maxRetries} attempts in ${duration}ms`, {
-      lastError: lastError?.message,
-      code: lastError?.code
-    });
+      return { success: true, uid, duration };
+    } catch (lastError: any) {
+      // All retries failed or the error is permanent
+      const duration = Date.now() - startTime;
+      recordSyncOutcome('sync', 'failure', duration, attempts);
+      log.error(`Failed to sync user after ${attempts} attempts`, {
+        status: 'error',
+        attempt: attempts,
+        duration,
+        retryable: isRetryableError(lastError),
+        error: lastError
+      });
+
+      // Persist to the dead-letter queue so processSyncFailures can replay it
+      try {
+        await recordSyncFailure(getSupabase(), {
+          uid,
+          operation: 'sync',
+          payload: userData,
+          error: lastError,
+          attempts
+        });
+      } catch (dlqError: any) {
+        log.error('Failed to record sync failure', { status: 'error', error: dlqError });
+      }
 
-    // Requirement 6.7: Don't throw - we don't want to block user creation in Firebase
-    return { 
-      success: false, 
-      uid,
-      error: lastError?.message || 'Unknown error',
-      attempts: maxRetries,
-      duration
-    };
+      // Requirement 6.7: Don't throw - we don't want to block user creation in Firebase
+      return {
+        success: false,
+        uid,
+        error: lastError?.message || 'Unknown error',
+        attempts,
+        duration
+      };
+    }
   });
 
 /**
  * Cloud Function triggered when a user is deleted from Firebase Auth
  * Removes user data from Supabase database
  * 
+ * By default the row is soft-deleted (deleted_at set, email anonymized) and
+ * purged by purgeDeletedUsers after USER_RETENTION_DAYS; set
+ * USER_DELETE_MODE=hard to erase it immediately. Erasure applies the policies
+ * in erasure-policies.json to rows in other tables that reference the user.
+ * 
  * Requirements:
  * - 6.1: Triggers on onDelete event
  * - 11.1: Commits changes with descriptive message
@@ -151,83 +176,470 @@ export const syncUserToSupabase = functions
  */
 export const deleteUserFromSupabase = functions
   .runWith({
-    timeoutSeconds: 5, // Ensure function completes within reasonable time
-    memory: '256MB'
+    timeoutSeconds: SYNC_TIMEOUT_SECONDS, // Ensure function completes within reasonable time
+    memory: '256MB',
+    secrets: SUPABASE_SECRETS
   })
-  .auth.user().onDelete(async (user) => {
+  .auth.user().onDelete(async (user, context) => {
     const startTime = Date.now();
     const { uid, email } = user;
-
-    console.log(`[deleteUserFromSupabase] Starting deletion for user: ${uid}`, {
-      email: email || 'unknown'
+    const log = createLogger('deleteUserFromSupabase', {
+      correlationId: correlationIdFrom(context),
+      fields: { uid }
     });
 
-    // Retry logic for handling transient errors
-    const maxRetries = 2;
-    let lastError: any = null;
+    log.info('Starting deletion', { status: 'start', email: email || 'unknown' });
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        console.log(`[deleteUserFromSupabase] Attempt ${attempt}/${maxRetries} for user: ${uid}`);
+    // Retry transient errors; permanent ones (e.g. a blocked erasure) go straight to the dead-letter queue
+    let attempts = 0;
 
-        // Delete user from Supabase using service role key (bypasses RLS)
-        const { error } = await supabase
-          .from('users')
-          .delete()
-          .eq('firebase_uid', uid);
+    try {
+      const erasure = await withRetry(async (attempt) => {
+        attempts = attempt;
+        log.debug('Deleting user', { status: 'attempt', attempt, maxAttempts: DEFAULT_MAX_ATTEMPTS });
 
-        if (error) {
-          // Log specific error details
-          console.error(`[deleteUserFromSupabase] Supabase error on attempt ${attempt}:`, {
-            code: error.code,
-            message: error.message,
-            details: error.details,
-            hint: error.hint,
-            uid
+        // Soft- or hard-delete according to USER_DELETE_MODE using service role key (bypasses RLS)
+        return deleteUserRow(getSupabase(), uid);
+      }, {
+        deadline: deadlineFromTimeout(SYNC_TIMEOUT_SECONDS, startTime),
+        onRetry: (error, attempt, delayMs) => {
+          log.warn(`Attempt ${attempt} failed, retrying in ${delayMs}ms`, {
+            status: 'retry',
+            attempt,
+            maxAttempts: DEFAULT_MAX_ATTEMPTS,
+            delayMs,
+            error
           });
-
-          throw error;
         }
+      });
+
+      // Stop processSyncFailures from replaying an earlier failed sync onto the deleted row
+      try {
+        await resolvePendingSyncs(getSupabase(), uid);
+      } catch (resolveError: any) {
+        log.warn('Failed to resolve pending sync failures', { status: 'warning', error: resolveError });
+      }
 
-        // Success - log completion time
-        const duration = Date.now() - startTime;
-        console.log(`[deleteUserFromSupabase] Successfully deleted user ${uid} in ${duration}ms`);
+      // Success - log completion time
+      const duration = Date.now() - startTime;
+      recordSyncOutcome('delete', 'success', duration, attempts);
+      log.info('Deleted user', {
+        status: 'success',
+        attempt: attempts,
+        duration,
+        mode: erasure ? 'hard' : 'soft',
+        steps: erasure?.steps
+      });
 
-        // Verify completion time
-        if (duration > 5000) {
-          console.warn(`[deleteUserFromSupabase] Function took ${duration}ms, exceeding 5 second target`);
-        }
+      // Verify completion time
+      if (duration > 5000) {
+        log.warn(`Function took ${duration}ms, exceeding 5 second target`, { status: 'warning', duration });
+      }
 
-        return { success: true, uid, duration };
+      return { success: true, uid, duration };
+    } catch (lastError: any) {
+      // All retries failed or the error is permanent
+      const duration = Date.now() - startTime;
+      recordSyncOutcome('delete', 'failure', duration, attempts);
+      log.error(`Failed to delete user after ${attempts} attempts`, {
+        status: 'error',
+        attempt: attempts,
+        duration,
+        retryable: isRetryableError(lastError),
+        error: lastError
+      });
 
-      } catch (error: any) {
-        lastError = error;
-        console.error(`[deleteUserFromSupabase] Attempt ${attempt} failed:`, {
-          error: error.message,
-          code: error.code,
-          uid
+      // Persist to the dead-letter queue so processSyncFailures can replay it
+      try {
+        await recordSyncFailure(getSupabase(), {
+          uid,
+          operation: 'delete',
+          payload: { firebase_uid: uid },
+          error: lastError,
+          attempts
         });
+      } catch (dlqError: any) {
+        log.error('Failed to record delete failure', { status: 'error', error: dlqError });
+      }
 
-        // If not last attempt, wait before retry with exponential backoff
-        if (attempt < maxRetries) {
-          await new Promise(resolve => setTimeout(resolve, 100 * attempt));
-        }
+      // Don't throw - log error but don't block Firebase user deletion
+      return {
+        success: false,
+        uid,
+        error: lastError?.message || 'Unknown error',
+        attempts,
+        duration
+      };
+    }
+  });
+
+/**
+ * Blocking function triggered before a user signs in to Firebase Auth
+ * Propagates profile changes (email, displayName, photoURL) and linked
+ * providers to Supabase
+ * 
+ * Only the columns that differ from the stored row are written. Requires
+ * Firebase Authentication with Identity Platform for blocking functions.
+ * 
+ * @param user - The Firebase user object signing in
+ */
+export const syncUserProfileOnSignIn = functions
+  .runWith({
+    timeoutSeconds: 5,
+    memory: '256MB',
+    secrets: SUPABASE_SECRETS
+  })
+  .auth.user().beforeSignIn(async (user, context) => {
+    const startTime = Date.now();
+    const log = createLogger('syncUserProfileOnSignIn', {
+      correlationId: correlationIdFrom(context),
+      fields: { uid: user.uid }
+    });
+
+    try {
+      const result = await syncProfileChanges(getSupabase(), user);
+      const identities = await syncUserIdentities(getSupabase(), user);
+      const duration = Date.now() - startTime;
+
+      log.info(`Profile ${result.status}`, {
+        status: 'success',
+        duration,
+        changed: result.changed,
+        providers: identities.providers
+      });
+    } catch (error: any) {
+      // Don't throw - a failed sync must never block sign-in
+      log.error('Failed to sync profile', { status: 'error', duration: Date.now() - startTime, error });
+    }
+  });
+
+/**
+ * Callable function that syncs the caller's Firebase profile to Supabase
+ * 
+ * Clients call this after updating their profile (updateProfile/updateEmail)
+ * or linking/unlinking a provider, so public.users and public.user_identities
+ * reflect the change without waiting for the next sign-in.
+ * 
+ * @returns Which columns were written and the linked providers
+ * @throws {functions.https.HttpsError} If the caller is not authenticated or the sync fails
+ */
+export const syncUserProfile = functions
+  .runWith({
+    timeoutSeconds: 5,
+    memory: '256MB',
+    secrets: SUPABASE_SECRETS
+  })
+  .https.onCall(async (_data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'Must be signed in to sync profile');
+    }
+
+    const startTime = Date.now();
+    const uid = context.auth.uid;
+    const log = createLogger('syncUserProfile', {
+      correlationId: correlationIdFrom(),
+      fields: { uid }
+    });
+
+    try {
+      const user = await admin.auth().getUser(uid);
+      const result = await syncProfileChanges(getSupabase(), user);
+      const identities = await syncUserIdentities(getSupabase(), user);
+
+      log.info(`Profile ${result.status}`, {
+        status: 'success',
+        duration: Date.now() - startTime,
+        changed: result.changed,
+        providers: identities.providers,
+        removed: identities.removed
+      });
+
+      return { ...result, providers: identities.providers };
+    } catch (error: any) {
+      log.error('Failed to sync profile', { status: 'error', duration: Date.now() - startTime, error });
+
+      throw new functions.https.HttpsError('internal', 'Failed to sync profile');
+    }
+  });
+
+/**
+ * Scheduled function that replays failed user syncs from the dead-letter queue
+ * 
+ * Picks up pending public.sync_failures entries whose next_retry_at has passed,
+ * re-runs the upsert/delete and reschedules failures with exponential backoff.
+ * Entries that keep failing are marked dead for manual follow-up.
+ * 
+ * To drain the queue immediately, run the Cloud Scheduler job by hand:
+ *   gcloud scheduler jobs run firebase-schedule-processSyncFailures-us-central1
+ */
+export const processSyncFailures = functions
+  .runWith({
+    timeoutSeconds: 120,
+    memory: '256MB',
+    secrets: SUPABASE_SECRETS
+  })
+  .pubsub.schedule('every 15 minutes')
+  .onRun(async (context) => {
+    const startTime = Date.now();
+    const log = createLogger('processSyncFailures', { correlationId: correlationIdFrom(context) });
+
+    try {
+      const summary = await replaySyncFailures(admin.auth(), getSupabase());
+      const duration = Date.now() - startTime;
+
+      log.info(`Replayed ${summary.processed} entries`, { status: 'success', duration, ...summary });
+
+      if (summary.dead > 0) {
+        log.error(`${summary.dead} entries exhausted their retries and were marked dead`, {
+          status: 'error',
+          dead: summary.dead
+        });
+      }
+    } catch (error: any) {
+      log.error('Failed to replay the dead-letter queue', {
+        status: 'error',
+        duration: Date.now() - startTime,
+        error
+      });
+    }
+
+    return null;
+  });
+
+/**
+ * Scheduled function that reconciles Firebase Auth users with public.users
+ * 
+ * Reports users missing from Supabase, orphaned rows whose Firebase user no
+ * longer exists and rows whose profile columns have drifted. Soft-deleted
+ * rows whose Firebase user still exists are logged, never restored. Fixes are only
+ * written when the RECONCILE_APPLY environment variable is set to "true";
+ * otherwise the job is report-only. Run scripts/reconcile-users.ts for an
+ * on-demand report.
+ */
+export const reconcileUsers = functions
+  .runWith({
+    timeoutSeconds: 540,
+    memory: '512MB',
+    secrets: SUPABASE_SECRETS
+  })
+  .pubsub.schedule('every 24 hours')
+  .onRun(async (context) => {
+    const startTime = Date.now();
+    const apply = process.env.RECONCILE_APPLY === 'true';
+    const log = createLogger('reconcileUsers', { correlationId: correlationIdFrom(context) });
+
+    try {
+      const report = await runReconciliation(admin.auth(), getSupabase(), { apply });
+      const duration = Date.now() - startTime;
+
+      log.info(`Reconciled ${report.firebaseCount} Firebase users with ${report.supabaseCount} rows`, {
+        status: 'success',
+        duration,
+        missing: report.missing.length,
+        orphaned: report.orphaned.length,
+        mismatched: report.mismatched.length,
+        softDeleted: report.softDeleted.length,
+        applied: report.applied
+      });
+
+      const drift = report.missing.length + report.orphaned.length + report.mismatched.length;
+      if (drift > 0 && !report.applied) {
+        log.warn(`Found ${drift} drifted users; set RECONCILE_APPLY=true or run scripts/reconcile-users.ts --apply to fix them`, {
+          status: 'warning',
+          missing: report.missing.map(user => user.firebase_uid),
+          orphaned: report.orphaned,
+          mismatched: report.mismatched.map(mismatch => mismatch.uid)
+        });
+      }
+
+      if (report.softDeleted.length > 0) {
+        log.warn(`${report.softDeleted.length} soft-deleted users still exist in Firebase; delete them there or restore their rows`, {
+          status: 'warning',
+          softDeleted: report.softDeleted
+        });
+      }
+    } catch (error: any) {
+      log.error('Reconciliation failed', { status: 'error', duration: Date.now() - startTime, error });
+    }
+
+    return null;
+  });
+
+/**
+ * Scheduled function that hard-deletes soft-deleted users after the retention period
+ * 
+ * Rows whose deleted_at is older than USER_RETENTION_DAYS (default 30) are
+ * erased together with referencing rows, per erasure-policies.json. Rows that
+ * cannot be erased, e.g. because a block policy applies, are logged and
+ * retried on the next run.
+ */
+export const purgeDeletedUsers = functions
+  .runWith({
+    timeoutSeconds: 300,
+    memory: '256MB',
+    secrets: SUPABASE_SECRETS
+  })
+  .pubsub.schedule('every 24 hours')
+  .onRun(async (context) => {
+    const startTime = Date.now();
+    const log = createLogger('purgeDeletedUsers', { correlationId: correlationIdFrom(context) });
+
+    try {
+      const summary = await purgeExpiredUsers(getSupabase());
+      const duration = Date.now() - startTime;
+
+      log.info(`Purged ${summary.purged.length} users deleted before ${summary.cutoff}`, {
+        status: 'success',
+        duration,
+        purged: summary.purged.length,
+        failed: summary.failed.length
+      });
+
+      if (summary.failed.length > 0) {
+        log.warn(`${summary.failed.length} users could not be purged`, {
+          status: 'warning',
+          failed: summary.failed
+        });
+      }
+    } catch (error: any) {
+      log.error('Purge failed', { status: 'error', duration: Date.now() - startTime, error });
+    }
+
+    return null;
+  });
+
+/**
+ * Callable function that sets a user's custom claims (e.g. app_role, tenant_id, plan)
+ * 
+ * Only callers whose ID token carries `app_role: "admin"` may use it. Claims are
+ * written to Firebase and mirrored into public.users.custom_claims; if either
+ * write fails, both stores keep the previous claims. The target user must
+ * refresh their ID token (getIdToken(true)) before the new claims apply.
+ * 
+ * @param data - { uid: string, claims: object } - claims replace the existing ones
+ * @returns The uid and applied claims
+ * @throws {functions.https.HttpsError} If the caller is not an admin, the input is invalid or a write fails
+ */
+export const setUserClaims = functions
+  .runWith({
+    timeoutSeconds: 10,
+    memory: '256MB',
+    secrets: SUPABASE_SECRETS
+  })
+  .https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'Must be signed in to set claims');
+    }
+
+    if (context.auth.token.app_role !== 'admin') {
+      throw new functions.https.HttpsError('permission-denied', 'Only admins can set claims');
+    }
+
+    const uid = data?.uid;
+    if (!uid || typeof uid !== 'string') {
+      throw new functions.https.HttpsError('invalid-argument', 'uid must be a non-empty string');
+    }
+
+    const log = createLogger('setUserClaims', {
+      correlationId: correlationIdFrom(),
+      fields: { uid, callerUid: context.auth.uid }
+    });
+
+    try {
+      const claims = await updateUserClaims(admin.auth(), getSupabase(), uid, data.claims);
+
+      log.info('Claims updated', { status: 'success', claims: Object.keys(claims) });
+
+      return { uid, claims };
+    } catch (error: any) {
+      if (error instanceof ClaimsValidationError) {
+        throw new functions.https.HttpsError('invalid-argument', error.message);
+      }
+
+      if (error instanceof ClaimsUserNotFoundError) {
+        throw new functions.https.HttpsError('failed-precondition', `User ${uid} has not been synced to Supabase yet`);
+      }
+
+      if (error.code === 'auth/user-not-found') {
+        throw new functions.https.HttpsError('not-found', `User ${uid} not found`);
       }
+
+      log.error('Failed to set claims', { status: 'error', error });
+
+      throw new functions.https.HttpsError('internal', 'Failed to set claims');
     }
+  });
 
-    // All retries failed
-    const duration = Date.now() - startTime;
-    console.error(`[deleteUserFromSupabase] Failed to delete user ${uid} after ${maxRetries} attempts in ${duration}ms`, {
-      lastError: lastError?.message,
-      code: lastError?.code
+/**
+ * Callable function that exports all data tied to a user (GDPR access request)
+ * 
+ * Collects the public.users row plus every row in tables that reference
+ * public.users(firebase_uid), discovered from foreign keys. Users export their
+ * own data; admins may pass a uid to export another user's data.
+ * 
+ * @param data - { uid?: string } - only admins may export another user
+ * @returns The export bundle ({ format_version, firebase_uid, exported_at, tables })
+ * @throws {functions.https.HttpsError} If the caller is not allowed or the export fails
+ */
+export const exportUserData = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '512MB',
+    secrets: SUPABASE_SECRETS
+  })
+  .https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'Must be signed in to export data');
+    }
+
+    const uid = data?.uid ?? context.auth.uid;
+    if (!uid || typeof uid !== 'string') {
+      throw new functions.https.HttpsError('invalid-argument', 'uid must be a non-empty string');
+    }
+
+    if (uid !== context.auth.uid && context.auth.token.app_role !== 'admin') {
+      throw new functions.https.HttpsError('permission-denied', 'Only admins can export other users\' data');
+    }
+
+    const startTime = Date.now();
+    const log = createLogger('exportUserData', {
+      correlationId: correlationIdFrom(),
+      fields: { uid, callerUid: context.auth.uid }
     });
 
-    // Don't throw - log error but don't block Firebase user deletion
-    return {
-      success: false,
-      uid,
-      error: lastError?.message || 'Unknown error',
-      attempts: maxRetries,
-      duration
-    };
+    try {
+      const bundle = await collectUserData(getSupabase(), uid);
+
+      log.info('Exported user data', {
+        status: 'success',
+        duration: Date.now() - startTime,
+        tables: Object.fromEntries(Object.entries(bundle.tables).map(([table, rows]) => [table, rows.length]))
+      });
+
+      return bundle;
+    } catch (error: any) {
+      log.error('Failed to export user data', { status: 'error', duration: Date.now() - startTime, error });
+
+      throw new functions.https.HttpsError('internal', 'Failed to export user data');
+    }
   });
+
+/**
+ * HTTP endpoint exposing the sync metrics of this instance
+ * in the Prometheus text format
+ *
+ * Metrics are per instance, so this is meant for scraping the emulator;
+ * production monitoring uses log-based metrics (see README). Disabled unless
+ * running in the emulator or METRICS_ENDPOINT_ENABLED=true.
+ */
+export const syncMetrics = functions.https.onRequest((req, res) => {
+  const enabled = process.env.FUNCTIONS_EMULATOR === 'true' || process.env.METRICS_ENDPOINT_ENABLED === 'true';
+
+  if (!enabled) {
+    res.status(404).send('Not found');
+    return;
+  }
+
+  res.set('Content-Type', 'text/plain; version=0.0.4');
+  res.status(200).send(metrics.toPrometheus());
+});
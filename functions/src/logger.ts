@@ -0,0 +1,147 @@
+/**
+ * Structured Logger
+ *
+ * Writes one JSON object per line so Cloud Logging parses it into jsonPayload
+ * (severity and message are picked up as the entry's severity and summary).
+ * Every entry carries the function name (event) and a correlation id so all
+ * lines of one invocation can be queried together, e.g.
+ * jsonPayload.correlationId="<eventId>".
+ */
+
+import { randomUUID } from 'crypto';
+
+export type LogSeverity = 'DEBUG' | 'INFO' | 'WARNING' | 'ERROR';
+
+export type LogStatus = 'start' | 'attempt' | 'retry' | 'success' | 'warning' | 'error';
+
+export interface LogFields {
+  status?: LogStatus;
+  uid?: string;
+  attempt?: number;
+  maxAttempts?: number;
+  duration?: number;
+  error?: unknown;
+  [key: string]: unknown;
+}
+
+export interface LoggedError {
+  code: string | null;
+  message: string;
+  details?: string;
+  hint?: string;
+}
+
+export interface LogEntry {
+  severity: LogSeverity;
+  message: string;
+  event: string;
+  correlationId: string;
+  timestamp: string;
+  status?: LogStatus;
+  uid?: string;
+  attempt?: number;
+  maxAttempts?: number;
+  duration?: number;
+  error?: LoggedError;
+  [key: string]: unknown;
+}
+
+export interface Logger {
+  readonly event: string;
+  readonly correlationId: string;
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // Logger whose entries also carry the given fields
+  child(fields: LogFields): Logger;
+}
+
+export type LogWriter = (entry: LogEntry) => void;
+
+/**
+ * Reduce an Error or Supabase/PostgREST error to its loggable fields
+ */
+export function serializeError(error: unknown): LoggedError {
+  const source = (error || {}) as { code?: unknown; message?: unknown; details?: unknown; hint?: unknown };
+
+  return {
+    code: source.code ? String(source.code) : null,
+    message: source.message ? String(source.message) : String(error),
+    ...(source.details ? { details: String(source.details) } : {}),
+    ...(source.hint ? { hint: String(source.hint) } : {}),
+  };
+}
+
+/**
+ * Correlation id for an invocation: the trigger's eventId when there is one
+ */
+export function correlationIdFrom(context?: { eventId?: string }): string {
+  return context?.eventId || randomUUID();
+}
+
+/**
+ * Build a log entry; undefined fields are dropped
+ */
+export function buildLogEntry(
+  severity: LogSeverity,
+  event: string,
+  correlationId: string,
+  message: string,
+  fields: LogFields = {},
+  now: Date = new Date()
+): LogEntry {
+  const entry: LogEntry = { severity, message, event, correlationId, timestamp: now.toISOString() };
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) {
+      entry[key] = key === 'error' ? serializeError(value) : value;
+    }
+  }
+
+  return entry;
+}
+
+/**
+ * Default writer: JSON lines on stdout, warnings and errors on stderr
+ */
+export function writeLogEntry(entry: LogEntry): void {
+  const line = JSON.stringify(entry);
+
+  if (entry.severity === 'ERROR') {
+    console.error(line);
+  } else if (entry.severity === 'WARNING') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Create a logger for one function invocation
+ *
+ * @param event - Function name, e.g. 'syncUserToSupabase'
+ * @param options - correlationId (defaults to a random UUID), fields added to
+ *   every entry, and the writer (defaults to the console)
+ */
+export function createLogger(
+  event: string,
+  options: { correlationId?: string; fields?: LogFields; write?: LogWriter } = {}
+): Logger {
+  const correlationId = options.correlationId || randomUUID();
+  const baseFields = options.fields || {};
+  const write = options.write || writeLogEntry;
+
+  const log = (severity: LogSeverity) => (message: string, fields: LogFields = {}) =>
+    write(buildLogEntry(severity, event, correlationId, message, { ...baseFields, ...fields }));
+
+  return {
+    event,
+    correlationId,
+    debug: log('DEBUG'),
+    info: log('INFO'),
+    warn: log('WARNING'),
+    error: log('ERROR'),
+    child: (fields) => createLogger(event, { correlationId, fields: { ...baseFields, ...fields }, write }),
+  };
+}
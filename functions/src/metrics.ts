@@ -0,0 +1,150 @@
+/**
+ * Sync Metrics
+ *
+ * In-process counters and latency histograms for the auth sync functions.
+ * They are per instance, so they are meant for local scraping (the emulator's
+ * syncMetrics endpoint renders them in the Prometheus text format). In Cloud
+ * Monitoring the same numbers come from log-based metrics on the structured
+ * success/error entries; see the README for the metric definitions.
+ */
+
+export type SyncOperation = 'sync' | 'delete';
+
+export type SyncOutcome = 'success' | 'failure';
+
+export type MetricLabels = Record<string, string>;
+
+// Upper bounds in ms; the 5000 bucket matches the auth triggers' target
+export const DURATION_BUCKETS_MS = [50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+export const SYNC_TOTAL = 'lumibase_sync_total';
+export const SYNC_RETRIES_TOTAL = 'lumibase_sync_retries_total';
+export const SYNC_DURATION_MS = 'lumibase_sync_duration_ms';
+
+export interface CounterSample {
+  name: string;
+  labels: MetricLabels;
+  value: number;
+}
+
+export interface HistogramSample {
+  name: string;
+  labels: MetricLabels;
+  // Cumulative counts per entry of buckets, as in Prometheus
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export interface MetricsSnapshot {
+  counters: CounterSample[];
+  histograms: HistogramSample[];
+}
+
+function seriesKey(name: string, labels: MetricLabels): string {
+  return name + JSON.stringify(Object.keys(labels).sort().map(key => [key, labels[key]]));
+}
+
+function formatLabels(labels: MetricLabels, extra: MetricLabels = {}): string {
+  const pairs = Object.entries({ ...labels, ...extra })
+    .map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+export class MetricsRegistry {
+  private counters = new Map<string, CounterSample>();
+  private histograms = new Map<string, HistogramSample>();
+
+  constructor(private bucketBounds: number[] = DURATION_BUCKETS_MS) {}
+
+  increment(name: string, labels: MetricLabels = {}, by = 1): void {
+    const key = seriesKey(name, labels);
+    const counter = this.counters.get(key) || { name, labels, value: 0 };
+    counter.value += by;
+    this.counters.set(key, counter);
+  }
+
+  observe(name: string, labels: MetricLabels, value: number): void {
+    const key = seriesKey(name, labels);
+    const histogram = this.histograms.get(key)
+      || { name, labels, buckets: this.bucketBounds.map(() => 0), sum: 0, count: 0 };
+
+    this.bucketBounds.forEach((bound, index) => {
+      if (value <= bound) {
+        histogram.buckets[index]++;
+      }
+    });
+    histogram.sum += value;
+    histogram.count++;
+    this.histograms.set(key, histogram);
+  }
+
+  snapshot(): MetricsSnapshot {
+    return {
+      counters: Array.from(this.counters.values()).map(counter => ({ ...counter })),
+      histograms: Array.from(this.histograms.values()).map(histogram => ({ ...histogram, buckets: [...histogram.buckets] })),
+    };
+  }
+
+  /**
+   * Render all series in the Prometheus text exposition format
+   */
+  toPrometheus(): string {
+    const lines: string[] = [];
+    const typed = new Set<string>();
+    const declare = (name: string, type: string) => {
+      if (!typed.has(name)) {
+        typed.add(name);
+        lines.push(`# TYPE ${name} ${type}`);
+      }
+    };
+
+    for (const counter of this.counters.values()) {
+      declare(counter.name, 'counter');
+      lines.push(`${counter.name}${formatLabels(counter.labels)} ${counter.value}`);
+    }
+
+    for (const histogram of this.histograms.values()) {
+      declare(histogram.name, 'histogram');
+      this.bucketBounds.forEach((bound, index) => {
+        lines.push(`${histogram.name}_bucket${formatLabels(histogram.labels, { le: String(bound) })} ${histogram.buckets[index]}`);
+      });
+      lines.push(`${histogram.name}_bucket${formatLabels(histogram.labels, { le: '+Inf' })} ${histogram.count}`);
+      lines.push(`${histogram.name}_sum${formatLabels(histogram.labels)} ${histogram.sum}`);
+      lines.push(`${histogram.name}_count${formatLabels(histogram.labels)} ${histogram.count}`);
+    }
+
+    return lines.length ? `${lines.join('\n')}\n` : '';
+  }
+
+  reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+}
+
+// Registry shared by all functions in this instance
+export const metrics = new MetricsRegistry();
+
+/**
+ * Record the outcome of one sync or delete invocation
+ *
+ * @param operation - Which trigger ran
+ * @param outcome - Whether the row was written (failures went to the dead-letter queue)
+ * @param durationMs - Invocation time including retries
+ * @param attempts - Attempts made; everything after the first counts as a retry
+ */
+export function recordSyncOutcome(
+  operation: SyncOperation,
+  outcome: SyncOutcome,
+  durationMs: number,
+  attempts: number,
+  registry: MetricsRegistry = metrics
+): void {
+  registry.increment(SYNC_TOTAL, { operation, status: outcome });
+  registry.observe(SYNC_DURATION_MS, { operation, status: outcome }, durationMs);
+
+  if (attempts > 1) {
+    registry.increment(SYNC_RETRIES_TOTAL, { operation }, attempts - 1);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Profile Sync
+ *
+ * Propagates profile changes (email, display name, photo, custom claims) made
+ * in Firebase Auth to the Supabase public.users table. Only the columns that
+ * actually changed are written, so concurrent edits to other columns are not
+ * overwritten.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  FirebaseUserFields,
+  PROFILE_COLUMNS,
+  ProfileColumn,
+  ProfileFields,
+  diffUserData,
+  extractUserData,
+} from './user-data';
+
+/**
+ * Outcome of a profile sync
+ */
+export interface ProfileSyncResult {
+  uid: string;
+  status: 'created' | 'updated' | 'unchanged';
+  changed: ProfileColumn[];
+}
+
+/**
+ * Diff the Firebase user record against the Supabase row and write the changes
+ *
+ * - Row missing: the full record is upserted (same as syncUserToSupabase)
+ * - Row present: only the changed columns are updated
+ * - Nothing changed: no write is issued
+ *
+ * @param supabase - Supabase client created with the service role key
+ * @param user - The Firebase user object
+ * @returns Which columns were written
+ * @throws The Supabase error if the read or write fails
+ */
+export async function syncProfileChanges(
+  supabase: SupabaseClient,
+  user: FirebaseUserFields
+): Promise<ProfileSyncResult> {
+  const userData = extractUserData(user);
+
+  const { data: current, error: selectError } = await supabase
+    .from('users')
+    .select('email, display_name, photo_url, custom_claims')
+    .eq('firebase_uid', userData.firebase_uid)
+    .maybeSingle();
+
+  if (selectError) {
+    throw selectError;
+  }
+
+  if (!current) {
+    const { error } = await supabase
+      .from('users')
+      .upsert(userData, { onConflict: 'firebase_uid' });
+
+    if (error) {
+      throw error;
+    }
+
+    return { uid: user.uid, status: 'created', changed: [...PROFILE_COLUMNS] };
+  }
+
+  const changes = diffUserData(current as ProfileFields, userData);
+  const changed = Object.keys(changes) as ProfileColumn[];
+
+  if (changed.length === 0) {
+    return { uid: user.uid, status: 'unchanged', changed };
+  }
+
+  const { error } = await supabase
+    .from('users')
+    .update(changes)
+    .eq('firebase_uid', userData.firebase_uid);
+
+  if (error) {
+    throw error;
+  }
+
+  return { uid: user.uid, status: 'updated', changed };
+}
@@ -0,0 +1,252 @@
+/**
+ * User Reconciliation
+ *
+ * Detects drift between Firebase Auth users and rows in the Supabase
+ * public.users table, e.g. users created before syncUserToSupabase was
+ * deployed or deletes that never reached Supabase. Produces a report of
+ * missing, orphaned and mismatched rows and can optionally fix them.
+ * Soft-deleted rows whose Firebase user still exists are reported on their
+ * own and never restored automatically.
+ *
+ * Used by the reconcileUsers scheduled function and scripts/reconcile-users.ts.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  FirebaseUserFields,
+  ProfileFields,
+  SupabaseUserData,
+  diffUserData,
+  extractUserData,
+} from './user-data';
+import { DeleteMode, deleteUserRow, getDeletionConfig } from './user-deletion';
+import { DELETED_USER_UID } from './user-erasure';
+
+/**
+ * Minimal slice of firebase-admin's Auth used for paging through users
+ */
+export interface UserLister {
+  listUsers(maxResults?: number, pageToken?: string): Promise<{
+    users: FirebaseUserFields[];
+    pageToken?: string;
+  }>;
+}
+
+/**
+ * A row whose profile columns differ from Firebase
+ */
+export interface UserMismatch {
+  uid: string;
+  changes: Partial<ProfileFields>;
+}
+
+/**
+ * Result of comparing Firebase Auth with public.users
+ */
+export interface ReconcileReport {
+  firebaseCount: number;
+  supabaseCount: number;
+  missing: SupabaseUserData[];
+  orphaned: string[];
+  mismatched: UserMismatch[];
+  // Soft-deleted in public.users but still present in Firebase
+  softDeleted: string[];
+  applied: boolean;
+}
+
+export interface ReconcileOptions {
+  apply?: boolean;
+  pageSize?: number;
+  deleteMode?: DeleteMode;
+}
+
+type StoredUserRow = ProfileFields & { firebase_uid: string; deleted_at?: string | null };
+
+type ReconcileDrift = Pick<ReconcileReport, 'missing' | 'orphaned' | 'mismatched' | 'softDeleted'>;
+
+// listUsers() returns at most 1000 users per page
+const FIREBASE_PAGE_SIZE = 1000;
+const SUPABASE_PAGE_SIZE = 1000;
+const WRITE_CHUNK_SIZE = 500;
+
+/**
+ * Page through every Firebase Auth user
+ */
+export async function listAllFirebaseUsers(
+  auth: UserLister,
+  pageSize: number = FIREBASE_PAGE_SIZE
+): Promise<FirebaseUserFields[]> {
+  const users: FirebaseUserFields[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const page = await auth.listUsers(pageSize, pageToken);
+    users.push(...page.users);
+    pageToken = page.pageToken;
+  } while (pageToken);
+
+  return users;
+}
+
+/**
+ * Page through every row of public.users, soft-deleted ones included,
+ * excluding the placeholder owner of reassigned rows
+ *
+ * @throws The Supabase error if a page cannot be read
+ */
+async function listAllSupabaseUsers(
+  supabase: SupabaseClient,
+  pageSize: number = SUPABASE_PAGE_SIZE
+): Promise<StoredUserRow[]> {
+  const rows: StoredUserRow[] = [];
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('users')
+      .select('firebase_uid, email, display_name, photo_url, custom_claims, deleted_at')
+      .neq('firebase_uid', DELETED_USER_UID)
+      .order('firebase_uid', { ascending: true })
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    rows.push(...((data || []) as StoredUserRow[]));
+
+    if (!data || data.length < pageSize) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * Compare Firebase users with stored rows
+ *
+ * - missing: in Firebase but not in public.users
+ * - orphaned: live in public.users but not in Firebase
+ * - mismatched: in both but with different profile columns
+ * - softDeleted: in Firebase but soft-deleted in public.users
+ *
+ * Soft-deleted rows whose Firebase user is gone are already handled.
+ */
+export function compareUsers(
+  firebaseUsers: FirebaseUserFields[],
+  rows: StoredUserRow[]
+): ReconcileDrift {
+  const rowsByUid = new Map(rows.map(row => [row.firebase_uid, row]));
+  const firebaseUids = new Set<string>();
+  const missing: SupabaseUserData[] = [];
+  const mismatched: UserMismatch[] = [];
+  const softDeleted: string[] = [];
+
+  for (const user of firebaseUsers) {
+    firebaseUids.add(user.uid);
+    const userData = extractUserData(user);
+    const row = rowsByUid.get(user.uid);
+
+    if (!row) {
+      missing.push(userData);
+      continue;
+    }
+
+    if (row.deleted_at) {
+      softDeleted.push(user.uid);
+      continue;
+    }
+
+    const changes = diffUserData(row, userData);
+    if (Object.keys(changes).length > 0) {
+      mismatched.push({ uid: user.uid, changes });
+    }
+  }
+
+  const orphaned = rows
+    .filter(row => !row.deleted_at)
+    .map(row => row.firebase_uid)
+    .filter(uid => !firebaseUids.has(uid));
+
+  return { missing, orphaned, mismatched, softDeleted };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Write the fixes described by a report to public.users
+ *
+ * Orphaned rows are removed according to the deletion mode, exactly like
+ * users deleted from Firebase (soft delete, or erasure with its policies).
+ * Soft-deleted rows are left alone: restoring a deleted user's data is a
+ * decision for an admin.
+ *
+ * @throws The Supabase error if any write fails
+ */
+async function applyReconcileReport(
+  supabase: SupabaseClient,
+  report: ReconcileDrift,
+  deleteMode: DeleteMode
+): Promise<void> {
+  for (const rows of chunk(report.missing, WRITE_CHUNK_SIZE)) {
+    const { error } = await supabase
+      .from('users')
+      .upsert(rows, { onConflict: 'firebase_uid' });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  for (const mismatch of report.mismatched) {
+    const { error } = await supabase
+      .from('users')
+      .update(mismatch.changes)
+      .eq('firebase_uid', mismatch.uid);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  for (const uid of report.orphaned) {
+    await deleteUserRow(supabase, uid, deleteMode);
+  }
+}
+
+/**
+ * Compare Firebase Auth with public.users and optionally fix the drift
+ *
+ * @param auth - Firebase Auth (admin.auth()) or anything that can list users
+ * @param supabase - Supabase client created with the service role key
+ * @param options - apply: write fixes instead of only reporting them;
+ *   deleteMode: how orphaned rows are removed (defaults to USER_DELETE_MODE)
+ * @returns The drift report
+ * @throws If listing users or applying fixes fails
+ */
+export async function runReconciliation(
+  auth: UserLister,
+  supabase: SupabaseClient,
+  options: ReconcileOptions = {}
+): Promise<ReconcileReport> {
+  // List public.users first: a user who signs up between the two listings then
+  // shows up as missing (and is upserted) instead of as an orphan to delete
+  const rows = await listAllSupabaseUsers(supabase, options.pageSize);
+  const firebaseUsers = await listAllFirebaseUsers(auth, options.pageSize);
+  const drift = compareUsers(firebaseUsers, rows);
+
+  if (options.apply) {
+    await applyReconcileReport(supabase, drift, options.deleteMode || getDeletionConfig().mode);
+  }
+
+  return {
+    firebaseCount: firebaseUsers.length,
+    supabaseCount: rows.filter(row => !row.deleted_at).length,
+    ...drift,
+    applied: !!options.apply,
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Retry Policy
+ *
+ * Shared retry loop for Cloud Functions that talk to Supabase. Retries use
+ * exponential backoff with jitter, stop early when the function's deadline
+ * budget would be exceeded, and only retry errors that can succeed on a second
+ * try (network failures, connection loss, serialization conflicts). Permanent
+ * errors such as unique violations (23505) fail immediately.
+ */
+
+export interface RetryOptions {
+  // Total attempts including the first one
+  maxAttempts?: number;
+  // Delay before the second attempt; doubles for every attempt after that
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Absolute time (ms since epoch) after which no new attempt is started
+  deadline?: number;
+  isRetryable?: (error: any) => boolean;
+  onRetry?: (error: any, attempt: number, delayMs: number) => void;
+  // Injectable for tests
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const DEFAULT_BASE_DELAY_MS = 100;
+export const DEFAULT_MAX_DELAY_MS = 2000;
+
+// Time kept back from the function timeout for logging and the dead-letter write
+export const DEFAULT_DEADLINE_RESERVE_MS = 1000;
+
+// Postgres SQLSTATE codes and classes worth retrying
+// 08: connection exception, 53: insufficient resources, 57P0x: server shutting down
+const RETRYABLE_SQLSTATE_CLASSES = ['08', '53'];
+const RETRYABLE_SQLSTATES = [
+  '40001', // serialization_failure
+  '40P01', // deadlock_detected
+  '55P03', // lock_not_available
+  '57014', // query_canceled (statement timeout)
+  '57P01', // admin_shutdown
+  '57P02', // crash_shutdown
+  '57P03', // cannot_connect_now
+];
+
+// PostgREST codes for lost/unavailable database connections
+const RETRYABLE_POSTGREST_CODES = ['PGRST000', 'PGRST001', 'PGRST002', 'PGRST003'];
+
+// Node.js network error codes
+const RETRYABLE_NETWORK_CODES = [
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN',
+  'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_SOCKET',
+];
+
+/**
+ * Decide whether an error is transient
+ *
+ * Errors without a code are treated as network failures (supabase-js reports
+ * a failed fetch with an empty code) and are retried. Any other code is
+ * permanent unless it is a known transient Postgres, PostgREST or network code.
+ */
+export function isRetryableError(error: any): boolean {
+  const code = error?.code;
+
+  if (!code) {
+    return true;
+  }
+
+  return RETRYABLE_SQLSTATES.includes(code)
+    || RETRYABLE_SQLSTATE_CLASSES.includes(String(code).slice(0, 2))
+    || RETRYABLE_POSTGREST_CODES.includes(code)
+    || RETRYABLE_NETWORK_CODES.includes(code);
+}
+
+/**
+ * Delay before the given retry: exponential backoff with equal jitter
+ *
+ * Half of the capped exponential delay is fixed, the other half random, so
+ * concurrent retries spread out without collapsing to zero delay.
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ */
+export function retryDelayMs(
+  attempt: number,
+  options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs' | 'random'> = {}
+): number {
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const random = options.random || Math.random;
+
+  const capped = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(capped / 2 + random() * (capped / 2));
+}
+
+/**
+ * Deadline for retries inside a function with the given timeoutSeconds
+ *
+ * @param timeoutSeconds - The function's runWith({ timeoutSeconds })
+ * @param startTime - When the invocation started
+ * @param reserveMs - Time kept back for work after the retries
+ * @returns Absolute deadline in ms since epoch
+ */
+export function deadlineFromTimeout(
+  timeoutSeconds: number,
+  startTime: number = Date.now(),
+  reserveMs: number = DEFAULT_DEADLINE_RESERVE_MS
+): number {
+  return startTime + Math.max(0, timeoutSeconds * 1000 - reserveMs);
+}
+
+/**
+ * Run an operation, retrying transient failures
+ *
+ * @param operation - Receives the 1-based attempt number; throw to fail the attempt
+ * @param options - Attempt limit, backoff, deadline and error classification
+ * @returns The operation's result
+ * @throws The last error when it is permanent, attempts run out or the next
+ *   retry would start after the deadline
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const isRetryable = options.isRetryable || isRetryableError;
+  const sleep = options.sleep || ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+  const now = options.now || Date.now;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryable(error)) {
+        throw error;
+      }
+
+      const delayMs = retryDelayMs(attempt, options);
+      if (options.deadline !== undefined && now() + delayMs >= options.deadline) {
+        throw error;
+      }
+
+      options.onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * User Data Mapping
+ *
+ * Maps Firebase Auth user records onto rows of the Supabase public.users table.
+ * Every sync path (onCreate trigger, profile sync) goes through these helpers so
+ * that displayName/photoURL are mapped identically everywhere.
+ */
+
+/**
+ * Subset of the Firebase user record that is synced to Supabase
+ */
+export interface FirebaseUserFields {
+  uid: string;
+  email?: string | null;
+  displayName?: string | null;
+  photoURL?: string | null;
+  customClaims?: CustomClaims | null;
+}
+
+/**
+ * Firebase custom claims (e.g. app_role, tenant_id, plan)
+ */
+export type CustomClaims = { [key: string]: unknown };
+
+/**
+ * Row shape written to public.users
+ */
+export interface SupabaseUserData {
+  firebase_uid: string;
+  email: string;
+  display_name: string | null;
+  photo_url: string | null;
+  custom_claims: CustomClaims;
+  updated_at: string;
+}
+
+/**
+ * Columns that can change after the user has been created
+ */
+export const PROFILE_COLUMNS = ['email', 'display_name', 'photo_url', 'custom_claims'] as const;
+
+export type ProfileColumn = typeof PROFILE_COLUMNS[number];
+
+export type ProfileFields = Pick<SupabaseUserData, ProfileColumn>;
+
+/**
+ * Extract user data from Firebase user object
+ *
+ * Requirement 6.2: Extracts firebase_uid, email, displayName, photoURL
+ * Custom claims are mirrored into custom_claims ({} when none are set)
+ *
+ * @param user - The Firebase user object
+ * @returns Row ready to be upserted into public.users
+ */
+export function extractUserData(user: FirebaseUserFields): SupabaseUserData {
+  const { uid, email, displayName, photoURL, customClaims } = user;
+
+  return {
+    firebase_uid: uid,
+    email: email || '',
+    display_name: displayName || null,
+    photo_url: photoURL || null,
+    custom_claims: customClaims || {},
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Compute the profile columns that differ between the stored row and the
+ * freshly extracted Firebase data
+ *
+ * @param current - Row currently stored in Supabase
+ * @param next - Data extracted from the Firebase user record
+ * @returns Only the columns whose values changed (empty object if none)
+ */
+export function diffUserData(
+  current: ProfileFields,
+  next: ProfileFields
+): Partial<ProfileFields> {
+  const changes: Partial<ProfileFields> = {};
+
+  for (const column of PROFILE_COLUMNS) {
+    if (comparableValue(column, current[column]) !== comparableValue(column, next[column])) {
+      (changes as Record<ProfileColumn, unknown>)[column] = next[column];
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Normalize a column value for comparison
+ *
+ * Claims are compared by content regardless of key order; a missing claims
+ * object is treated as {}.
+ */
+function comparableValue(column: ProfileColumn, value: unknown): unknown {
+  if (column === 'custom_claims') {
+    return stableStringify(value || {});
+  }
+  return value ?? null;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as object)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
@@ -0,0 +1,180 @@
+/**
+ * User Deletion
+ *
+ * Removes users from public.users when they are deleted in Firebase Auth.
+ * By default rows are soft-deleted: deleted_at is set and personal data is
+ * anonymized, while rows referencing the user (e.g. products.created_by) stay
+ * intact. The purge job hard-deletes soft-deleted rows once the retention
+ * period has passed, giving a grace period to recover accidental deletions.
+ * Hard deletes go through the erasure planner (user-erasure.ts), so rows in
+ * other tables that reference the user are handled per their policy.
+ *
+ * Configuration (environment variables):
+ * - USER_DELETE_MODE: 'soft' (default) or 'hard' (immediate DELETE)
+ * - USER_RETENTION_DAYS: days before soft-deleted rows are purged (default 30)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ErasureBlockedError, ErasureReport, eraseUser } from './user-erasure';
+
+export type DeleteMode = 'soft' | 'hard';
+
+export interface DeletionConfig {
+  mode: DeleteMode;
+  retentionDays: number;
+}
+
+/**
+ * A soft-deleted row that could not be purged (e.g. blocked by an erasure policy)
+ */
+export interface PurgeFailure {
+  uid: string;
+  code: string | null;
+  message: string;
+}
+
+export interface PurgeSummary {
+  cutoff: string;
+  purged: string[];
+  failed: PurgeFailure[];
+}
+
+export const DEFAULT_RETENTION_DAYS = 30;
+
+// Domain reserved by RFC 2606, so anonymized addresses can never receive mail
+const ANONYMIZED_EMAIL_DOMAIN = 'deleted.invalid';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read the deletion mode and retention period from the environment
+ *
+ * @throws {Error} If USER_DELETE_MODE or USER_RETENTION_DAYS is invalid
+ */
+export function getDeletionConfig(env: NodeJS.ProcessEnv = process.env): DeletionConfig {
+  const mode = env.USER_DELETE_MODE || 'soft';
+  if (mode !== 'soft' && mode !== 'hard') {
+    throw new Error(`USER_DELETE_MODE must be 'soft' or 'hard', got '${mode}'`);
+  }
+
+  const retentionDays = env.USER_RETENTION_DAYS === undefined || env.USER_RETENTION_DAYS === ''
+    ? DEFAULT_RETENTION_DAYS
+    : Number(env.USER_RETENTION_DAYS);
+  if (!Number.isInteger(retentionDays) || retentionDays < 0) {
+    throw new Error(`USER_RETENTION_DAYS must be a non-negative integer, got '${env.USER_RETENTION_DAYS}'`);
+  }
+
+  return { mode, retentionDays };
+}
+
+/**
+ * Placeholder email for a soft-deleted user
+ *
+ * Unique per uid so the email UNIQUE constraint holds, and frees the real
+ * address for a new account.
+ */
+export function anonymizedEmail(uid: string): string {
+  return `${uid}@${ANONYMIZED_EMAIL_DOMAIN}`;
+}
+
+/**
+ * Delete a user's row according to the configured mode
+ *
+ * - soft: sets deleted_at, anonymizes email, clears display_name and photo_url
+ *   and removes the user's linked providers (public.user_identities)
+ * - hard: erases the row and applies the erasure policies to referencing rows
+ *
+ * @param supabase - Supabase client created with the service role key
+ * @param uid - Firebase UID of the deleted user
+ * @param mode - Deletion mode (defaults to USER_DELETE_MODE)
+ * @param now - Deletion time (injectable for tests)
+ * @returns The erasure report for hard deletes, null for soft deletes
+ * @throws {ErasureBlockedError} If a block policy prevents the hard delete
+ * @throws The Supabase error if the write fails
+ */
+export async function deleteUserRow(
+  supabase: SupabaseClient,
+  uid: string,
+  mode: DeleteMode = getDeletionConfig().mode,
+  now: Date = new Date()
+): Promise<ErasureReport | null> {
+  if (mode === 'hard') {
+    const report = await eraseUser(supabase, uid);
+    if (!report.erased) {
+      throw new ErasureBlockedError(uid, report.blocked);
+    }
+    return report;
+  }
+
+  const { error } = await supabase
+    .from('users')
+    .update({
+      deleted_at: now.toISOString(),
+      email: anonymizedEmail(uid),
+      display_name: null,
+      photo_url: null,
+    })
+    .eq('firebase_uid', uid)
+    .is('deleted_at', null);
+
+  if (error) {
+    throw error;
+  }
+
+  // Linked providers hold the same personal data (emails, phone numbers)
+  const { error: identitiesError } = await supabase
+    .from('user_identities')
+    .delete()
+    .eq('firebase_uid', uid);
+
+  if (identitiesError) {
+    throw identitiesError;
+  }
+
+  return null;
+}
+
+/**
+ * Hard-delete rows that were soft-deleted before the retention cutoff
+ *
+ * Each row is erased in its own transaction with the erasure policies
+ * applied, so a row that is blocked or fails does not stop the others from
+ * being purged; such rows are reported in `failed` and retried on the next
+ * run.
+ *
+ * @param supabase - Supabase client created with the service role key
+ * @param options - Retention period, batch size and current time
+ * @returns The cutoff used and which rows were purged or failed
+ * @throws The Supabase error if the candidates cannot be read
+ */
+export async function purgeExpiredUsers(
+  supabase: SupabaseClient,
+  options: { retentionDays?: number; limit?: number; now?: Date } = {}
+): Promise<PurgeSummary> {
+  const now = options.now || new Date();
+  const retentionDays = options.retentionDays ?? getDeletionConfig().retentionDays;
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS).toISOString();
+  const summary: PurgeSummary = { cutoff, purged: [], failed: [] };
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('firebase_uid')
+    .lt('deleted_at', cutoff)
+    .order('deleted_at', { ascending: true })
+    .limit(options.limit || 500);
+
+  if (error) {
+    throw error;
+  }
+
+  for (const { firebase_uid: uid } of (data || []) as { firebase_uid: string }[]) {
+    try {
+      await deleteUserRow(supabase, uid, 'hard', now);
+      summary.purged.push(uid);
+    } catch (purgeError: any) {
+      summary.failed.push({ uid, code: purgeError.code || null, message: purgeError.message });
+    }
+  }
+
+  return summary;
+}
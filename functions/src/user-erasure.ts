@@ -0,0 +1,161 @@
+/**
+ * User Erasure
+ *
+ * Hard-deletes a user together with the rows that reference it. Each foreign
+ * key to public.users(firebase_uid) gets a policy from erasure-policies.json:
+ *
+ * - cascade: delete the referencing rows
+ * - anonymize: set the reference (and listed personal data columns) to NULL
+ * - reassign: point the reference at the placeholder "deleted user" and clear
+ *   the listed columns, for rows that must be kept (e.g. orders)
+ * - block: refuse to erase while referencing rows exist
+ *
+ * References without a configured policy are left to their ON DELETE action
+ * when it is CASCADE/SET NULL/SET DEFAULT, and block otherwise, so an
+ * unplanned table never causes a foreign key violation halfway through.
+ * The plan runs in one transaction via public.erase_user()
+ * (init-scripts/08-user-erasure.sql).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import defaultPolicies from './erasure-policies.json';
+import { UserDataReference, loadUserDataReferences } from './user-export';
+
+export type ErasurePolicy = 'cascade' | 'anonymize' | 'reassign' | 'block';
+
+export interface TablePolicy {
+  policy: ErasurePolicy;
+  // Personal data columns cleared by anonymize/reassign
+  columns?: string[];
+}
+
+/**
+ * Policies keyed by "schema.table.column" or "schema.table"
+ * (the latter applies to every reference from that table)
+ */
+export interface ErasureConfig {
+  tables: Record<string, TablePolicy>;
+}
+
+export interface ErasureStep {
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+  policy: ErasurePolicy;
+  columns: string[];
+  reassign_to?: string;
+}
+
+export interface ErasureReport {
+  uid: string;
+  erased: boolean;
+  // "schema.table.column" references that still have rows under a block policy
+  blocked: string[];
+  steps: { table: string; column: string; policy: ErasurePolicy; rows: number }[];
+}
+
+/**
+ * Thrown when an erasure is refused because of a block policy
+ */
+export class ErasureBlockedError extends Error {
+  code = 'ERASURE_BLOCKED';
+
+  constructor(public uid: string, public blocked: string[]) {
+    super(`Erasure of user ${uid} blocked by ${blocked.join(', ')}`);
+    this.name = 'ErasureBlockedError';
+  }
+}
+
+// Owner of reassigned rows, created by init-scripts/08-user-erasure.sql
+export const DELETED_USER_UID = '__deleted_user__';
+
+const POLICIES: ErasurePolicy[] = ['cascade', 'anonymize', 'reassign', 'block'];
+
+// ON DELETE actions that already resolve the reference without our help
+const DATABASE_HANDLED = ['CASCADE', 'SET NULL', 'SET DEFAULT'];
+
+/**
+ * Check that every configured policy is known
+ *
+ * @throws {Error} If a policy name or column list is invalid
+ */
+export function validateErasureConfig(config: ErasureConfig): ErasureConfig {
+  for (const [key, tablePolicy] of Object.entries(config.tables || {})) {
+    if (!POLICIES.includes(tablePolicy.policy)) {
+      throw new Error(`Unknown erasure policy '${tablePolicy.policy}' for ${key}; expected one of ${POLICIES.join(', ')}`);
+    }
+    if (tablePolicy.columns !== undefined && !Array.isArray(tablePolicy.columns)) {
+      throw new Error(`Erasure columns for ${key} must be an array`);
+    }
+  }
+  return config;
+}
+
+/**
+ * Build the erasure plan for the direct references to public.users
+ *
+ * @param references - Foreign key graph from user_data_references()
+ * @param config - Per-table policies
+ * @returns One step per reference that needs handling, in graph order
+ */
+export function planUserErasure(
+  references: UserDataReference[],
+  config: ErasureConfig = defaultPolicies as ErasureConfig
+): ErasureStep[] {
+  const steps: ErasureStep[] = [];
+
+  for (const reference of references) {
+    // Deeper references hang off rows handled by their parent's step
+    if (reference.depth !== 1) {
+      continue;
+    }
+
+    const table = `${reference.table_schema}.${reference.table_name}`;
+    const tablePolicy = config.tables[`${table}.${reference.column_name}`] || config.tables[table];
+
+    if (!tablePolicy && DATABASE_HANDLED.includes(reference.on_delete)) {
+      continue;
+    }
+
+    const policy = tablePolicy ? tablePolicy.policy : 'block';
+    steps.push({
+      table_schema: reference.table_schema,
+      table_name: reference.table_name,
+      column_name: reference.column_name,
+      policy,
+      columns: tablePolicy?.columns || [],
+      ...(policy === 'reassign' ? { reassign_to: DELETED_USER_UID } : {}),
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * Erase a user and apply the erasure plan to every referencing table
+ *
+ * @param supabase - Supabase client created with the service role key
+ * @param uid - Firebase UID of the user to erase
+ * @param options - config: per-table policies; references: pre-loaded graph
+ * @returns What was touched; erased is false when a block policy applied
+ * @throws The Supabase error if the plan cannot be loaded or executed
+ *   (the transaction is rolled back, so nothing is changed)
+ */
+export async function eraseUser(
+  supabase: SupabaseClient,
+  uid: string,
+  options: { config?: ErasureConfig; references?: UserDataReference[] } = {}
+): Promise<ErasureReport> {
+  const config = validateErasureConfig(options.config || defaultPolicies as ErasureConfig);
+  const references = options.references || await loadUserDataReferences(supabase);
+  const steps = planUserErasure(references, config);
+
+  const { data, error } = await supabase.rpc('erase_user', { target_uid: uid, steps });
+
+  if (error) {
+    throw error;
+  }
+
+  const result = data as Omit<ErasureReport, 'uid'>;
+  return { uid, erased: result.erased, blocked: result.blocked || [], steps: result.steps || [] };
+}
@@ -0,0 +1,175 @@
+/**
+ * User Data Export
+ *
+ * Collects every row tied to a firebase_uid for GDPR access requests
+ * ("give me all my data"). Tables are discovered from foreign keys via the
+ * public.user_data_references() function (init-scripts/07-user-data-references.sql),
+ * so template tables such as orders, order_items and products are included
+ * without code changes.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * A foreign key linking a table into the user's data graph
+ */
+export interface UserDataReference {
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+  referenced_schema: string;
+  referenced_table: string;
+  referenced_column: string;
+  on_delete: string;
+  depth: number;
+}
+
+type Row = Record<string, unknown>;
+
+/**
+ * Export bundle returned to the user
+ *
+ * `tables` is keyed by "schema.table"; public.users is always present.
+ */
+export interface UserDataExport {
+  format_version: 1;
+  firebase_uid: string;
+  exported_at: string;
+  tables: Record<string, Row[]>;
+}
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+const USERS_TABLE = 'public.users';
+
+// Keeps .in() filters well below PostgREST's URL length limit
+const IN_FILTER_CHUNK_SIZE = 100;
+
+/**
+ * Load the foreign keys that tie tables to public.users
+ *
+ * @throws The Supabase error if the function cannot be called
+ */
+export async function loadUserDataReferences(supabase: SupabaseClient): Promise<UserDataReference[]> {
+  const { data, error } = await supabase.rpc('user_data_references');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as UserDataReference[];
+}
+
+/**
+ * Fetch rows whose column matches any of the given values
+ *
+ * @throws The Supabase error if a query fails
+ */
+async function selectRowsWhereIn(
+  supabase: SupabaseClient,
+  schema: string,
+  table: string,
+  column: string,
+  values: unknown[]
+): Promise<Row[]> {
+  const rows: Row[] = [];
+
+  for (let i = 0; i < values.length; i += IN_FILTER_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .schema(schema)
+      .from(table)
+      .select('*')
+      .in(column, values.slice(i, i + IN_FILTER_CHUNK_SIZE));
+
+    if (error) {
+      throw error;
+    }
+
+    rows.push(...((data || []) as Row[]));
+  }
+
+  return rows;
+}
+
+/**
+ * Append rows to a table in the bundle, skipping rows already present
+ * (a table can be reached through several foreign keys)
+ */
+function addRows(tables: Record<string, Row[]>, key: string, rows: Row[]): void {
+  const existing = tables[key] || [];
+  const seen = new Set(existing.map(row => JSON.stringify(row)));
+
+  for (const row of rows) {
+    const serialized = JSON.stringify(row);
+    if (!seen.has(serialized)) {
+      seen.add(serialized);
+      existing.push(row);
+    }
+  }
+
+  tables[key] = existing;
+}
+
+/**
+ * Collect every row tied to a user
+ *
+ * Starts from the public.users row and follows the reference graph level by
+ * level: rows of a table are looked up by the key values of the parent rows
+ * collected before it.
+ *
+ * @param supabase - Supabase client created with the service role key
+ * @param uid - Firebase UID of the user whose data is exported
+ * @param options - references: pre-loaded graph; now: export time (for tests)
+ * @returns The export bundle
+ * @throws The Supabase error if any query fails
+ */
+export async function collectUserData(
+  supabase: SupabaseClient,
+  uid: string,
+  options: { references?: UserDataReference[]; now?: Date } = {}
+): Promise<UserDataExport> {
+  const references = options.references || await loadUserDataReferences(supabase);
+  const tables: Record<string, Row[]> = {};
+
+  const { data: users, error } = await supabase
+    .from('users')
+    .select('*')
+    .eq('firebase_uid', uid);
+
+  if (error) {
+    throw error;
+  }
+
+  addRows(tables, USERS_TABLE, (users || []) as Row[]);
+
+  const ordered = [...references].sort((a, b) => a.depth - b.depth);
+  for (const reference of ordered) {
+    const parentKey = `${reference.referenced_schema}.${reference.referenced_table}`;
+    const parentValues = [...new Set(
+      (tables[parentKey] || [])
+        .map(row => row[reference.referenced_column])
+        .filter(value => value !== null && value !== undefined)
+    )];
+
+    if (parentValues.length === 0) {
+      continue;
+    }
+
+    const rows = await selectRowsWhereIn(
+      supabase,
+      reference.table_schema,
+      reference.table_name,
+      reference.column_name,
+      parentValues
+    );
+
+    addRows(tables, `${reference.table_schema}.${reference.table_name}`, rows);
+  }
+
+  return {
+    format_version: EXPORT_FORMAT_VERSION,
+    firebase_uid: uid,
+    exported_at: (options.now || new Date()).toISOString(),
+    tables,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Integration Tests for User Backfill against the Firebase Auth Emulator
+ *
+ * Creates real users in the Auth emulator, runs the backfill and checks the
+ * rows sent to Supabase (mocked). Skipped unless FIREBASE_AUTH_EMULATOR_HOST
+ * is set, e.g. via:
+ *
+ *   npm run test:integration:emulator
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import * as admin from 'firebase-admin';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { backfillUsers } from '../src/backfill';
+
+const emulatorHost = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+const projectId = process.env.GCLOUD_PROJECT || 'demo-lumibase';
+const TEST_USER_COUNT = 7;
+
+describe('User Backfill - Auth Emulator Integration', () => {
+  let app: admin.app.App | null = null;
+  const createdUids: string[] = [];
+
+  beforeAll(async () => {
+    if (!emulatorHost) {
+      return;
+    }
+
+    app = admin.initializeApp({ projectId }, 'backfill-integration-test');
+
+    for (let i = 0; i < TEST_USER_COUNT; i++) {
+      const user = await app.auth().createUser({
+        uid: `backfill-it-${i}`,
+        email: `backfill-it-${i}@example.com`,
+        displayName: `Backfill ${i}`,
+      });
+      createdUids.push(user.uid);
+    }
+  });
+
+  afterAll(async () => {
+    if (app) {
+      await app.auth().deleteUsers(createdUids);
+      await app.delete();
+    }
+  });
+
+  it('should backfill every emulator user in batches', async () => {
+    if (!app) {
+      console.warn('Skipping test: FIREBASE_AUTH_EMULATOR_HOST is not set');
+      return;
+    }
+
+    const upsert = vi.fn().mockResolvedValue({ data: null, error: null });
+    const supabase = { from: vi.fn(() => ({ upsert })) } as unknown as SupabaseClient;
+
+    const summary = await backfillUsers(app.auth(), supabase, { batchSize: 3 });
+
+    const upsertedRows = upsert.mock.calls.flatMap(call => call[0]);
+    const upsertedUids = upsertedRows.map((row: { firebase_uid: string }) => row.firebase_uid);
+
+    expect(summary.processed).toBeGreaterThanOrEqual(TEST_USER_COUNT);
+    expect(summary.batches).toBeGreaterThanOrEqual(Math.ceil(TEST_USER_COUNT / 3));
+    expect(upsertedUids).toEqual(expect.arrayContaining(createdUids));
+    expect(upsertedRows).toContainEqual(
+      expect.objectContaining({
+        firebase_uid: 'backfill-it-0',
+        email: 'backfill-it-0@example.com',
+        display_name: 'Backfill 0',
+        photo_url: null,
+      })
+    );
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit Tests for User Backfill
+ *
+ * Tests cover:
+ * - Batch upserts with the syncUserToSupabase field mapping
+ * - Checkpoints saved after each batch and cleared on completion
+ * - Resuming from a saved checkpoint
+ * - Dry-run summary without writes
+ * - Batch size validation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { FirebaseUserFields } from '../src/user-data';
+import { UserLister } from '../src/reconcile';
+import { BackfillCheckpoint, CheckpointStore, backfillUsers } from '../src/backfill';
+
+/**
+ * Mock Firebase Auth returning the given users in pages of maxResults
+ */
+function createMockAuth(users: FirebaseUserFields[]): UserLister {
+  return {
+    listUsers: vi.fn(async (maxResults: number = 1000, pageToken?: string) => {
+      const start = pageToken ? parseInt(pageToken, 10) : 0;
+      const end = start + maxResults;
+      return {
+        users: users.slice(start, end),
+        pageToken: end < users.length ? String(end) : undefined,
+      };
+    }),
+  };
+}
+
+/**
+ * Mock Supabase client; existingUids are reported as already present
+ */
+function createMockSupabaseClient(existingUids: string[] = []) {
+  const upsert = vi.fn().mockResolvedValue({ data: null, error: null });
+  const selectIn = vi.fn(async (_column: string, uids: string[]) => ({
+    data: uids.filter(uid => existingUids.includes(uid)).map(uid => ({ firebase_uid: uid })),
+    error: null,
+  }));
+
+  const from = vi.fn(() => ({
+    upsert,
+    select: () => ({ in: selectIn }),
+  }));
+
+  return {
+    client: { from } as unknown as SupabaseClient,
+    mocks: { upsert, selectIn },
+  };
+}
+
+/**
+ * In-memory checkpoint store
+ */
+function createMemoryCheckpointStore(initial: BackfillCheckpoint | null = null) {
+  let current = initial;
+  const store: CheckpointStore & { saved: BackfillCheckpoint[] } = {
+    saved: [],
+    load: vi.fn(async () => current),
+    save: vi.fn(async (checkpoint: BackfillCheckpoint) => {
+      current = checkpoint;
+      store.saved.push(checkpoint);
+    }),
+    clear: vi.fn(async () => {
+      current = null;
+    }),
+  };
+  return store;
+}
+
+const users: FirebaseUserFields[] = Array.from({ length: 5 }, (_, i) => ({
+  uid: `backfill-uid-${i}`,
+  email: `user${i}@test.com`,
+  displayName: i % 2 === 0 ? `User ${i}` : null,
+}));
+
+describe('User Backfill - Unit Tests', () => {
+  it('should upsert every user in batches using the shared field mapping', async () => {
+    const { client, mocks } = createMockSupabaseClient();
+
+    const summary = await backfillUsers(createMockAuth(users), client, { batchSize: 2 });
+
+    expect(summary).toMatchObject({ dryRun: false, resumed: false, batches: 3, processed: 5, upserted: 5 });
+    expect(mocks.upsert).toHaveBeenCalledTimes(3);
+    expect(mocks.upsert).toHaveBeenNthCalledWith(
+      1,
+      [
+        expect.objectContaining({ firebase_uid: 'backfill-uid-0', email: 'user0@test.com', display_name: 'User 0', photo_url: null }),
+        expect.objectContaining({ firebase_uid: 'backfill-uid-1', email: 'user1@test.com', display_name: null, photo_url: null }),
+      ],
+      { onConflict: 'firebase_uid' }
+    );
+  });
+
+  it('should save a checkpoint after each batch and clear it when done', async () => {
+    const { client } = createMockSupabaseClient();
+    const checkpoint = createMemoryCheckpointStore();
+
+    await backfillUsers(createMockAuth(users), client, { batchSize: 2, checkpoint });
+
+    expect(checkpoint.saved.map(saved => saved.pageToken)).toEqual(['2', '4', null]);
+    expect(checkpoint.clear).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resume from a saved checkpoint', async () => {
+    const { client, mocks } = createMockSupabaseClient();
+    const auth = createMockAuth(users);
+    const checkpoint = createMemoryCheckpointStore({
+      pageToken: '4',
+      batches: 2,
+      processed: 4,
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    const summary = await backfillUsers(auth, client, { batchSize: 2, checkpoint });
+
+    expect(auth.listUsers).toHaveBeenCalledWith(2, '4');
+    expect(summary).toMatchObject({ resumed: true, batches: 3, processed: 5, upserted: 1 });
+    expect(mocks.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the checkpoint at the failed batch when an upsert fails', async () => {
+    const { client, mocks } = createMockSupabaseClient();
+    const checkpoint = createMemoryCheckpointStore();
+    const upsertError = { code: 'TIMEOUT', message: 'Request timeout' };
+    mocks.upsert
+      .mockResolvedValueOnce({ data: null, error: null })
+      .mockResolvedValueOnce({ data: null, error: upsertError });
+
+    await expect(
+      backfillUsers(createMockAuth(users), client, { batchSize: 2, checkpoint })
+    ).rejects.toEqual(upsertError);
+
+    expect(await checkpoint.load()).toMatchObject({ pageToken: '2', batches: 1, processed: 2 });
+    expect(checkpoint.clear).not.toHaveBeenCalled();
+  });
+
+  it('should summarize new and existing users in dry-run mode without writing', async () => {
+    const { client, mocks } = createMockSupabaseClient(['backfill-uid-1', 'backfill-uid-3']);
+    const checkpoint = createMemoryCheckpointStore();
+
+    const summary = await backfillUsers(createMockAuth(users), client, { batchSize: 2, dryRun: true, checkpoint });
+
+    expect(summary).toMatchObject({ dryRun: true, processed: 5, upserted: 0, newUsers: 3, existingUsers: 2 });
+    expect(mocks.upsert).not.toHaveBeenCalled();
+    expect(checkpoint.load).not.toHaveBeenCalled();
+    expect(checkpoint.save).not.toHaveBeenCalled();
+  });
+
+  it('should reject batch sizes outside 1-1000', async () => {
+    const { client } = createMockSupabaseClient();
+
+    await expect(backfillUsers(createMockAuth(users), client, { batchSize: 0 })).rejects.toThrow(RangeError);
+    await expect(backfillUsers(createMockAuth(users), client, { batchSize: 1001 })).rejects.toThrow(RangeError);
+  });
+});
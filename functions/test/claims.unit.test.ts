@@ -0,0 +1,190 @@
+/**
+ * Unit Tests for Custom Claims
+ *
+ * Tests cover:
+ * - Mirroring custom claims in the shared field extraction
+ * - Detecting claim changes regardless of key order
+ * - Claims validation (reserved names, size, app_role type)
+ * - Updating Firebase and Supabase together, with rollback on failure
+ * - Refusing to update Firebase when public.users has no row
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { diffUserData, extractUserData } from '../src/user-data';
+import {
+  ClaimsAuth,
+  ClaimsUserNotFoundError,
+  ClaimsValidationError,
+  updateUserClaims,
+  validateClaims,
+} from '../src/claims';
+
+/**
+ * Mock Supabase client recording updates to public.users
+ */
+function createMockSupabaseClient() {
+  const updateSelect = vi.fn().mockResolvedValue({ data: [{ firebase_uid: 'target-uid' }], error: null });
+  const updateEq = vi.fn(() => ({ select: updateSelect }));
+  const update = vi.fn(() => ({ eq: updateEq }));
+  const from = vi.fn(() => ({ update }));
+
+  return {
+    client: { from } as unknown as SupabaseClient,
+    mocks: { from, update, updateEq, updateSelect },
+  };
+}
+
+/**
+ * Mock Firebase Auth holding one user's claims
+ */
+function createMockAuth(customClaims: Record<string, unknown> | undefined) {
+  const auth = {
+    getUser: vi.fn(async (uid: string) => ({ uid, customClaims })),
+    setCustomUserClaims: vi.fn(async () => undefined),
+  };
+  return auth as typeof auth & ClaimsAuth;
+}
+
+const baseRow = {
+  email: 'user@test.com',
+  display_name: 'User',
+  photo_url: null,
+};
+
+describe('Custom Claims - Unit Tests', () => {
+  describe('Claims extraction and diffing', () => {
+    it('should mirror custom claims into custom_claims', () => {
+      const extracted = extractUserData({
+        uid: 'claims-uid',
+        customClaims: { app_role: 'editor', tenant_id: 'acme' },
+      });
+
+      expect(extracted.custom_claims).toEqual({ app_role: 'editor', tenant_id: 'acme' });
+    });
+
+    it('should default custom_claims to an empty object', () => {
+      expect(extractUserData({ uid: 'no-claims-uid' }).custom_claims).toEqual({});
+    });
+
+    it('should ignore key order when comparing claims', () => {
+      const changes = diffUserData(
+        { ...baseRow, custom_claims: { app_role: 'admin', plan: 'pro' } },
+        { ...baseRow, custom_claims: { plan: 'pro', app_role: 'admin' } }
+      );
+
+      expect(changes).toEqual({});
+    });
+
+    it('should report changed claims', () => {
+      const changes = diffUserData(
+        { ...baseRow, custom_claims: { app_role: 'editor' } },
+        { ...baseRow, custom_claims: { app_role: 'admin' } }
+      );
+
+      expect(changes).toEqual({ custom_claims: { app_role: 'admin' } });
+    });
+  });
+
+  describe('validateClaims', () => {
+    it('should accept app_role, tenant_id and plan claims', () => {
+      const claims = { app_role: 'admin', tenant_id: 'acme', plan: 'pro' };
+
+      expect(validateClaims(claims)).toBe(claims);
+    });
+
+    it('should accept an empty object to clear claims', () => {
+      expect(validateClaims({})).toEqual({});
+    });
+
+    it('should reject non-object claims', () => {
+      expect(() => validateClaims(null)).toThrow(ClaimsValidationError);
+      expect(() => validateClaims('admin')).toThrow(ClaimsValidationError);
+      expect(() => validateClaims(['admin'])).toThrow(ClaimsValidationError);
+    });
+
+    it('should reject reserved claim names', () => {
+      expect(() => validateClaims({ sub: 'other-uid' })).toThrow('Reserved claim names');
+      expect(() => validateClaims({ firebase: {} })).toThrow('Reserved claim names');
+    });
+
+    it('should reject a non-string app_role', () => {
+      expect(() => validateClaims({ app_role: 1 })).toThrow('app_role must be a non-empty string');
+      expect(() => validateClaims({ app_role: '' })).toThrow('app_role must be a non-empty string');
+    });
+
+    it('should reject the role claim used by PostgREST', () => {
+      expect(() => validateClaims({ role: 'admin' })).toThrow('use app_role instead');
+      expect(() => validateClaims({ role: 'service_role' })).toThrow(ClaimsValidationError);
+    });
+
+    it('should reject Postgres role names as app_role', () => {
+      for (const role of ['service_role', 'anon', 'authenticated', 'postgres']) {
+        expect(() => validateClaims({ app_role: role })).toThrow('Postgres role name');
+      }
+    });
+
+    it('should reject claims larger than 1000 bytes', () => {
+      expect(() => validateClaims({ note: 'a'.repeat(1000) })).toThrow('1000 bytes');
+    });
+  });
+
+  describe('updateUserClaims', () => {
+    it('should write claims to Supabase and Firebase', async () => {
+      const { client, mocks } = createMockSupabaseClient();
+      const auth = createMockAuth({ app_role: 'editor' });
+
+      const claims = await updateUserClaims(auth, client, 'target-uid', { app_role: 'admin' });
+
+      expect(claims).toEqual({ app_role: 'admin' });
+      expect(mocks.update).toHaveBeenCalledWith({ custom_claims: { app_role: 'admin' } });
+      expect(mocks.updateEq).toHaveBeenCalledWith('firebase_uid', 'target-uid');
+      expect(auth.setCustomUserClaims).toHaveBeenCalledWith('target-uid', { app_role: 'admin' });
+    });
+
+    it('should restore the previous Supabase claims when Firebase rejects the update', async () => {
+      const { client, mocks } = createMockSupabaseClient();
+      const auth = createMockAuth({ app_role: 'editor' });
+      const firebaseError = Object.assign(new Error('Firebase unavailable'), { code: 'auth/internal-error' });
+      auth.setCustomUserClaims.mockRejectedValue(firebaseError);
+
+      await expect(updateUserClaims(auth, client, 'target-uid', { app_role: 'admin' })).rejects.toBe(firebaseError);
+
+      expect(mocks.update).toHaveBeenNthCalledWith(1, { custom_claims: { app_role: 'admin' } });
+      expect(mocks.update).toHaveBeenNthCalledWith(2, { custom_claims: { app_role: 'editor' } });
+    });
+
+    it('should not call Firebase when the Supabase write fails', async () => {
+      const { client, mocks } = createMockSupabaseClient();
+      const auth = createMockAuth(undefined);
+      const supabaseError = { code: '42501', message: 'permission denied' };
+      mocks.updateSelect.mockResolvedValue({ data: null, error: supabaseError });
+
+      await expect(updateUserClaims(auth, client, 'target-uid', { app_role: 'admin' })).rejects.toEqual(supabaseError);
+
+      expect(auth.setCustomUserClaims).not.toHaveBeenCalled();
+    });
+
+    it('should not call Firebase when public.users has no row for the user', async () => {
+      const { client, mocks } = createMockSupabaseClient();
+      const auth = createMockAuth(undefined);
+      mocks.updateSelect.mockResolvedValue({ data: [], error: null });
+
+      await expect(updateUserClaims(auth, client, 'target-uid', { app_role: 'admin' }))
+        .rejects.toThrow(ClaimsUserNotFoundError);
+
+      expect(mocks.updateSelect).toHaveBeenCalledWith('firebase_uid');
+      expect(auth.setCustomUserClaims).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid claims before touching either store', async () => {
+      const { client, mocks } = createMockSupabaseClient();
+      const auth = createMockAuth(undefined);
+
+      await expect(updateUserClaims(auth, client, 'target-uid', { iss: 'evil' })).rejects.toThrow(ClaimsValidationError);
+
+      expect(auth.getUser).not.toHaveBeenCalled();
+      expect(mocks.update).not.toHaveBeenCalled();
+    });
+  });
+});
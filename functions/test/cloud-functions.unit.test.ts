@@ -8,12 +8,21 @@
  * - Upsert logic with mock Supabase client
  * - Error handling when insert fails
  * - Function execution time < 5 seconds
- * - Logging
+ * - Structured logging and sync metrics
  * 
  * Validates: Requirements 6.2, 6.3, 6.4, 6.5, 6.6, 6.7, 11.1, 11.2, 11.3, 11.7
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { extractUserData } from '../src/user-data';
+import { LogEntry, buildLogEntry, correlationIdFrom, createLogger, serializeError } from '../src/logger';
+import {
+  MetricsRegistry,
+  SYNC_DURATION_MS,
+  SYNC_RETRIES_TOTAL,
+  SYNC_TOTAL,
+  recordSyncOutcome,
+} from '../src/metrics';
 
 /**
  * Mock Firebase user object type
@@ -25,22 +34,6 @@ interface MockFirebaseUser {
   photoURL?: string | null;
 }
 
-/**
- * Extract user data from Firebase user object
- * This replicates the core logic from the Cloud Function
- */
-function extractUserData(firebaseUser: MockFirebaseUser) {
-  const { uid, email, displayName, photoURL } = firebaseUser;
-  
-  return {
-    firebase_uid: uid,
-    email: email || '',
-    display_name: displayName || null,
-    photo_url: photoURL || null,
-    updated_at: new Date().toISOString(),
-  };
-}
-
 /**
  * Mock Supabase client for testing
  */
@@ -583,6 +576,17 @@ describe('Cloud Functions - Unit Tests', () => {
   });
 
   describe('Logging Requirements', () => {
+    const timestamp = new Date('2024-06-01T00:00:00.000Z');
+
+    /**
+     * Logger that collects entries instead of writing them
+     */
+    function captureLogger(event: string, uid: string) {
+      const entries: LogEntry[] = [];
+      const log = createLogger(event, { correlationId: 'event-123', fields: { uid }, write: entry => entries.push(entry) });
+      return { log, entries };
+    }
+
     /**
      * Requirement 6.7: Verify logging structure
      */
@@ -591,21 +595,27 @@ describe('Cloud Functions - Unit Tests', () => {
       const email = 'log@test.com';
       const duration = 1234;
 
-      const logData = {
-        event: 'syncUserToSupabase',
+      const logData = buildLogEntry('INFO', 'syncUserToSupabase', 'event-123', 'Synced user', {
         status: 'success',
         uid,
         email,
+        attempt: 1,
         duration,
-        timestamp: new Date().toISOString(),
-      };
+      }, timestamp);
 
-      expect(logData.event).toBe('syncUserToSupabase');
-      expect(logData.status).toBe('success');
-      expect(logData.uid).toBe(uid);
-      expect(logData.email).toBe(email);
-      expect(logData.duration).toBe(duration);
-      expect(logData.timestamp).toBeDefined();
+      expect(logData).toEqual({
+        severity: 'INFO',
+        message: 'Synced user',
+        event: 'syncUserToSupabase',
+        correlationId: 'event-123',
+        timestamp: '2024-06-01T00:00:00.000Z',
+        status: 'success',
+        uid,
+        email,
+        attempt: 1,
+        duration,
+      });
+      expect(JSON.parse(JSON.stringify(logData))).toEqual(logData);
     });
 
     /**
@@ -617,47 +627,56 @@ describe('Cloud Functions - Unit Tests', () => {
       const errorMessage = 'Duplicate email';
       const attempt = 2;
 
-      const errorLogData = {
-        event: 'syncUserToSupabase',
+      const errorLogData = buildLogEntry('ERROR', 'syncUserToSupabase', 'event-123', 'Failed to sync user', {
         status: 'error',
         uid,
-        error: {
-          code: errorCode,
-          message: errorMessage,
-        },
         attempt,
-        timestamp: new Date().toISOString(),
-      };
+        error: { code: errorCode, message: errorMessage, details: null, hint: 'Use another email' },
+      }, timestamp);
 
+      expect(errorLogData.severity).toBe('ERROR');
       expect(errorLogData.event).toBe('syncUserToSupabase');
       expect(errorLogData.status).toBe('error');
       expect(errorLogData.uid).toBe(uid);
-      expect(errorLogData.error.code).toBe(errorCode);
-      expect(errorLogData.error.message).toBe(errorMessage);
+      expect(errorLogData.error).toEqual({ code: errorCode, message: errorMessage, hint: 'Use another email' });
       expect(errorLogData.attempt).toBe(attempt);
     });
 
+    /**
+     * Requirement 6.7: Errors without a code are logged with a null code
+     */
+    it('should serialize plain errors', () => {
+      expect(serializeError(new Error('fetch failed'))).toEqual({ code: null, message: 'fetch failed' });
+      expect(serializeError('boom')).toEqual({ code: null, message: 'boom' });
+    });
+
     /**
      * Requirement 6.7: Verify retry logging structure
      */
     it('should prepare log data for retry attempts', () => {
       const uid = 'retry-log-uid';
-      const maxRetries = 2;
-      const currentAttempt = 1;
+      const { log, entries } = captureLogger('syncUserToSupabase', uid);
 
-      const retryLogData = {
+      log.warn('Attempt 1 failed, retrying in 75ms', {
+        status: 'retry',
+        attempt: 1,
+        maxAttempts: 3,
+        delayMs: 75,
+        error: { code: 'ECONNRESET', message: 'socket hang up' },
+      });
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        severity: 'WARNING',
         event: 'syncUserToSupabase',
+        correlationId: 'event-123',
         status: 'retry',
         uid,
-        attempt: currentAttempt,
-        maxRetries,
-        timestamp: new Date().toISOString(),
-      };
-
-      expect(retryLogData.status).toBe('retry');
-      expect(retryLogData.attempt).toBe(currentAttempt);
-      expect(retryLogData.maxRetries).toBe(maxRetries);
-      expect(retryLogData.attempt).toBeLessThanOrEqual(retryLogData.maxRetries);
+        attempt: 1,
+        maxAttempts: 3,
+        error: { code: 'ECONNRESET', message: 'socket hang up' },
+      });
+      expect(entries[0].attempt).toBeLessThanOrEqual(entries[0].maxAttempts as number);
     });
 
     /**
@@ -665,22 +684,20 @@ describe('Cloud Functions - Unit Tests', () => {
      */
     it('should prepare log data for delete operations', () => {
       const uid = 'delete-log-uid';
-      const email = 'delete@test.com';
       const duration = 567;
+      const { log, entries } = captureLogger('deleteUserFromSupabase', uid);
 
-      const deleteLogData = {
+      log.info('Deleted user', { status: 'success', attempt: 1, duration, mode: 'soft' });
+
+      expect(entries[0]).toMatchObject({
+        severity: 'INFO',
         event: 'deleteUserFromSupabase',
         status: 'success',
         uid,
-        email,
         duration,
-        timestamp: new Date().toISOString(),
-      };
-
-      expect(deleteLogData.event).toBe('deleteUserFromSupabase');
-      expect(deleteLogData.status).toBe('success');
-      expect(deleteLogData.uid).toBe(uid);
-      expect(deleteLogData.duration).toBe(duration);
+        mode: 'soft',
+      });
+      expect(entries[0]).not.toHaveProperty('steps');
     });
 
     /**
@@ -689,19 +706,92 @@ describe('Cloud Functions - Unit Tests', () => {
     it('should prepare warning log when execution exceeds 5 seconds', () => {
       const uid = 'slow-uid';
       const duration = 5500; // Exceeds 5 second limit
+      const { log, entries } = captureLogger('syncUserToSupabase', uid);
 
-      const warningLogData = {
-        event: 'syncUserToSupabase',
-        status: 'warning',
-        uid,
-        duration,
-        message: `Function took ${duration}ms, exceeding 5 second target`,
-        timestamp: new Date().toISOString(),
-      };
+      log.warn(`Function took ${duration}ms, exceeding 5 second target`, { status: 'warning', duration });
+
+      expect(entries[0].severity).toBe('WARNING');
+      expect(entries[0].status).toBe('warning');
+      expect(entries[0].duration).toBeGreaterThan(5000);
+      expect(entries[0].message).toContain('exceeding 5 second target');
+    });
+
+    /**
+     * Requirement 6.7: Every line of an invocation shares its correlation id
+     */
+    it('should keep the correlation id and fields in child loggers', () => {
+      const { log, entries } = captureLogger('syncUserToSupabase', 'child-uid');
+
+      log.child({ attempt: 2 }).info('Upserting user');
+
+      expect(entries[0]).toMatchObject({ correlationId: 'event-123', uid: 'child-uid', attempt: 2 });
+      expect(correlationIdFrom({ eventId: 'event-456' })).toBe('event-456');
+      expect(correlationIdFrom()).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    /**
+     * Entries are written as single-line JSON with the severity Cloud Logging reads
+     */
+    it('should write entries as JSON lines by severity', () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      createLogger('syncUserToSupabase', { correlationId: 'event-123' }).info('Starting sync', { uid: 'json-uid' });
+      createLogger('syncUserToSupabase', { correlationId: 'event-123' }).error('Failed', { error: new Error('boom') });
+
+      expect(JSON.parse(log.mock.calls[0][0])).toMatchObject({ severity: 'INFO', uid: 'json-uid' });
+      expect(JSON.parse(error.mock.calls[0][0])).toMatchObject({ severity: 'ERROR', error: { code: null, message: 'boom' } });
+
+      log.mockRestore();
+      error.mockRestore();
+    });
+  });
+
+  describe('Sync Metrics', () => {
+    it('should count outcomes and retries per operation', () => {
+      const registry = new MetricsRegistry();
+
+      recordSyncOutcome('sync', 'success', 120, 1, registry);
+      recordSyncOutcome('sync', 'success', 80, 1, registry);
+      recordSyncOutcome('delete', 'failure', 4200, 3, registry);
+
+      const { counters } = registry.snapshot();
+      expect(counters).toEqual(expect.arrayContaining([
+        { name: SYNC_TOTAL, labels: { operation: 'sync', status: 'success' }, value: 2 },
+        { name: SYNC_TOTAL, labels: { operation: 'delete', status: 'failure' }, value: 1 },
+        { name: SYNC_RETRIES_TOTAL, labels: { operation: 'delete' }, value: 2 },
+      ]));
+    });
+
+    it('should bucket latencies cumulatively', () => {
+      const registry = new MetricsRegistry([100, 1000]);
+
+      registry.observe(SYNC_DURATION_MS, { operation: 'sync' }, 50);
+      registry.observe(SYNC_DURATION_MS, { operation: 'sync' }, 500);
+      registry.observe(SYNC_DURATION_MS, { operation: 'sync' }, 5000);
+
+      expect(registry.snapshot().histograms).toEqual([
+        { name: SYNC_DURATION_MS, labels: { operation: 'sync' }, buckets: [1, 2], sum: 5550, count: 3 },
+      ]);
+    });
+
+    it('should render the Prometheus text format', () => {
+      const registry = new MetricsRegistry([100]);
+
+      recordSyncOutcome('sync', 'success', 40, 2, registry);
 
-      expect(warningLogData.status).toBe('warning');
-      expect(warningLogData.duration).toBeGreaterThan(5000);
-      expect(warningLogData.message).toContain('exceeding 5 second target');
+      expect(registry.toPrometheus()).toBe([
+        `# TYPE ${SYNC_TOTAL} counter`,
+        `${SYNC_TOTAL}{operation="sync",status="success"} 1`,
+        `# TYPE ${SYNC_RETRIES_TOTAL} counter`,
+        `${SYNC_RETRIES_TOTAL}{operation="sync"} 1`,
+        `# TYPE ${SYNC_DURATION_MS} histogram`,
+        `${SYNC_DURATION_MS}_bucket{operation="sync",status="success",le="100"} 1`,
+        `${SYNC_DURATION_MS}_bucket{operation="sync",status="success",le="+Inf"} 1`,
+        `${SYNC_DURATION_MS}_sum{operation="sync",status="success"} 40`,
+        `${SYNC_DURATION_MS}_count{operation="sync",status="success"} 1`,
+        '',
+      ].join('\n'));
     });
   });
 
@@ -13,25 +13,7 @@
 
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
-
-/**
- * Extract user data from Firebase user object
- * This is the core logic being tested from the Cloud Function
- */
-function extractUserData(firebaseUser: {
-  uid: string;
-  email?: string | null;
-  displayName?: string | null;
-  photoURL?: string | null;
-}) {
-  return {
-    firebase_uid: firebaseUser.uid,
-    email: firebaseUser.email || '',
-    display_name: firebaseUser.displayName || null,
-    photo_url: firebaseUser.photoURL || null,
-    updated_at: new Date().toISOString(),
-  };
-}
+import { extractUserData } from '../src/user-data';
 
 describe('Property 4: Cloud Function Data Extraction', () => {
   /**
@@ -104,10 +86,11 @@ describe('Property 4: Cloud Function Data Extraction', () => {
           expect(extracted).toHaveProperty('email');
           expect(extracted).toHaveProperty('display_name');
           expect(extracted).toHaveProperty('photo_url');
+          expect(extracted).toHaveProperty('custom_claims');
           expect(extracted).toHaveProperty('updated_at');
 
           // Verify no unexpected fields
-          const expectedKeys = ['firebase_uid', 'email', 'display_name', 'photo_url', 'updated_at'];
+          const expectedKeys = ['firebase_uid', 'email', 'display_name', 'photo_url', 'custom_claims', 'updated_at'];
           const actualKeys = Object.keys(extracted);
           expect(actualKeys.sort()).toEqual(expectedKeys.sort());
         }
@@ -0,0 +1,317 @@
+/**
+ * Unit Tests for the Sync Dead-Letter Queue
+ *
+ * Tests cover:
+ * - Exponential replay backoff with a cap
+ * - Recording failed sync/delete events
+ * - Replaying pending entries (resolve, reschedule, mark dead)
+ * - Never replaying a sync onto a deleted user
+ * - Propagating errors from entry status updates
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  MAX_REPLAY_ATTEMPTS,
+  SyncFailure,
+  UserLookup,
+  nextReplayDelayMs,
+  recordSyncFailure,
+  replaySyncFailures,
+  resolvePendingSyncs,
+} from '../src/dead-letter';
+
+/**
+ * Mock Supabase client for the sync_failures, users and user_identities tables
+ */
+function createMockSupabaseClient(pending: SyncFailure[] = []) {
+  const insert = vi.fn().mockResolvedValue({ data: null, error: null });
+  const limit = vi.fn().mockResolvedValue({ data: pending, error: null });
+  const deleteEntries = vi.fn().mockResolvedValue({ data: [], error: null });
+  const updateEq: any = vi.fn(() => Object.assign(
+    Promise.resolve({ data: null, error: null }),
+    { eq: updateEq }
+  ));
+  const update = vi.fn(() => ({ eq: updateEq }));
+  const maybeSingle = vi.fn().mockResolvedValue({ data: { deleted_at: null }, error: null });
+  const userSelect = vi.fn(() => ({ eq: () => ({ maybeSingle }) }));
+  const upsert = vi.fn().mockResolvedValue({ data: null, error: null });
+  const rpc = vi.fn((name: string) => Promise.resolve(
+    name === 'erase_user'
+      ? { data: { erased: true, blocked: [], steps: [] }, error: null }
+      : { data: [], error: null }
+  ));
+  const softDeleteIs = vi.fn().mockResolvedValue({ data: null, error: null });
+  const softDelete = vi.fn(() => ({ eq: () => ({ is: softDeleteIs }) }));
+  const identitiesDelete = vi.fn(() => ({ eq: vi.fn().mockResolvedValue({ data: null, error: null }) }));
+
+  const from = vi.fn((table: string) => {
+    if (table === 'users') {
+      return { select: userSelect, upsert, update: softDelete };
+    }
+    if (table === 'user_identities') {
+      return { delete: identitiesDelete };
+    }
+    return {
+      insert,
+      update,
+      select: () => ({ eq: () => ({
+        lte: () => ({ order: () => ({ limit }) }),
+        eq: () => ({ limit: deleteEntries }),
+      }) }),
+    };
+  });
+
+  return {
+    client: { from, rpc } as unknown as SupabaseClient,
+    mocks: { from, insert, limit, deleteEntries, update, updateEq, maybeSingle, upsert, rpc, softDelete, softDeleteIs },
+  };
+}
+
+/**
+ * Mock Firebase Auth in which the user still exists
+ */
+function createMockAuth() {
+  return { getUser: vi.fn(async (uid: string) => ({ uid })) } satisfies UserLookup;
+}
+
+function createEntry(overrides: Partial<SyncFailure> = {}): SyncFailure {
+  return {
+    id: 'entry-1',
+    firebase_uid: 'failed-uid',
+    operation: 'sync',
+    payload: { firebase_uid: 'failed-uid', email: 'failed@test.com', display_name: null, photo_url: null },
+    error_code: 'NETWORK_ERROR',
+    error_message: 'Failed to connect to Supabase',
+    attempts: 2,
+    status: 'pending',
+    next_retry_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const now = new Date('2024-01-01T12:00:00.000Z');
+
+describe('Dead-Letter Queue - Unit Tests', () => {
+  describe('nextReplayDelayMs', () => {
+    it('should double the delay for each attempt', () => {
+      expect(nextReplayDelayMs(1)).toBe(60 * 1000);
+      expect(nextReplayDelayMs(2)).toBe(2 * 60 * 1000);
+      expect(nextReplayDelayMs(3)).toBe(4 * 60 * 1000);
+    });
+
+    it('should cap the delay at 6 hours', () => {
+      expect(nextReplayDelayMs(50)).toBe(6 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('recordSyncFailure', () => {
+    it('should insert a pending entry with the payload, error and attempts', async () => {
+      const { client, mocks } = createMockSupabaseClient();
+
+      await recordSyncFailure(
+        client,
+        {
+          uid: 'failed-uid',
+          operation: 'sync',
+          payload: { firebase_uid: 'failed-uid', email: 'failed@test.com' },
+          error: { code: '23505', message: 'duplicate key' },
+          attempts: 2,
+        },
+        now
+      );
+
+      expect(mocks.from).toHaveBeenCalledWith('sync_failures');
+      expect(mocks.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          firebase_uid: 'failed-uid',
+          operation: 'sync',
+          payload: { firebase_uid: 'failed-uid', email: 'failed@test.com' },
+          error_code: '23505',
+          error_message: 'duplicate key',
+          attempts: 2,
+          status: 'pending',
+          next_retry_at: '2024-01-01T12:02:00.000Z',
+        })
+      );
+    });
+
+    it('should throw when the insert fails', async () => {
+      const { client, mocks } = createMockSupabaseClient();
+      const insertError = { code: '42P01', message: 'relation "sync_failures" does not exist' };
+      mocks.insert.mockResolvedValue({ data: null, error: insertError });
+
+      await expect(
+        recordSyncFailure(client, { uid: 'uid', operation: 'delete', payload: {}, error: null, attempts: 2 })
+      ).rejects.toEqual(insertError);
+    });
+  });
+
+  describe('resolvePendingSyncs', () => {
+    it('should resolve the pending sync entries of a user', async () => {
+      const { client, mocks } = createMockSupabaseClient();
+
+      await resolvePendingSyncs(client, 'deleted-uid', now);
+
+      expect(mocks.update).toHaveBeenCalledWith({ status: 'resolved', resolved_at: now.toISOString() });
+      expect(mocks.updateEq).toHaveBeenCalledWith('firebase_uid', 'deleted-uid');
+      expect(mocks.updateEq).toHaveBeenCalledWith('operation', 'sync');
+    });
+  });
+
+  describe('replaySyncFailures', () => {
+    it('should replay sync entries with upsert and mark them resolved', async () => {
+      const { client, mocks } = createMockSupabaseClient([createEntry()]);
+
+      const summary = await replaySyncFailures(createMockAuth(), client, { now });
+
+      expect(summary).toEqual({ processed: 1, resolved: 1, retrying: 0, dead: 0 });
+      expect(mocks.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ firebase_uid: 'failed-uid', email: 'failed@test.com' }),
+        { onConflict: 'firebase_uid' }
+      );
+      expect(mocks.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'resolved', attempts: 3 })
+      );
+      expect(mocks.updateEq).toHaveBeenCalledWith('id', 'entry-1');
+    });
+
+    it('should replay delete entries as soft deletes by default', async () => {
+      const { client, mocks } = createMockSupabaseClient([
+        createEntry({ operation: 'delete', payload: { firebase_uid: 'failed-uid' } }),
+      ]);
+
+      await replaySyncFailures(createMockAuth(), client, { now });
+
+      expect(mocks.softDelete).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'failed-uid@deleted.invalid' })
+      );
+      expect(mocks.rpc).not.toHaveBeenCalled();
+      expect(mocks.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should skip sync entries whose row is soft-deleted', async () => {
+      const { client, mocks } = createMockSupabaseClient([createEntry()]);
+      mocks.maybeSingle.mockResolvedValue({ data: { deleted_at: '2024-01-01T06:00:00.000Z' }, error: null });
+
+      const summary = await replaySyncFailures(createMockAuth(), client, { now });
+
+      expect(summary).toEqual({ processed: 1, resolved: 1, retrying: 0, dead: 0 });
+      expect(mocks.upsert).not.toHaveBeenCalled();
+      expect(mocks.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'resolved' }));
+    });
+
+    it('should recreate a missing row while the Firebase user exists', async () => {
+      const { client, mocks } = createMockSupabaseClient([createEntry()]);
+      mocks.maybeSingle.mockResolvedValue({ data: null, error: null });
+      const auth = createMockAuth();
+
+      await replaySyncFailures(auth, client, { now });
+
+      expect(auth.getUser).toHaveBeenCalledWith('failed-uid');
+      expect(mocks.upsert).toHaveBeenCalled();
+    });
+
+    it('should skip sync entries whose row was hard-deleted', async () => {
+      const { client, mocks } = createMockSupabaseClient([createEntry()]);
+      mocks.maybeSingle.mockResolvedValue({ data: null, error: null });
+      const auth = createMockAuth();
+      auth.getUser.mockRejectedValue({ code: 'auth/user-not-found', message: 'no user record' });
+
+      const summary = await replaySyncFailures(auth, client, { now });
+
+      expect(summary).toEqual({ processed: 1, resolved: 1, retrying: 0, dead: 0 });
+      expect(mocks.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should skip sync entries for a missing row with a delete entry queued', async () => {
+      const { client, mocks } = createMockSupabaseClient([createEntry()]);
+      mocks.maybeSingle.mockResolvedValue({ data: null, error: null });
+      mocks.deleteEntries.mockResolvedValue({ data: [{ id: 'delete-entry' }], error: null });
+      const auth = createMockAuth();
+
+      await replaySyncFailures(auth, client, { now });
+
+      expect(mocks.upsert).not.toHaveBeenCalled();
+      expect(auth.getUser).not.toHaveBeenCalled();
+    });
+
+    it('should resolve pending syncs once a delete succeeds', async () => {
+      const { client, mocks } = createMockSupabaseClient([
+        createEntry({ id: 'delete-entry', operation: 'delete', payload: { firebase_uid: 'failed-uid' } }),
+        createEntry({ id: 'sync-entry' }),
+      ]);
+
+      const summary = await replaySyncFailures(createMockAuth(), client, { now });
+
+      expect(summary).toEqual({ processed: 2, resolved: 2, retrying: 0, dead: 0 });
+      expect(mocks.updateEq).toHaveBeenCalledWith('operation', 'sync');
+      expect(mocks.updateEq).toHaveBeenCalledWith('status', 'pending');
+      expect(mocks.updateEq).toHaveBeenCalledWith('id', 'sync-entry');
+      expect(mocks.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should replay delete entries as erasures in hard delete mode', async () => {
+      vi.stubEnv('USER_DELETE_MODE', 'hard');
+      const { client, mocks } = createMockSupabaseClient([
+        createEntry({ operation: 'delete', payload: { firebase_uid: 'failed-uid' } }),
+      ]);
+
+      try {
+        await replaySyncFailures(createMockAuth(), client, { now });
+      } finally {
+        vi.unstubAllEnvs();
+      }
+
+      expect(mocks.rpc).toHaveBeenCalledWith('erase_user', { target_uid: 'failed-uid', steps: [] });
+      expect(mocks.softDelete).not.toHaveBeenCalled();
+    });
+
+    it('should reschedule failed replays with backoff', async () => {
+      const { client, mocks } = createMockSupabaseClient([createEntry({ attempts: 3 })]);
+      mocks.upsert.mockResolvedValue({ data: null, error: { code: 'TIMEOUT', message: 'Request timeout' } });
+
+      const summary = await replaySyncFailures(createMockAuth(), client, { now });
+
+      expect(summary).toEqual({ processed: 1, resolved: 0, retrying: 1, dead: 0 });
+      expect(mocks.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'pending',
+          attempts: 4,
+          error_code: 'TIMEOUT',
+          next_retry_at: new Date(now.getTime() + nextReplayDelayMs(4)).toISOString(),
+        })
+      );
+    });
+
+    it('should mark entries dead after MAX_REPLAY_ATTEMPTS', async () => {
+      const { client, mocks } = createMockSupabaseClient([
+        createEntry({ attempts: MAX_REPLAY_ATTEMPTS - 1 }),
+      ]);
+      mocks.upsert.mockResolvedValue({ data: null, error: { code: 'TIMEOUT', message: 'Request timeout' } });
+
+      const summary = await replaySyncFailures(createMockAuth(), client, { now });
+
+      expect(summary.dead).toBe(1);
+      expect(mocks.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'dead', next_retry_at: null })
+      );
+    });
+
+    it('should throw when an entry status cannot be updated', async () => {
+      const { client, mocks } = createMockSupabaseClient([createEntry()]);
+      const updateError = { code: '42501', message: 'permission denied' };
+      mocks.updateEq.mockReturnValueOnce(Promise.resolve({ data: null, error: updateError }));
+
+      await expect(replaySyncFailures(createMockAuth(), client, { now })).rejects.toEqual(updateError);
+    });
+
+    it('should return an empty summary when the queue is empty', async () => {
+      const { client } = createMockSupabaseClient([]);
+
+      const summary = await replaySyncFailures(createMockAuth(), client, { now });
+
+      expect(summary).toEqual({ processed: 0, resolved: 0, retrying: 0, dead: 0 });
+    });
+  });
+});
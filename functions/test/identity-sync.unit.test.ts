@@ -0,0 +1,107 @@
+/**
+ * Unit Tests for Identity Sync
+ *
+ * Tests cover:
+ * - Mapping Firebase providerData onto user_identities rows
+ * - Upserting linked providers and removing unlinked ones
+ * - Propagating Supabase errors
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { extractIdentities, syncUserIdentities } from '../src/identity-sync';
+
+/**
+ * Mock Supabase client supporting upsert and delete chains on user_identities
+ */
+function createMockSupabaseClient(removed: { provider_id: string }[] = []) {
+  const upsert = vi.fn().mockResolvedValue({ data: null, error: null });
+  const deleteSelect = vi.fn().mockResolvedValue({ data: removed, error: null });
+  const deleteNot = vi.fn(() => ({ select: deleteSelect }));
+  const deleteEq = vi.fn(() => ({ not: deleteNot, select: deleteSelect }));
+  const deleteRows = vi.fn(() => ({ eq: deleteEq }));
+
+  const from = vi.fn(() => ({
+    upsert,
+    delete: deleteRows,
+  }));
+
+  return {
+    client: { from } as unknown as SupabaseClient,
+    mocks: { from, upsert, deleteRows, deleteEq, deleteNot, deleteSelect },
+  };
+}
+
+const linkedUser = {
+  uid: 'linked-uid',
+  providerData: [
+    { providerId: 'google.com', uid: 'google-123', email: 'user@test.com', displayName: 'Test User' },
+    { providerId: 'password', uid: 'user@test.com', email: 'user@test.com', displayName: null },
+  ],
+};
+
+describe('Identity Sync - Unit Tests', () => {
+  describe('extractIdentities', () => {
+    it('should map each provider to a row', () => {
+      expect(extractIdentities(linkedUser)).toEqual([
+        {
+          firebase_uid: 'linked-uid',
+          provider_id: 'google.com',
+          provider_uid: 'google-123',
+          email: 'user@test.com',
+          display_name: 'Test User',
+          phone_number: null,
+        },
+        {
+          firebase_uid: 'linked-uid',
+          provider_id: 'password',
+          provider_uid: 'user@test.com',
+          email: 'user@test.com',
+          display_name: null,
+          phone_number: null,
+        },
+      ]);
+    });
+
+    it('should return no rows for anonymous users', () => {
+      expect(extractIdentities({ uid: 'anonymous-uid', providerData: [] })).toEqual([]);
+      expect(extractIdentities({ uid: 'anonymous-uid' })).toEqual([]);
+    });
+  });
+
+  describe('syncUserIdentities', () => {
+    it('should upsert linked providers and remove the others', async () => {
+      const { client, mocks } = createMockSupabaseClient([{ provider_id: 'github.com' }]);
+
+      const result = await syncUserIdentities(client, linkedUser);
+
+      expect(mocks.from).toHaveBeenCalledWith('user_identities');
+      expect(mocks.upsert).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.objectContaining({ provider_id: 'google.com' })]),
+        { onConflict: 'firebase_uid,provider_id' }
+      );
+      expect(mocks.deleteEq).toHaveBeenCalledWith('firebase_uid', 'linked-uid');
+      expect(mocks.deleteNot).toHaveBeenCalledWith('provider_id', 'in', '("google.com","password")');
+      expect(result).toEqual({ uid: 'linked-uid', providers: ['google.com', 'password'], removed: ['github.com'] });
+    });
+
+    it('should remove every row when no provider is linked', async () => {
+      const { client, mocks } = createMockSupabaseClient([{ provider_id: 'google.com' }]);
+
+      const result = await syncUserIdentities(client, { uid: 'anonymous-uid', providerData: [] });
+
+      expect(mocks.upsert).not.toHaveBeenCalled();
+      expect(mocks.deleteNot).not.toHaveBeenCalled();
+      expect(result.removed).toEqual(['google.com']);
+    });
+
+    it('should throw the Supabase error', async () => {
+      const { client, mocks } = createMockSupabaseClient();
+      const supabaseError = { code: '23503', message: 'insert or update violates foreign key constraint' };
+      mocks.upsert.mockResolvedValue({ data: null, error: supabaseError });
+
+      await expect(syncUserIdentities(client, linkedUser)).rejects.toEqual(supabaseError);
+      expect(mocks.deleteRows).not.toHaveBeenCalled();
+    });
+  });
+});
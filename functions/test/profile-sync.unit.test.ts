@@ -0,0 +1,142 @@
+/**
+ * Unit Tests for Profile Sync
+ *
+ * Tests cover:
+ * - Diffing Firebase profile fields against the stored Supabase row
+ * - Creating the row when it is missing
+ * - Updating only the changed columns
+ * - Skipping the write when nothing changed
+ * - Propagating Supabase errors
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { diffUserData } from '../src/user-data';
+import { syncProfileChanges } from '../src/profile-sync';
+
+/**
+ * Mock Supabase client supporting select/upsert/update chains on one table
+ */
+function createMockSupabaseClient(selectResult: { data: unknown; error: unknown }) {
+  const maybeSingle = vi.fn().mockResolvedValue(selectResult);
+  const upsert = vi.fn().mockResolvedValue({ data: null, error: null });
+  const updateEq = vi.fn().mockResolvedValue({ data: null, error: null });
+  const update = vi.fn(() => ({ eq: updateEq }));
+
+  const from = vi.fn(() => ({
+    select: () => ({ eq: () => ({ maybeSingle }) }),
+    upsert,
+    update,
+  }));
+
+  return {
+    client: { from } as unknown as SupabaseClient,
+    mocks: { from, maybeSingle, upsert, update, updateEq },
+  };
+}
+
+const storedRow = {
+  email: 'user@test.com',
+  display_name: 'Old Name',
+  photo_url: 'https://example.com/old.jpg',
+};
+
+describe('Profile Sync - Unit Tests', () => {
+  describe('diffUserData', () => {
+    it('should return an empty object when nothing changed', () => {
+      expect(diffUserData(storedRow, { ...storedRow })).toEqual({});
+    });
+
+    it('should return only the changed columns', () => {
+      const changes = diffUserData(storedRow, {
+        ...storedRow,
+        display_name: 'New Name',
+      });
+
+      expect(changes).toEqual({ display_name: 'New Name' });
+    });
+
+    it('should report a column cleared to null', () => {
+      const changes = diffUserData(storedRow, { ...storedRow, photo_url: null });
+
+      expect(changes).toEqual({ photo_url: null });
+    });
+  });
+
+  describe('syncProfileChanges', () => {
+    it('should upsert the full record when the row does not exist', async () => {
+      const { client, mocks } = createMockSupabaseClient({ data: null, error: null });
+
+      const result = await syncProfileChanges(client, {
+        uid: 'new-uid',
+        email: 'new@test.com',
+        displayName: 'New User',
+      });
+
+      expect(result.status).toBe('created');
+      expect(mocks.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          firebase_uid: 'new-uid',
+          email: 'new@test.com',
+          display_name: 'New User',
+          photo_url: null,
+        }),
+        { onConflict: 'firebase_uid' }
+      );
+      expect(mocks.update).not.toHaveBeenCalled();
+    });
+
+    it('should update only the changed columns', async () => {
+      const { client, mocks } = createMockSupabaseClient({ data: storedRow, error: null });
+
+      const result = await syncProfileChanges(client, {
+        uid: 'existing-uid',
+        email: 'user@test.com',
+        displayName: 'New Name',
+        photoURL: 'https://example.com/new.jpg',
+      });
+
+      expect(result.status).toBe('updated');
+      expect(result.changed).toEqual(['display_name', 'photo_url']);
+      expect(mocks.update).toHaveBeenCalledWith({
+        display_name: 'New Name',
+        photo_url: 'https://example.com/new.jpg',
+      });
+      expect(mocks.updateEq).toHaveBeenCalledWith('firebase_uid', 'existing-uid');
+      expect(mocks.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should skip the write when the profile is unchanged', async () => {
+      const { client, mocks } = createMockSupabaseClient({ data: storedRow, error: null });
+
+      const result = await syncProfileChanges(client, {
+        uid: 'same-uid',
+        email: 'user@test.com',
+        displayName: 'Old Name',
+        photoURL: 'https://example.com/old.jpg',
+      });
+
+      expect(result.status).toBe('unchanged');
+      expect(result.changed).toEqual([]);
+      expect(mocks.update).not.toHaveBeenCalled();
+      expect(mocks.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the Supabase read fails', async () => {
+      const selectError = { code: '42501', message: 'permission denied' };
+      const { client } = createMockSupabaseClient({ data: null, error: selectError });
+
+      await expect(syncProfileChanges(client, { uid: 'error-uid' })).rejects.toEqual(selectError);
+    });
+
+    it('should throw when the Supabase update fails', async () => {
+      const { client, mocks } = createMockSupabaseClient({ data: storedRow, error: null });
+      const updateError = { code: '23505', message: 'duplicate key value violates unique constraint "users_email_key"' };
+      mocks.updateEq.mockResolvedValue({ data: null, error: updateError });
+
+      await expect(
+        syncProfileChanges(client, { uid: 'dup-uid', email: 'taken@test.com' })
+      ).rejects.toEqual(updateError);
+    });
+  });
+});
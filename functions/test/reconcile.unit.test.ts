@@ -0,0 +1,235 @@
+/**
+ * Unit Tests for User Reconciliation
+ *
+ * Tests cover:
+ * - Paging through Firebase Auth users
+ * - Detecting missing, orphaned and mismatched rows
+ * - Report-only mode vs --apply mode
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { FirebaseUserFields } from '../src/user-data';
+import {
+  UserLister,
+  compareUsers,
+  listAllFirebaseUsers,
+  runReconciliation,
+} from '../src/reconcile';
+
+/**
+ * Mock Firebase Auth returning the given users in pages
+ */
+function createMockAuth(users: FirebaseUserFields[], pageSize: number): UserLister {
+  return {
+    listUsers: vi.fn(async (_maxResults?: number, pageToken?: string) => {
+      const start = pageToken ? parseInt(pageToken, 10) : 0;
+      const end = start + pageSize;
+      return {
+        users: users.slice(start, end),
+        pageToken: end < users.length ? String(end) : undefined,
+      };
+    }),
+  };
+}
+
+/**
+ * Mock Supabase client whose users table contains the given rows
+ */
+function createMockSupabaseClient(rows: object[]) {
+  const range = vi.fn().mockResolvedValue({ data: rows, error: null });
+  const upsert = vi.fn().mockResolvedValue({ data: null, error: null });
+  const softDeleteIs = vi.fn().mockResolvedValue({ data: null, error: null });
+  const updateEq = vi.fn(() => Object.assign(
+    Promise.resolve({ data: null, error: null }),
+    { is: softDeleteIs }
+  ));
+  const update = vi.fn(() => ({ eq: updateEq }));
+  const identitiesDelete = vi.fn(() => ({ eq: vi.fn().mockResolvedValue({ data: null, error: null }) }));
+  const rpc = vi.fn((name: string) => Promise.resolve(
+    name === 'erase_user'
+      ? { data: { erased: true, blocked: [], steps: [] }, error: null }
+      : { data: [], error: null }
+  ));
+
+  const from = vi.fn(() => ({
+    select: () => ({ neq: () => ({ order: () => ({ range }) }) }),
+    upsert,
+    update,
+    delete: identitiesDelete,
+  }));
+
+  return {
+    client: { from, rpc } as unknown as SupabaseClient,
+    mocks: { range, upsert, update, updateEq, softDeleteIs, rpc },
+  };
+}
+
+const firebaseUsers: FirebaseUserFields[] = [
+  { uid: 'in-sync', email: 'sync@test.com', displayName: 'In Sync' },
+  { uid: 'missing', email: 'missing@test.com', displayName: 'Missing' },
+  { uid: 'drifted', email: 'drifted@test.com', displayName: 'New Name' },
+];
+
+const rows = [
+  { firebase_uid: 'in-sync', email: 'sync@test.com', display_name: 'In Sync', photo_url: null },
+  { firebase_uid: 'drifted', email: 'drifted@test.com', display_name: 'Old Name', photo_url: null },
+  { firebase_uid: 'orphan', email: 'orphan@test.com', display_name: null, photo_url: null },
+];
+
+describe('User Reconciliation - Unit Tests', () => {
+  describe('listAllFirebaseUsers', () => {
+    it('should follow page tokens until all users are listed', async () => {
+      const auth = createMockAuth(firebaseUsers, 2);
+
+      const users = await listAllFirebaseUsers(auth, 2);
+
+      expect(users.map(user => user.uid)).toEqual(['in-sync', 'missing', 'drifted']);
+      expect(auth.listUsers).toHaveBeenCalledTimes(2);
+      expect(auth.listUsers).toHaveBeenLastCalledWith(2, '2');
+    });
+  });
+
+  describe('compareUsers', () => {
+    it('should classify missing, orphaned and mismatched users', () => {
+      const drift = compareUsers(firebaseUsers, rows);
+
+      expect(drift.missing.map(user => user.firebase_uid)).toEqual(['missing']);
+      expect(drift.orphaned).toEqual(['orphan']);
+      expect(drift.mismatched).toEqual([{ uid: 'drifted', changes: { display_name: 'New Name' } }]);
+    });
+
+    it('should report no drift when both sides match', () => {
+      const drift = compareUsers(firebaseUsers.slice(0, 1), rows.slice(0, 1));
+
+      expect(drift).toEqual({ missing: [], orphaned: [], mismatched: [], softDeleted: [] });
+    });
+
+    it('should report soft-deleted rows on their own instead of as missing or orphaned', () => {
+      const drift = compareUsers(firebaseUsers.slice(0, 1), [
+        { ...rows[0], email: 'in-sync@deleted.invalid', display_name: null, deleted_at: '2024-01-01T00:00:00.000Z' },
+        { ...rows[2], deleted_at: '2024-01-01T00:00:00.000Z' },
+      ]);
+
+      expect(drift).toEqual({ missing: [], orphaned: [], mismatched: [], softDeleted: ['in-sync'] });
+    });
+
+    it('should map missing users with the same extraction as syncUserToSupabase', () => {
+      const drift = compareUsers([{ uid: 'bare-uid' }], []);
+
+      expect(drift.missing[0]).toMatchObject({
+        firebase_uid: 'bare-uid',
+        email: '',
+        display_name: null,
+        photo_url: null,
+      });
+    });
+  });
+
+  describe('runReconciliation', () => {
+    it('should only report drift by default', async () => {
+      const { client, mocks } = createMockSupabaseClient(rows);
+
+      const report = await runReconciliation(createMockAuth(firebaseUsers, 1000), client);
+
+      expect(report.firebaseCount).toBe(3);
+      expect(report.supabaseCount).toBe(3);
+      expect(report.applied).toBe(false);
+      expect(mocks.upsert).not.toHaveBeenCalled();
+      expect(mocks.update).not.toHaveBeenCalled();
+      expect(mocks.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should fix drift in apply mode', async () => {
+      const { client, mocks } = createMockSupabaseClient(rows);
+
+      const report = await runReconciliation(createMockAuth(firebaseUsers, 1000), client, {
+        apply: true,
+        deleteMode: 'hard',
+      });
+
+      expect(report.applied).toBe(true);
+      expect(mocks.upsert).toHaveBeenCalledWith(
+        [expect.objectContaining({ firebase_uid: 'missing' })],
+        { onConflict: 'firebase_uid' }
+      );
+      expect(mocks.update).toHaveBeenCalledWith({ display_name: 'New Name' });
+      expect(mocks.updateEq).toHaveBeenCalledWith('firebase_uid', 'drifted');
+      expect(mocks.rpc).toHaveBeenCalledWith('erase_user', { target_uid: 'orphan', steps: [] });
+    });
+
+    it('should soft-delete orphaned rows in soft delete mode', async () => {
+      const { client, mocks } = createMockSupabaseClient(rows);
+
+      await runReconciliation(createMockAuth(firebaseUsers, 1000), client, {
+        apply: true,
+        deleteMode: 'soft',
+      });
+
+      expect(mocks.update).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'orphan@deleted.invalid', display_name: null })
+      );
+      expect(mocks.updateEq).toHaveBeenCalledWith('firebase_uid', 'orphan');
+      expect(mocks.softDeleteIs).toHaveBeenCalledWith('deleted_at', null);
+      expect(mocks.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should leave soft-deleted rows alone in apply mode', async () => {
+      const deletedRow = {
+        firebase_uid: 'in-sync',
+        email: 'in-sync@deleted.invalid',
+        display_name: null,
+        photo_url: null,
+        deleted_at: '2024-01-01T00:00:00.000Z',
+      };
+      const { client, mocks } = createMockSupabaseClient([deletedRow]);
+
+      const report = await runReconciliation(createMockAuth(firebaseUsers.slice(0, 1), 1000), client, {
+        apply: true,
+        deleteMode: 'hard',
+      });
+
+      expect(report.softDeleted).toEqual(['in-sync']);
+      expect(report.missing).toEqual([]);
+      expect(report.supabaseCount).toBe(0);
+      expect(mocks.upsert).not.toHaveBeenCalled();
+      expect(mocks.update).not.toHaveBeenCalled();
+    });
+
+    it('should not delete users who sign up while the job runs', async () => {
+      const { client, mocks } = createMockSupabaseClient(rows);
+      const newRow = { firebase_uid: 'new-signup', email: 'new@test.com', display_name: null, photo_url: null };
+      const newUser = { uid: 'new-signup', email: 'new@test.com' };
+      // The user signs up right after the first listing, whichever store that is
+      let signedUp = false;
+      mocks.range.mockImplementation(async () => {
+        const data = signedUp ? [...rows, newRow] : rows;
+        signedUp = true;
+        return { data, error: null };
+      });
+      const auth: UserLister = {
+        listUsers: vi.fn(async () => {
+          const users = signedUp ? [...firebaseUsers, newUser] : firebaseUsers;
+          signedUp = true;
+          return { users };
+        }),
+      };
+
+      const report = await runReconciliation(auth, client, { apply: true, deleteMode: 'hard' });
+
+      expect(report.orphaned).toEqual(['orphan']);
+      expect(report.missing.map(user => user.firebase_uid)).toEqual(['missing', 'new-signup']);
+      expect(mocks.rpc).not.toHaveBeenCalledWith('erase_user', expect.objectContaining({ target_uid: 'new-signup' }));
+    });
+
+    it('should throw when public.users cannot be read', async () => {
+      const { client, mocks } = createMockSupabaseClient(rows);
+      const readError = { code: '42501', message: 'permission denied' };
+      mocks.range.mockResolvedValue({ data: null, error: readError });
+
+      await expect(
+        runReconciliation(createMockAuth(firebaseUsers, 1000), client)
+      ).rejects.toEqual(readError);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit Tests for the Retry Policy
+ *
+ * Tests cover:
+ * - Classifying transient vs permanent errors
+ * - Exponential backoff with jitter and a delay cap
+ * - Stopping on permanent errors, the attempt limit and the deadline
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_MAX_ATTEMPTS,
+  deadlineFromTimeout,
+  isRetryableError,
+  retryDelayMs,
+  withRetry,
+} from '../src/retry';
+
+/**
+ * Retry options with a fake clock: sleep advances now() instead of waiting
+ */
+function fakeClock(start = 0) {
+  let time = start;
+  const sleep = vi.fn(async (ms: number) => {
+    time += ms;
+  });
+
+  return { sleep, now: () => time, random: () => 0.5 };
+}
+
+describe('Retry Policy - Unit Tests', () => {
+  describe('isRetryableError', () => {
+    it('should retry errors without a code', () => {
+      expect(isRetryableError(new Error('fetch failed'))).toBe(true);
+      expect(isRetryableError({ code: '', message: 'TypeError: fetch failed' })).toBe(true);
+    });
+
+    it('should retry network and connection errors', () => {
+      for (const code of ['ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'PGRST000', 'PGRST003', '08006', '53300', '57P01']) {
+        expect(isRetryableError({ code })).toBe(true);
+      }
+    });
+
+    it('should retry serialization failures and deadlocks', () => {
+      expect(isRetryableError({ code: '40001' })).toBe(true);
+      expect(isRetryableError({ code: '40P01' })).toBe(true);
+    });
+
+    it('should not retry permanent errors', () => {
+      for (const code of ['23505', '23503', '23502', '42501', '42P01', 'PGRST116', 'ERASURE_BLOCKED']) {
+        expect(isRetryableError({ code })).toBe(false);
+      }
+    });
+  });
+
+  describe('retryDelayMs', () => {
+    it('should double the delay for every attempt', () => {
+      expect(retryDelayMs(1, { random: () => 1 })).toBe(100);
+      expect(retryDelayMs(2, { random: () => 1 })).toBe(200);
+      expect(retryDelayMs(3, { random: () => 1 })).toBe(400);
+    });
+
+    it('should keep half of the delay fixed', () => {
+      expect(retryDelayMs(1, { random: () => 0 })).toBe(50);
+      expect(retryDelayMs(3, { random: () => 0 })).toBe(200);
+    });
+
+    it('should cap the delay', () => {
+      expect(retryDelayMs(10, { maxDelayMs: 1000, random: () => 1 })).toBe(1000);
+    });
+
+    it('should stay within bounds for any random value', () => {
+      for (let attempt = 1; attempt <= 8; attempt++) {
+        const delay = retryDelayMs(attempt, { baseDelayMs: 100, maxDelayMs: 2000 });
+        const capped = Math.min(2000, 100 * 2 ** (attempt - 1));
+        expect(delay).toBeGreaterThanOrEqual(capped / 2);
+        expect(delay).toBeLessThanOrEqual(capped);
+      }
+    });
+  });
+
+  describe('deadlineFromTimeout', () => {
+    it('should keep the reserve back from the timeout', () => {
+      expect(deadlineFromTimeout(5, 10_000)).toBe(14_000);
+      expect(deadlineFromTimeout(5, 10_000, 0)).toBe(15_000);
+    });
+
+    it('should never end before the start time', () => {
+      expect(deadlineFromTimeout(0.5, 10_000)).toBe(10_000);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should return the first successful result', async () => {
+      const clock = fakeClock();
+      const operation = vi.fn().mockResolvedValue('ok');
+
+      await expect(withRetry(operation, clock)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(clock.sleep).not.toHaveBeenCalled();
+    });
+
+    it('should retry transient errors until the operation succeeds', async () => {
+      const clock = fakeClock();
+      const onRetry = vi.fn();
+      const operation = vi.fn()
+        .mockRejectedValueOnce({ code: 'ECONNRESET', message: 'socket hang up' })
+        .mockResolvedValueOnce('ok');
+
+      await expect(withRetry(operation, { ...clock, onRetry })).resolves.toBe('ok');
+      expect(operation).toHaveBeenNthCalledWith(1, 1);
+      expect(operation).toHaveBeenNthCalledWith(2, 2);
+      expect(onRetry).toHaveBeenCalledWith({ code: 'ECONNRESET', message: 'socket hang up' }, 1, 75);
+      expect(clock.sleep).toHaveBeenCalledWith(75);
+    });
+
+    it('should fail fast on permanent errors', async () => {
+      const clock = fakeClock();
+      const duplicate = { code: '23505', message: 'duplicate key value violates unique constraint' };
+      const operation = vi.fn().mockRejectedValue(duplicate);
+
+      await expect(withRetry(operation, clock)).rejects.toBe(duplicate);
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(clock.sleep).not.toHaveBeenCalled();
+    });
+
+    it('should rethrow the last error after the attempt limit', async () => {
+      const clock = fakeClock();
+      const operation = vi.fn((attempt: number) => Promise.reject({ code: '40001', message: `attempt ${attempt}` }));
+
+      await expect(withRetry(operation, clock)).rejects.toEqual({ code: '40001', message: `attempt ${DEFAULT_MAX_ATTEMPTS}` });
+      expect(operation).toHaveBeenCalledTimes(DEFAULT_MAX_ATTEMPTS);
+      expect(clock.sleep).toHaveBeenCalledTimes(DEFAULT_MAX_ATTEMPTS - 1);
+    });
+
+    it('should not start an attempt after the deadline', async () => {
+      const clock = fakeClock(1_000);
+      const operation = vi.fn().mockRejectedValue(new Error('fetch failed'));
+
+      // 75ms after the first attempt fits, 150ms after the second does not
+      await expect(withRetry(operation, { ...clock, maxAttempts: 5, deadline: 1_200 })).rejects.toThrow('fetch failed');
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(clock.sleep).toHaveBeenCalledTimes(1);
+    });
+
+    it('should honour a custom classification', async () => {
+      const clock = fakeClock();
+      const operation = vi.fn()
+        .mockRejectedValueOnce({ code: '23505' })
+        .mockResolvedValueOnce('ok');
+
+      await expect(withRetry(operation, { ...clock, isRetryable: () => true })).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Unit Tests for User Deletion
+ *
+ * Tests cover:
+ * - Reading the deletion mode and retention period from the environment
+ * - Soft delete (deleted_at + anonymized email) vs hard delete (erasure)
+ * - Purging soft-deleted rows after the retention period
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ErasureBlockedError } from '../src/user-erasure';
+import {
+  DEFAULT_RETENTION_DAYS,
+  anonymizedEmail,
+  deleteUserRow,
+  getDeletionConfig,
+  purgeExpiredUsers,
+} from '../src/user-deletion';
+
+/**
+ * Mock Supabase client for the users and user_identities tables and the
+ * erase_user() function
+ */
+function createMockSupabaseClient(expired: { firebase_uid: string }[] = []) {
+  const updateIs = vi.fn().mockResolvedValue({ data: null, error: null });
+  const updateEq = vi.fn(() => ({ is: updateIs }));
+  const update = vi.fn(() => ({ eq: updateEq }));
+  const limit = vi.fn().mockResolvedValue({ data: expired, error: null });
+  const lt = vi.fn(() => ({ order: () => ({ limit }) }));
+  const identitiesDeleteEq = vi.fn().mockResolvedValue({ data: null, error: null });
+  const identitiesDelete = vi.fn(() => ({ eq: identitiesDeleteEq }));
+  const erase = vi.fn().mockResolvedValue({ data: { erased: true, blocked: [], steps: [] }, error: null });
+  const rpc = vi.fn((name: string, params?: object) =>
+    name === 'erase_user' ? erase(params) : Promise.resolve({ data: [], error: null })
+  );
+
+  const from = vi.fn((table: string) => (table === 'user_identities'
+    ? { delete: identitiesDelete }
+    : { update, select: () => ({ lt }) }));
+
+  return {
+    client: { from, rpc } as unknown as SupabaseClient,
+    mocks: { from, update, updateEq, updateIs, identitiesDelete, identitiesDeleteEq, lt, limit, rpc, erase },
+  };
+}
+
+describe('User Deletion - Unit Tests', () => {
+  describe('getDeletionConfig', () => {
+    it('should default to soft delete with the default retention period', () => {
+      expect(getDeletionConfig({})).toEqual({ mode: 'soft', retentionDays: DEFAULT_RETENTION_DAYS });
+    });
+
+    it('should read mode and retention from the environment', () => {
+      expect(getDeletionConfig({ USER_DELETE_MODE: 'hard', USER_RETENTION_DAYS: '90' }))
+        .toEqual({ mode: 'hard', retentionDays: 90 });
+    });
+
+    it('should reject an unknown delete mode', () => {
+      expect(() => getDeletionConfig({ USER_DELETE_MODE: 'archive' })).toThrow('USER_DELETE_MODE');
+    });
+
+    it('should reject an invalid retention period', () => {
+      expect(() => getDeletionConfig({ USER_RETENTION_DAYS: '-1' })).toThrow('USER_RETENTION_DAYS');
+      expect(() => getDeletionConfig({ USER_RETENTION_DAYS: '7.5' })).toThrow('USER_RETENTION_DAYS');
+      expect(() => getDeletionConfig({ USER_RETENTION_DAYS: 'thirty' })).toThrow('USER_RETENTION_DAYS');
+    });
+  });
+
+  describe('deleteUserRow', () => {
+    const now = new Date('2024-06-01T00:00:00.000Z');
+
+    it('should soft-delete and anonymize the row', async () => {
+      const { client, mocks } = createMockSupabaseClient();
+
+      await deleteUserRow(client, 'deleted-uid', 'soft', now);
+
+      expect(mocks.update).toHaveBeenCalledWith({
+        deleted_at: '2024-06-01T00:00:00.000Z',
+        email: 'deleted-uid@deleted.invalid',
+        display_name: null,
+        photo_url: null,
+      });
+      expect(mocks.updateEq).toHaveBeenCalledWith('firebase_uid', 'deleted-uid');
+      expect(mocks.updateIs).toHaveBeenCalledWith('deleted_at', null);
+      expect(mocks.erase).not.toHaveBeenCalled();
+    });
+
+    it('should remove the linked providers of a soft-deleted user', async () => {
+      const { client, mocks } = createMockSupabaseClient();
+
+      await deleteUserRow(client, 'deleted-uid', 'soft', now);
+
+      expect(mocks.from).toHaveBeenCalledWith('user_identities');
+      expect(mocks.identitiesDeleteEq).toHaveBeenCalledWith('firebase_uid', 'deleted-uid');
+    });
+
+    it('should erase the row in hard delete mode', async () => {
+      const { client, mocks } = createMockSupabaseClient();
+
+      await deleteUserRow(client, 'deleted-uid', 'hard', now);
+
+      expect(mocks.erase).toHaveBeenCalledWith({ target_uid: 'deleted-uid', steps: [] });
+      expect(mocks.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw when an erasure policy blocks the hard delete', async () => {
+      const { client, mocks } = createMockSupabaseClient();
+      mocks.erase.mockResolvedValue({
+        data: { erased: false, blocked: ['public.invoices.user_id'], steps: [] },
+        error: null,
+      });
+
+      await expect(deleteUserRow(client, 'deleted-uid', 'hard', now)).rejects.toThrow(ErasureBlockedError);
+    });
+
+    it('should throw the Supabase error', async () => {
+      const { client, mocks } = createMockSupabaseClient();
+      const supabaseError = { code: 'TIMEOUT', message: 'Request timeout' };
+      mocks.updateIs.mockResolvedValue({ data: null, error: supabaseError });
+
+      await expect(deleteUserRow(client, 'deleted-uid', 'soft', now)).rejects.toEqual(supabaseError);
+      expect(mocks.identitiesDelete).not.toHaveBeenCalled();
+    });
+
+    it('should give every user a distinct anonymized email', () => {
+      expect(anonymizedEmail('uid-a')).not.toBe(anonymizedEmail('uid-b'));
+    });
+  });
+
+  describe('purgeExpiredUsers', () => {
+    const now = new Date('2024-06-01T00:00:00.000Z');
+
+    it('should erase rows soft-deleted before the retention cutoff', async () => {
+      const { client, mocks } = createMockSupabaseClient([
+        { firebase_uid: 'expired-1' },
+        { firebase_uid: 'expired-2' },
+      ]);
+
+      const summary = await purgeExpiredUsers(client, { retentionDays: 30, now });
+
+      expect(summary.cutoff).toBe('2024-05-02T00:00:00.000Z');
+      expect(mocks.lt).toHaveBeenCalledWith('deleted_at', '2024-05-02T00:00:00.000Z');
+      expect(mocks.erase).toHaveBeenCalledWith({ target_uid: 'expired-1', steps: [] });
+      expect(mocks.erase).toHaveBeenCalledWith({ target_uid: 'expired-2', steps: [] });
+      expect(summary.purged).toEqual(['expired-1', 'expired-2']);
+      expect(summary.failed).toEqual([]);
+    });
+
+    it('should keep purging when a row is blocked', async () => {
+      const { client, mocks } = createMockSupabaseClient([
+        { firebase_uid: 'referenced' },
+        { firebase_uid: 'expired' },
+      ]);
+      mocks.erase.mockResolvedValueOnce({
+        data: { erased: false, blocked: ['public.invoices.user_id'], steps: [] },
+        error: null,
+      });
+
+      const summary = await purgeExpiredUsers(client, { retentionDays: 30, now });
+
+      expect(summary.purged).toEqual(['expired']);
+      expect(summary.failed).toEqual([
+        {
+          uid: 'referenced',
+          code: 'ERASURE_BLOCKED',
+          message: 'Erasure of user referenced blocked by public.invoices.user_id',
+        },
+      ]);
+    });
+
+    it('should report rows whose erasure fails', async () => {
+      const { client, mocks } = createMockSupabaseClient([{ firebase_uid: 'expired' }]);
+      mocks.erase.mockResolvedValue({
+        data: null,
+        error: { code: '23502', message: 'null value violates not-null constraint' },
+      });
+
+      const summary = await purgeExpiredUsers(client, { retentionDays: 30, now });
+
+      expect(summary.purged).toEqual([]);
+      expect(summary.failed).toEqual([
+        { uid: 'expired', code: '23502', message: 'null value violates not-null constraint' },
+      ]);
+    });
+
+    it('should throw when the candidates cannot be read', async () => {
+      const { client, mocks } = createMockSupabaseClient();
+      const readError = { code: '42501', message: 'permission denied' };
+      mocks.limit.mockResolvedValue({ data: null, error: readError });
+
+      await expect(purgeExpiredUsers(client, { retentionDays: 30, now })).rejects.toEqual(readError);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Unit Tests for User Erasure
+ *
+ * Tests cover:
+ * - Planning per-reference steps from the foreign key graph and policies
+ * - Defaulting unconfigured references to their ON DELETE action or block
+ * - Config validation
+ * - Executing the plan through erase_user() and reporting the result
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { UserDataReference } from '../src/user-export';
+import {
+  DELETED_USER_UID,
+  ErasureConfig,
+  eraseUser,
+  planUserErasure,
+  validateErasureConfig,
+} from '../src/user-erasure';
+
+function reference(
+  table: string,
+  column: string,
+  onDelete: string,
+  depth = 1,
+  referencedTable = 'users'
+): UserDataReference {
+  return {
+    table_schema: 'public',
+    table_name: table,
+    column_name: column,
+    referenced_schema: 'public',
+    referenced_table: referencedTable,
+    referenced_column: referencedTable === 'users' ? 'firebase_uid' : 'id',
+    on_delete: onDelete,
+    depth,
+  };
+}
+
+const ecommerceReferences = [
+  reference('orders', 'user_id', 'NO ACTION'),
+  reference('products', 'created_by', 'NO ACTION'),
+  reference('order_status_history', 'created_by', 'NO ACTION'),
+  reference('order_items', 'order_id', 'CASCADE', 2, 'orders'),
+];
+
+/**
+ * Mock Supabase client whose erase_user() returns the given result
+ */
+function createMockSupabaseClient(result: object, references: UserDataReference[] = ecommerceReferences) {
+  const rpc = vi.fn((name: string) => Promise.resolve(
+    name === 'erase_user'
+      ? { data: result, error: null }
+      : { data: references, error: null }
+  ));
+
+  return {
+    client: { rpc } as unknown as SupabaseClient,
+    mocks: { rpc },
+  };
+}
+
+describe('User Erasure - Unit Tests', () => {
+  describe('planUserErasure', () => {
+    it('should apply the default ecommerce policies', () => {
+      const steps = planUserErasure(ecommerceReferences);
+
+      expect(steps).toEqual([
+        expect.objectContaining({
+          table_name: 'orders',
+          column_name: 'user_id',
+          policy: 'reassign',
+          reassign_to: DELETED_USER_UID,
+          columns: expect.arrayContaining(['shipping_email', 'billing_email']),
+        }),
+        expect.objectContaining({ table_name: 'products', column_name: 'created_by', policy: 'anonymize', columns: [] }),
+        expect.objectContaining({ table_name: 'order_status_history', column_name: 'created_by', policy: 'anonymize' }),
+      ]);
+    });
+
+    it('should skip references below the first level', () => {
+      const steps = planUserErasure(ecommerceReferences);
+
+      expect(steps.map(step => step.table_name)).not.toContain('order_items');
+    });
+
+    it('should block unconfigured references without an ON DELETE action', () => {
+      const steps = planUserErasure([reference('invoices', 'user_id', 'NO ACTION')], { tables: {} });
+
+      expect(steps).toEqual([
+        { table_schema: 'public', table_name: 'invoices', column_name: 'user_id', policy: 'block', columns: [] },
+      ]);
+    });
+
+    it('should leave unconfigured cascading references to the database', () => {
+      const steps = planUserErasure(
+        [reference('sessions', 'user_id', 'CASCADE'), reference('comments', 'author_id', 'SET NULL')],
+        { tables: {} }
+      );
+
+      expect(steps).toEqual([]);
+    });
+
+    it('should prefer a column policy over a table policy', () => {
+      const config: ErasureConfig = {
+        tables: {
+          'public.messages': { policy: 'cascade' },
+          'public.messages.recipient_id': { policy: 'anonymize' },
+        },
+      };
+
+      const steps = planUserErasure(
+        [reference('messages', 'sender_id', 'NO ACTION'), reference('messages', 'recipient_id', 'NO ACTION')],
+        config
+      );
+
+      expect(steps.map(step => [step.column_name, step.policy])).toEqual([
+        ['sender_id', 'cascade'],
+        ['recipient_id', 'anonymize'],
+      ]);
+    });
+
+    it('should only set reassign_to for reassign steps', () => {
+      const steps = planUserErasure(ecommerceReferences);
+
+      expect(steps.filter(step => step.reassign_to).map(step => step.table_name)).toEqual(['orders']);
+    });
+  });
+
+  describe('validateErasureConfig', () => {
+    it('should accept every known policy', () => {
+      const config: ErasureConfig = {
+        tables: {
+          'public.a': { policy: 'cascade' },
+          'public.b': { policy: 'anonymize', columns: ['name'] },
+          'public.c': { policy: 'reassign' },
+          'public.d': { policy: 'block' },
+        },
+      };
+
+      expect(validateErasureConfig(config)).toBe(config);
+    });
+
+    it('should reject an unknown policy', () => {
+      const config = { tables: { 'public.orders': { policy: 'archive' } } } as unknown as ErasureConfig;
+
+      expect(() => validateErasureConfig(config)).toThrow("Unknown erasure policy 'archive' for public.orders");
+    });
+
+    it('should reject non-array columns', () => {
+      const config = { tables: { 'public.orders': { policy: 'anonymize', columns: 'email' } } } as unknown as ErasureConfig;
+
+      expect(() => validateErasureConfig(config)).toThrow('must be an array');
+    });
+  });
+
+  describe('eraseUser', () => {
+    it('should execute the plan through erase_user()', async () => {
+      const { client, mocks } = createMockSupabaseClient({
+        erased: true,
+        blocked: [],
+        steps: [{ table: 'public.orders', column: 'user_id', policy: 'reassign', rows: 2 }],
+      });
+
+      const report = await eraseUser(client, 'erased-uid');
+
+      expect(mocks.rpc).toHaveBeenCalledWith('user_data_references');
+      expect(mocks.rpc).toHaveBeenCalledWith('erase_user', {
+        target_uid: 'erased-uid',
+        steps: planUserErasure(ecommerceReferences),
+      });
+      expect(report).toEqual({
+        uid: 'erased-uid',
+        erased: true,
+        blocked: [],
+        steps: [{ table: 'public.orders', column: 'user_id', policy: 'reassign', rows: 2 }],
+      });
+    });
+
+    it('should report blocked erasures', async () => {
+      const { client } = createMockSupabaseClient(
+        { erased: false, blocked: ['public.invoices.user_id'], steps: [] },
+        [reference('invoices', 'user_id', 'RESTRICT')]
+      );
+
+      const report = await eraseUser(client, 'erased-uid', { config: { tables: {} } });
+
+      expect(report.erased).toBe(false);
+      expect(report.blocked).toEqual(['public.invoices.user_id']);
+    });
+
+    it('should throw when the transaction fails', async () => {
+      const { client, mocks } = createMockSupabaseClient({});
+      const rpcError = { code: '23502', message: 'null value violates not-null constraint' };
+      mocks.rpc.mockResolvedValue({ data: null, error: rpcError });
+
+      await expect(eraseUser(client, 'erased-uid', { references: ecommerceReferences })).rejects.toEqual(rpcError);
+    });
+
+    it('should reject an invalid config before touching the database', async () => {
+      const { client, mocks } = createMockSupabaseClient({});
+      const config = { tables: { 'public.orders': { policy: 'archive' } } } as unknown as ErasureConfig;
+
+      await expect(eraseUser(client, 'erased-uid', { config })).rejects.toThrow('Unknown erasure policy');
+      expect(mocks.rpc).not.toHaveBeenCalled();
+    });
+  });
+});
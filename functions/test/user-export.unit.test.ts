@@ -0,0 +1,172 @@
+/**
+ * Unit Tests for User Data Export
+ *
+ * Tests cover:
+ * - Loading the foreign key graph from user_data_references()
+ * - Following direct and cascading references to collect rows
+ * - De-duplicating rows reached through several foreign keys
+ * - Error propagation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { UserDataReference, collectUserData } from '../src/user-export';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Mock Supabase client backed by in-memory tables keyed by "schema.table"
+ */
+function createMockSupabaseClient(tables: Record<string, Row[]>, references: UserDataReference[] = []) {
+  const rpc = vi.fn().mockResolvedValue({ data: references, error: null });
+  const queries: { table: string; column: string; values: unknown[] }[] = [];
+
+  const tableQuery = (key: string) => ({
+    select: () => ({
+      eq: async (column: string, value: unknown) => ({
+        data: (tables[key] || []).filter(row => row[column] === value),
+        error: null,
+      }),
+      in: async (column: string, values: unknown[]) => {
+        queries.push({ table: key, column, values });
+        return {
+          data: (tables[key] || []).filter(row => values.includes(row[column])),
+          error: null,
+        };
+      },
+    }),
+  });
+
+  const from = vi.fn((table: string) => tableQuery(`public.${table}`));
+  const schema = vi.fn((name: string) => ({
+    from: (table: string) => tableQuery(`${name}.${table}`),
+  }));
+
+  return {
+    client: { rpc, from, schema } as unknown as SupabaseClient,
+    mocks: { rpc, from, schema, queries },
+  };
+}
+
+function reference(
+  table: string,
+  column: string,
+  referencedTable: string,
+  referencedColumn: string,
+  depth: number
+): UserDataReference {
+  return {
+    table_schema: 'public',
+    table_name: table,
+    column_name: column,
+    referenced_schema: 'public',
+    referenced_table: referencedTable,
+    referenced_column: referencedColumn,
+    on_delete: depth === 1 ? 'NO ACTION' : 'CASCADE',
+    depth,
+  };
+}
+
+const ecommerceReferences = [
+  reference('order_items', 'order_id', 'orders', 'id', 2),
+  reference('orders', 'user_id', 'users', 'firebase_uid', 1),
+  reference('products', 'created_by', 'users', 'firebase_uid', 1),
+  reference('order_status_history', 'order_id', 'orders', 'id', 2),
+  reference('order_status_history', 'created_by', 'users', 'firebase_uid', 1),
+];
+
+const ecommerceTables: Record<string, Row[]> = {
+  'public.users': [
+    { firebase_uid: 'export-uid', email: 'me@test.com' },
+    { firebase_uid: 'other-uid', email: 'other@test.com' },
+  ],
+  'public.orders': [
+    { id: 'order-1', user_id: 'export-uid' },
+    { id: 'order-2', user_id: 'other-uid' },
+  ],
+  'public.order_items': [
+    { id: 'item-1', order_id: 'order-1' },
+    { id: 'item-2', order_id: 'order-2' },
+  ],
+  'public.products': [
+    { id: 'product-1', created_by: 'export-uid' },
+  ],
+  'public.order_status_history': [
+    { id: 'history-1', order_id: 'order-1', created_by: 'export-uid' },
+    { id: 'history-2', order_id: 'order-2', created_by: null },
+  ],
+};
+
+describe('User Data Export - Unit Tests', () => {
+  const now = new Date('2024-06-01T00:00:00.000Z');
+
+  it('should collect the user row and every referencing row', async () => {
+    const { client, mocks } = createMockSupabaseClient(ecommerceTables, ecommerceReferences);
+
+    const bundle = await collectUserData(client, 'export-uid', { now });
+
+    expect(mocks.rpc).toHaveBeenCalledWith('user_data_references');
+    expect(bundle.format_version).toBe(1);
+    expect(bundle.firebase_uid).toBe('export-uid');
+    expect(bundle.exported_at).toBe('2024-06-01T00:00:00.000Z');
+    expect(bundle.tables['public.users']).toEqual([{ firebase_uid: 'export-uid', email: 'me@test.com' }]);
+    expect(bundle.tables['public.orders']).toEqual([{ id: 'order-1', user_id: 'export-uid' }]);
+    expect(bundle.tables['public.order_items']).toEqual([{ id: 'item-1', order_id: 'order-1' }]);
+    expect(bundle.tables['public.products']).toEqual([{ id: 'product-1', created_by: 'export-uid' }]);
+  });
+
+  it('should list a row reached through several foreign keys once', async () => {
+    const { client } = createMockSupabaseClient(ecommerceTables, ecommerceReferences);
+
+    const bundle = await collectUserData(client, 'export-uid', { now });
+
+    expect(bundle.tables['public.order_status_history']).toEqual([
+      { id: 'history-1', order_id: 'order-1', created_by: 'export-uid' },
+    ]);
+  });
+
+  it('should look up child rows by the parent key values', async () => {
+    const { client, mocks } = createMockSupabaseClient(ecommerceTables, ecommerceReferences);
+
+    await collectUserData(client, 'export-uid', { now });
+
+    expect(mocks.queries).toContainEqual({ table: 'public.orders', column: 'user_id', values: ['export-uid'] });
+    expect(mocks.queries).toContainEqual({ table: 'public.order_items', column: 'order_id', values: ['order-1'] });
+  });
+
+  it('should skip children when the parent has no rows', async () => {
+    const { client, mocks } = createMockSupabaseClient(
+      { 'public.users': [{ firebase_uid: 'no-orders-uid' }] },
+      ecommerceReferences
+    );
+
+    const bundle = await collectUserData(client, 'no-orders-uid', { now });
+
+    expect(mocks.queries.map(query => query.table)).not.toContain('public.order_items');
+    expect(bundle.tables['public.order_items']).toBeUndefined();
+  });
+
+  it('should export only the user row when nothing references users', async () => {
+    const { client } = createMockSupabaseClient(ecommerceTables, []);
+
+    const bundle = await collectUserData(client, 'export-uid', { now });
+
+    expect(Object.keys(bundle.tables)).toEqual(['public.users']);
+  });
+
+  it('should use pre-loaded references without calling the database function', async () => {
+    const { client, mocks } = createMockSupabaseClient(ecommerceTables);
+
+    await collectUserData(client, 'export-uid', { references: ecommerceReferences, now });
+
+    expect(mocks.rpc).not.toHaveBeenCalled();
+  });
+
+  it('should throw when the reference graph cannot be loaded', async () => {
+    const { client, mocks } = createMockSupabaseClient(ecommerceTables);
+    const rpcError = { code: 'PGRST202', message: 'function not found' };
+    mocks.rpc.mockResolvedValue({ data: null, error: rpcError });
+
+    await expect(collectUserData(client, 'export-uid', { now })).rejects.toEqual(rpcError);
+  });
+});
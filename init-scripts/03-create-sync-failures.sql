@@ -0,0 +1,41 @@
+-- Dead-letter queue for user sync events that exhausted their retries
+CREATE TABLE IF NOT EXISTS public.sync_failures (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    firebase_uid VARCHAR(128) NOT NULL,
+    operation VARCHAR(20) NOT NULL CHECK (operation IN ('sync', 'delete')),
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    error_code VARCHAR(50),
+    error_message TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'resolved', 'dead')),
+    next_retry_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for the replay job and on-call lookups
+CREATE INDEX IF NOT EXISTS idx_sync_failures_status_next_retry ON public.sync_failures(status, next_retry_at);
+CREATE INDEX IF NOT EXISTS idx_sync_failures_firebase_uid ON public.sync_failures(firebase_uid);
+
+-- Create trigger to auto-update updated_at
+CREATE TRIGGER update_sync_failures_updated_at
+    BEFORE UPDATE ON public.sync_failures
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS: only the service role (Cloud Functions) may read or write the queue
+ALTER TABLE public.sync_failures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to sync failures"
+    ON public.sync_failures
+    FOR ALL
+    USING (auth.role() = 'service_role');
+
+-- Add comments
+COMMENT ON TABLE public.sync_failures IS 'Dead-letter queue of Firebase to Supabase user sync events that failed after all retries';
+COMMENT ON COLUMN public.sync_failures.operation IS 'Failed operation: sync (upsert) or delete';
+COMMENT ON COLUMN public.sync_failures.payload IS 'Row data to replay (extracted user data for sync, uid for delete)';
+COMMENT ON COLUMN public.sync_failures.attempts IS 'Total attempts so far, including the original trigger retries';
+COMMENT ON COLUMN public.sync_failures.status IS 'pending = waiting for replay, resolved = replayed successfully, dead = gave up';
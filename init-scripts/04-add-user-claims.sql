@@ -0,0 +1,38 @@
+-- Mirror Firebase custom claims (app_role, tenant_id, plan, ...) onto public.users
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS custom_claims JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Create index for role lookups
+CREATE INDEX IF NOT EXISTS idx_users_role ON public.users ((custom_claims->>'app_role'));
+
+-- Create function to stop API clients from writing their own claims
+-- Firebase is the source of truth; only the service role (Cloud Functions) and
+-- direct database connections without JWT claims (migrations, Directus) may change them
+CREATE OR REPLACE FUNCTION protect_user_custom_claims()
+RETURNS TRIGGER AS $$
+DECLARE
+    jwt_claims JSONB := nullif(current_setting('request.jwt.claims', true), '')::jsonb;
+BEGIN
+    IF jwt_claims IS NULL OR jwt_claims->>'role' = 'service_role' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.custom_claims = '{}'::jsonb;
+    ELSIF NEW.custom_claims IS DISTINCT FROM OLD.custom_claims THEN
+        RAISE EXCEPTION 'custom_claims can only be changed by the service role'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to protect custom_claims
+CREATE TRIGGER protect_users_custom_claims
+    BEFORE INSERT OR UPDATE ON public.users
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_user_custom_claims();
+
+-- Add comments
+COMMENT ON COLUMN public.users.custom_claims IS 'Firebase custom claims mirrored by the sync Cloud Functions (read-only for clients)';
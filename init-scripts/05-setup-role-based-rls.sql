@@ -0,0 +1,48 @@
+-- Role-based access on top of the own-row policies in 02-setup-rls.sql
+-- Roles come from the `app_role` custom claim in the Firebase ID token (see setUserClaims);
+-- the `role` claim is left to PostgREST, which uses it as the Postgres role for the request
+
+-- Create helper to read a single claim from the request JWT
+CREATE OR REPLACE FUNCTION auth.jwt_claim(claim TEXT)
+RETURNS TEXT AS $$
+    SELECT nullif(current_setting('request.jwt.claims', true), '')::jsonb ->> claim;
+$$ LANGUAGE sql STABLE;
+
+-- Create helper to check the caller's role
+CREATE OR REPLACE FUNCTION auth.has_role(role_name TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT coalesce(auth.jwt_claim('app_role') = role_name, false);
+$$ LANGUAGE sql STABLE;
+
+-- Create helper to check the caller has one of several roles
+CREATE OR REPLACE FUNCTION auth.has_any_role(role_names TEXT[])
+RETURNS BOOLEAN AS $$
+    SELECT coalesce(auth.jwt_claim('app_role') = ANY(role_names), false);
+$$ LANGUAGE sql STABLE;
+
+-- Policy: Admins and support staff can read all users
+CREATE POLICY "Staff can view all users"
+    ON public.users
+    FOR SELECT
+    USING (auth.has_any_role(ARRAY['admin', 'support']));
+
+-- Policy: Admins can update any user
+CREATE POLICY "Admins can update all users"
+    ON public.users
+    FOR UPDATE
+    USING (auth.has_role('admin'))
+    WITH CHECK (auth.has_role('admin'));
+
+-- Policy: Admins can delete any user
+CREATE POLICY "Admins can delete users"
+    ON public.users
+    FOR DELETE
+    USING (auth.has_role('admin'));
+
+-- Add comments
+COMMENT ON FUNCTION auth.jwt_claim(TEXT) IS 'Returns a top-level claim from the request JWT, or NULL when there is no JWT or claim';
+COMMENT ON FUNCTION auth.has_role(TEXT) IS 'True when the app_role claim in the request JWT equals role_name';
+COMMENT ON FUNCTION auth.has_any_role(TEXT[]) IS 'True when the app_role claim in the request JWT is one of role_names';
+COMMENT ON POLICY "Staff can view all users" ON public.users IS 'Allows admin and support roles to read every user for back-office tooling';
+COMMENT ON POLICY "Admins can update all users" ON public.users IS 'Allows the admin role to edit any user profile (custom_claims stay protected by trigger)';
+COMMENT ON POLICY "Admins can delete users" ON public.users IS 'Allows the admin role to remove user rows';
@@ -0,0 +1,26 @@
+-- Soft delete for users removed from Firebase Auth
+-- deleteUserFromSupabase sets deleted_at and anonymizes the email; the
+-- purgeDeletedUsers Cloud Function hard-deletes rows after the retention period
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Create index for the purge job (only soft-deleted rows are indexed)
+CREATE INDEX IF NOT EXISTS idx_users_deleted_at
+    ON public.users(deleted_at)
+    WHERE deleted_at IS NOT NULL;
+
+-- Policy: Hide soft-deleted users from everyone except admins and the service role
+-- RESTRICTIVE, so it applies on top of every permissive policy above
+CREATE POLICY "Hide soft-deleted users"
+    ON public.users
+    AS RESTRICTIVE
+    FOR ALL
+    USING (
+        deleted_at IS NULL
+        OR auth.has_role('admin')
+        OR auth.role() = 'service_role'
+    );
+
+-- Add comments
+COMMENT ON COLUMN public.users.deleted_at IS 'Set when the Firebase user is deleted; the row is purged after USER_RETENTION_DAYS';
+COMMENT ON POLICY "Hide soft-deleted users" ON public.users IS 'Hides soft-deleted rows from API clients; admins can still see them to recover accidental deletions';
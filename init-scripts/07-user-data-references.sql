@@ -0,0 +1,82 @@
+-- Discover every table holding data tied to a user
+-- Used by the exportUserData Cloud Function so template tables (orders,
+-- products, ...) are covered automatically as soon as they reference
+-- public.users(firebase_uid).
+--
+-- Returns single-column foreign keys that either reference
+-- public.users(firebase_uid) directly (depth 1), or reference a table already
+-- in the graph with ON DELETE CASCADE (depth > 1), i.e. child rows owned by
+-- the parent such as order_items of an order. Non-cascading references
+-- (e.g. order_items.product_id) are not followed, so other users' rows never
+-- leak into an export.
+CREATE OR REPLACE FUNCTION public.user_data_references()
+RETURNS TABLE (
+    table_schema TEXT,
+    table_name TEXT,
+    column_name TEXT,
+    referenced_schema TEXT,
+    referenced_table TEXT,
+    referenced_column TEXT,
+    on_delete TEXT,
+    depth INT
+) AS $$
+    WITH RECURSIVE foreign_keys AS (
+        SELECT
+            child_ns.nspname::TEXT AS table_schema,
+            child.relname::TEXT AS table_name,
+            child_col.attname::TEXT AS column_name,
+            parent_ns.nspname::TEXT AS referenced_schema,
+            parent.relname::TEXT AS referenced_table,
+            parent_col.attname::TEXT AS referenced_column,
+            CASE con.confdeltype
+                WHEN 'c' THEN 'CASCADE'
+                WHEN 'n' THEN 'SET NULL'
+                WHEN 'd' THEN 'SET DEFAULT'
+                WHEN 'r' THEN 'RESTRICT'
+                ELSE 'NO ACTION'
+            END AS on_delete
+        FROM pg_constraint con
+        JOIN pg_class child ON child.oid = con.conrelid
+        JOIN pg_namespace child_ns ON child_ns.oid = child.relnamespace
+        JOIN pg_attribute child_col ON child_col.attrelid = con.conrelid AND child_col.attnum = con.conkey[1]
+        JOIN pg_class parent ON parent.oid = con.confrelid
+        JOIN pg_namespace parent_ns ON parent_ns.oid = parent.relnamespace
+        JOIN pg_attribute parent_col ON parent_col.attrelid = con.confrelid AND parent_col.attnum = con.confkey[1]
+        WHERE con.contype = 'f'
+          AND array_length(con.conkey, 1) = 1
+    ),
+    graph AS (
+        SELECT fk.*, 1 AS depth, ARRAY[fk.table_schema || '.' || fk.table_name] AS path
+        FROM foreign_keys fk
+        WHERE fk.referenced_schema = 'public'
+          AND fk.referenced_table = 'users'
+          AND fk.referenced_column = 'firebase_uid'
+
+        UNION ALL
+
+        SELECT fk.*, graph.depth + 1, graph.path || (fk.table_schema || '.' || fk.table_name)
+        FROM foreign_keys fk
+        JOIN graph
+          ON fk.referenced_schema = graph.table_schema
+         AND fk.referenced_table = graph.table_name
+        WHERE fk.on_delete = 'CASCADE'
+          AND NOT (fk.table_schema || '.' || fk.table_name) = ANY(graph.path)
+    )
+    SELECT table_schema, table_name, column_name, referenced_schema, referenced_table,
+           referenced_column, on_delete, depth
+    FROM graph
+    ORDER BY depth, table_schema, table_name, column_name;
+$$ LANGUAGE sql STABLE;
+
+-- Only the service role may inspect the schema
+REVOKE EXECUTE ON FUNCTION public.user_data_references() FROM PUBLIC;
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'service_role') THEN
+        GRANT EXECUTE ON FUNCTION public.user_data_references() TO service_role;
+    END IF;
+END
+$$;
+
+-- Add comments
+COMMENT ON FUNCTION public.user_data_references() IS 'Foreign keys that tie rows to a user: direct references to users(firebase_uid) plus ON DELETE CASCADE children';
@@ -0,0 +1,100 @@
+-- Cascading erasure of a user and the rows that reference it
+-- The erasure plan is built by the Cloud Functions (functions/src/user-erasure.ts)
+-- from the foreign key graph and per-table policies; this function executes it
+-- in a single transaction so a failure leaves every table untouched.
+
+-- Placeholder owner for rows reassigned away from erased users
+-- (e.g. orders that must be kept for accounting)
+INSERT INTO public.users (firebase_uid, email, display_name)
+VALUES ('__deleted_user__', '__deleted_user__@deleted.invalid', 'Deleted user')
+ON CONFLICT (firebase_uid) DO NOTHING;
+
+-- Create function to execute an erasure plan
+-- steps: [{ table_schema, table_name, column_name, policy, columns, reassign_to }]
+--   policy: cascade | anonymize | reassign | block
+-- Returns: { erased, blocked: ["schema.table.column"], steps: [{ table, column, policy, rows }] }
+CREATE OR REPLACE FUNCTION public.erase_user(target_uid TEXT, steps JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    step JSONB;
+    target TEXT;
+    assignments TEXT;
+    affected INT;
+    blocked JSONB := '[]'::jsonb;
+    report JSONB := '[]'::jsonb;
+BEGIN
+    -- Check every blocking reference before touching anything
+    FOR step IN SELECT value FROM jsonb_array_elements(steps) LOOP
+        IF step->>'policy' = 'block' THEN
+            EXECUTE format('SELECT count(*) FROM %I.%I WHERE %I = $1',
+                           step->>'table_schema', step->>'table_name', step->>'column_name')
+                INTO affected
+                USING target_uid;
+
+            IF affected > 0 THEN
+                blocked := blocked || to_jsonb(format('%s.%s.%s',
+                    step->>'table_schema', step->>'table_name', step->>'column_name'));
+            END IF;
+        END IF;
+    END LOOP;
+
+    IF jsonb_array_length(blocked) > 0 THEN
+        RETURN jsonb_build_object('erased', false, 'blocked', blocked, 'steps', report);
+    END IF;
+
+    FOR step IN SELECT value FROM jsonb_array_elements(steps) LOOP
+        target := format('%I.%I', step->>'table_schema', step->>'table_name');
+        affected := 0;
+
+        IF step->>'policy' = 'cascade' THEN
+            EXECUTE format('DELETE FROM %s WHERE %I = $1', target, step->>'column_name')
+                USING target_uid;
+            GET DIAGNOSTICS affected = ROW_COUNT;
+
+        ELSIF step->>'policy' IN ('anonymize', 'reassign') THEN
+            -- Point the reference at NULL (anonymize) or the placeholder user (reassign)
+            -- and clear the listed personal data columns
+            SELECT string_agg(format('%I = NULL', col), ', ')
+                INTO assignments
+                FROM jsonb_array_elements_text(coalesce(step->'columns', '[]'::jsonb)) AS col;
+
+            EXECUTE format('UPDATE %s SET %I = $2%s WHERE %I = $1',
+                           target,
+                           step->>'column_name',
+                           coalesce(', ' || assignments, ''),
+                           step->>'column_name')
+                USING target_uid,
+                      CASE WHEN step->>'policy' = 'reassign' THEN step->>'reassign_to' END;
+            GET DIAGNOSTICS affected = ROW_COUNT;
+
+        ELSIF step->>'policy' <> 'block' THEN
+            RAISE EXCEPTION 'Unknown erasure policy: %', step->>'policy'
+                USING ERRCODE = '22023';
+        END IF;
+
+        report := report || jsonb_build_object(
+            'table', format('%s.%s', step->>'table_schema', step->>'table_name'),
+            'column', step->>'column_name',
+            'policy', step->>'policy',
+            'rows', affected
+        );
+    END LOOP;
+
+    DELETE FROM public.users WHERE firebase_uid = target_uid;
+
+    RETURN jsonb_build_object('erased', true, 'blocked', blocked, 'steps', report);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the service role may erase users
+REVOKE EXECUTE ON FUNCTION public.erase_user(TEXT, JSONB) FROM PUBLIC;
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'service_role') THEN
+        GRANT EXECUTE ON FUNCTION public.erase_user(TEXT, JSONB) TO service_role;
+    END IF;
+END
+$$;
+
+-- Add comments
+COMMENT ON FUNCTION public.erase_user(TEXT, JSONB) IS 'Applies an erasure plan (cascade/anonymize/reassign/block per reference) and deletes the user, all in one transaction';
@@ -0,0 +1,19 @@
+-- Publish public.users to Supabase Realtime
+-- Clients subscribe with subscribeToUserProfile() (client/auth.ts); Realtime
+-- checks each change against the RLS SELECT policies in 02-setup-rls.sql, so
+-- users only receive changes to their own row.
+-- Supabase creates the supabase_realtime publication; it is created here for
+-- plain Postgres so the script runs everywhere.
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        CREATE PUBLICATION supabase_realtime;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'users'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.users;
+    END IF;
+END $$;
@@ -0,0 +1,52 @@
+-- Sign-in methods linked to each user
+-- One row per Firebase provider (google.com, password, phone, ...), written by
+-- the Cloud Functions from the user's providerData whenever the user is
+-- created, signs in or links/unlinks a provider (see identity-sync.ts), so
+-- CMS admins can see how each user logs in.
+CREATE TABLE IF NOT EXISTS public.user_identities (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    firebase_uid VARCHAR(128) NOT NULL REFERENCES public.users(firebase_uid) ON DELETE CASCADE,
+    provider_id VARCHAR(100) NOT NULL,
+    provider_uid VARCHAR(255) NOT NULL,
+    email VARCHAR(255),
+    display_name VARCHAR(255),
+    phone_number VARCHAR(50),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (firebase_uid, provider_id)
+);
+
+-- Create index for looking up the user behind a provider account
+CREATE INDEX IF NOT EXISTS idx_user_identities_provider ON public.user_identities(provider_id, provider_uid);
+
+-- Create trigger to auto-update updated_at
+CREATE TRIGGER update_user_identities_updated_at
+    BEFORE UPDATE ON public.user_identities
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS: users and staff can read, only the service role (Cloud Functions) writes
+ALTER TABLE public.user_identities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own identities"
+    ON public.user_identities
+    FOR SELECT
+    USING (auth.uid() = firebase_uid);
+
+CREATE POLICY "Staff can view all identities"
+    ON public.user_identities
+    FOR SELECT
+    USING (auth.has_any_role(ARRAY['admin', 'support']));
+
+CREATE POLICY "Service role has full access to identities"
+    ON public.user_identities
+    FOR ALL
+    USING (auth.role() = 'service_role');
+
+-- Add comments
+COMMENT ON TABLE public.user_identities IS 'Sign-in providers linked to each Firebase user, mirrored from providerData';
+COMMENT ON COLUMN public.user_identities.provider_id IS 'Firebase provider ID, e.g. google.com, github.com, password or phone';
+COMMENT ON COLUMN public.user_identities.provider_uid IS 'The user''s ID at the provider (the email for password, the number for phone)';
+COMMENT ON POLICY "Users can view own identities" ON public.user_identities IS 'Allows users to read their own linked providers';
+COMMENT ON POLICY "Staff can view all identities" ON public.user_identities IS 'Allows admin and support roles to see how every user signs in';
+COMMENT ON POLICY "Service role has full access to identities" ON public.user_identities IS 'Only Cloud Functions write identities, so they always match Firebase';
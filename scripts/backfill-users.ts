@@ -0,0 +1,136 @@
+/**
+ * Backfill Users Script for Directus-Firebase-Supabase Setup
+ * This script copies every existing Firebase Auth user into the Supabase public.users table
+ * using the same field mapping as the syncUserToSupabase Cloud Function
+ *
+ * Usage:
+ *   npm run backfill-users                             # Backfill all users (500 per batch)
+ *   npm run backfill-users -- --dry-run                # Summarize what would be written
+ *   npm run backfill-users -- --batch-size 1000        # Change the batch size (1-1000)
+ *   npm run backfill-users -- --checkpoint <file>      # Use a custom checkpoint file
+ *   npm run backfill-users -- --restart                # Ignore the saved checkpoint
+ *   or
+ *   npx tsx scripts/backfill-users.ts [options]
+ *
+ * Set FIREBASE_AUTH_EMULATOR_HOST (e.g. localhost:9099) to run against the Auth emulator.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  BackfillCheckpoint,
+  CheckpointStore,
+  DEFAULT_BATCH_SIZE,
+  backfillUsers,
+} from '../functions/src/backfill';
+import { AdminClients, createAdminClients } from './lib/admin-clients';
+
+// ANSI color codes for console output
+const colors = {
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  red: '\x1b[31m',
+  reset: '\x1b[0m',
+};
+
+const DEFAULT_CHECKPOINT_FILE = path.resolve(__dirname, '../.backfill-checkpoint.json');
+
+/**
+ * Checkpoint store backed by a JSON file
+ */
+function createFileCheckpointStore(filePath: string): CheckpointStore {
+  return {
+    async load() {
+      if (!fs.existsSync(filePath)) {
+        return null;
+      }
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')) as BackfillCheckpoint;
+    },
+    async save(checkpoint) {
+      fs.writeFileSync(filePath, JSON.stringify(checkpoint, null, 2));
+    },
+    async clear() {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    },
+  };
+}
+
+/**
+ * Read the value following a flag, e.g. --batch-size 1000
+ */
+function getArgValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function runBackfill() {
+  console.log(`${colors.green}=== Backfill Users ===${colors.reset}\n`);
+
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const batchSize = parseInt(getArgValue(args, '--batch-size') || String(DEFAULT_BATCH_SIZE), 10);
+  const checkpointFile = path.resolve(getArgValue(args, '--checkpoint') || DEFAULT_CHECKPOINT_FILE);
+  const checkpoint = createFileCheckpointStore(checkpointFile);
+
+  if (args.includes('--restart')) {
+    await checkpoint.clear();
+  }
+
+  let clients: AdminClients;
+  try {
+    clients = createAdminClients();
+  } catch (error) {
+    console.error(`${colors.red}Error: ${error instanceof Error ? error.message : String(error)}${colors.reset}`);
+    process.exit(1);
+  }
+
+  const { auth, supabase, projectId, emulatorHost } = clients;
+
+  console.log(`  Firebase project: ${projectId}${emulatorHost ? ` (emulator at ${emulatorHost})` : ''}`);
+  console.log(`  Mode: ${dryRun ? 'dry run' : 'write'}`);
+  console.log(`  Batch size: ${batchSize}`);
+  if (!dryRun) {
+    console.log(`  Checkpoint: ${checkpointFile}`);
+  }
+  console.log('');
+
+  try {
+    const summary = await backfillUsers(auth, supabase, {
+      batchSize,
+      dryRun,
+      checkpoint,
+      onBatch: progress => {
+        console.log(`  ✓ Batch ${progress.batches}: ${progress.processed} users processed`);
+      },
+    });
+
+    console.log('');
+    if (summary.resumed) {
+      console.log(`${colors.yellow}Resumed from saved checkpoint${colors.reset}`);
+    }
+
+    if (summary.dryRun) {
+      console.log(`${colors.green}Dry run summary:${colors.reset}`);
+      console.log(`  Firebase users: ${summary.processed}`);
+      console.log(`  New rows to insert: ${summary.newUsers}`);
+      console.log(`  Existing rows to update: ${summary.existingUsers}`);
+      console.log(`  Batches: ${summary.batches}`);
+    } else {
+      console.log(`${colors.green}✓ Backfilled ${summary.upserted} users in ${summary.batches} batches${colors.reset}`);
+    }
+
+  } catch (error) {
+    console.error('');
+    console.error(`${colors.red}✗ Backfill failed!${colors.reset}`);
+    console.error(`${colors.red}Error: ${error instanceof Error ? error.message : JSON.stringify(error)}${colors.reset}`);
+    if (!dryRun) {
+      console.error(`${colors.yellow}Re-run the same command to resume from the last completed batch.${colors.reset}`);
+    }
+    process.exit(1);
+  }
+}
+
+// Run the backfill script
+runBackfill();
@@ -0,0 +1,108 @@
+/**
+ * Generate Database Types Script for Directus-Firebase-Supabase Setup
+ * This script introspects the local Postgres and writes client/database.types.ts
+ * (the Database type for createClient<Database>() plus column metadata for the
+ * runtime validators in client/validators.ts)
+ *
+ * Usage:
+ *   npm run generate-db-types                    # Write client/database.types.ts
+ *   npm run generate-db-types -- --out <file>    # Write to another file
+ *   npm run generate-db-types -- --check         # Fail if the file is out of date (CI)
+ *   or
+ *   npx tsx scripts/generate-db-types.ts [options]
+ *
+ * Apply template migrations (scripts/add-template.sh) first so their tables
+ * (products, orders, ...) are included.
+ */
+
+import { Client } from 'pg';
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import { introspectSchema, renderDatabaseTypes } from './lib/db-types';
+
+// Load environment variables
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+// ANSI color codes for console output
+const colors = {
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  red: '\x1b[31m',
+  reset: '\x1b[0m',
+};
+
+const DEFAULT_OUT_FILE = path.resolve(__dirname, '../client/database.types.ts');
+
+/**
+ * Read the value following a flag, e.g. --out types.ts
+ */
+function getArgValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function generateDbTypes() {
+  console.log(`${colors.green}=== Generate Database Types ===${colors.reset}\n`);
+
+  // Check required environment variables
+  const { DB_USER, DB_PASSWORD, DB_NAME } = process.env;
+
+  if (!DB_USER || !DB_PASSWORD || !DB_NAME) {
+    console.error(`${colors.red}Error: Required database environment variables are not set!${colors.reset}`);
+    console.error('Please ensure DB_USER, DB_PASSWORD, and DB_NAME are configured in .env');
+    process.exit(1);
+  }
+
+  const args = process.argv.slice(2);
+  const outFile = path.resolve(getArgValue(args, '--out') || DEFAULT_OUT_FILE);
+  const check = args.includes('--check');
+
+  // Create PostgreSQL client
+  const client = new Client({
+    host: process.env.DB_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT || '5432', 10),
+    user: DB_USER,
+    password: DB_PASSWORD,
+    database: DB_NAME,
+  });
+
+  try {
+    await client.connect();
+
+    const model = await introspectSchema(client);
+    const output = renderDatabaseTypes(model);
+
+    console.log(`  Tables: ${model.tables.map(table => table.name).sort().join(', ') || '(none)'}`);
+    console.log(`  Enums: ${Object.keys(model.enums).sort().join(', ') || '(none)'}`);
+    console.log('');
+
+    if (check) {
+      const current = fs.existsSync(outFile) ? fs.readFileSync(outFile, 'utf8') : '';
+      if (current !== output) {
+        console.error(`${colors.red}✗ ${path.relative(process.cwd(), outFile)} is out of date. Run npm run generate-db-types.${colors.reset}`);
+        process.exit(1);
+      }
+      console.log(`${colors.green}✓ ${path.relative(process.cwd(), outFile)} is up to date${colors.reset}`);
+      return;
+    }
+
+    fs.writeFileSync(outFile, output);
+    console.log(`${colors.green}✓ Wrote ${path.relative(process.cwd(), outFile)}${colors.reset}`);
+
+  } catch (error) {
+    console.error('');
+    console.error(`${colors.red}✗ Type generation failed!${colors.reset}`);
+    console.error(`${colors.red}Error: ${error instanceof Error ? error.message : String(error)}${colors.reset}`);
+    console.error('');
+    console.error(`${colors.yellow}Troubleshooting:${colors.reset}`);
+    console.error('  1. Ensure Docker containers are running: docker-compose up -d');
+    console.error('  2. Check database credentials in .env file');
+    process.exit(1);
+  } finally {
+    await client.end();
+  }
+}
+
+// Run the generator
+generateDbTypes();
@@ -0,0 +1,75 @@
+/**
+ * Admin clients shared by the user maintenance scripts
+ * (reconcile-users.ts, backfill-users.ts)
+ *
+ * Initializes the Firebase Admin SDK and a Supabase client with the service
+ * role key from .env. When FIREBASE_AUTH_EMULATOR_HOST is set, the Admin SDK
+ * talks to the Auth emulator and only FIREBASE_PROJECT_ID is required.
+ */
+
+import * as admin from 'firebase-admin';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+// Load environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+export interface AdminClients {
+  auth: admin.auth.Auth;
+  supabase: SupabaseClient;
+  projectId: string;
+  emulatorHost?: string;
+}
+
+/**
+ * Create Firebase Admin and Supabase service role clients
+ *
+ * @throws {Error} If required environment variables are missing
+ */
+export function createAdminClients(): AdminClients {
+  const {
+    FIREBASE_PROJECT_ID,
+    FIREBASE_CLIENT_EMAIL,
+    FIREBASE_PRIVATE_KEY,
+    FIREBASE_AUTH_EMULATOR_HOST,
+    SUPABASE_URL,
+    SUPABASE_SERVICE_ROLE_KEY,
+  } = process.env;
+
+  if (!FIREBASE_PROJECT_ID || !SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error(
+      'Required environment variables are not set. Please ensure FIREBASE_PROJECT_ID, SUPABASE_URL, and SUPABASE_SERVICE_ROLE_KEY are configured in .env'
+    );
+  }
+
+  if (!FIREBASE_AUTH_EMULATOR_HOST && (!FIREBASE_CLIENT_EMAIL || !FIREBASE_PRIVATE_KEY)) {
+    throw new Error(
+      'Firebase service account is not configured. Please set FIREBASE_CLIENT_EMAIL and FIREBASE_PRIVATE_KEY, or FIREBASE_AUTH_EMULATOR_HOST to use the emulator'
+    );
+  }
+
+  // The emulator only needs a project ID
+  const app = admin.initializeApp(
+    FIREBASE_AUTH_EMULATOR_HOST
+      ? { projectId: FIREBASE_PROJECT_ID }
+      : {
+          credential: admin.credential.cert({
+            projectId: FIREBASE_PROJECT_ID,
+            clientEmail: FIREBASE_CLIENT_EMAIL,
+            privateKey: FIREBASE_PRIVATE_KEY!.replace(/\\n/g, '\n'),
+          }),
+        }
+  );
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false },
+  });
+
+  return {
+    auth: app.auth(),
+    supabase,
+    projectId: FIREBASE_PROJECT_ID,
+    emulatorHost: FIREBASE_AUTH_EMULATOR_HOST,
+  };
+}
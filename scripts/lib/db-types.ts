@@ -0,0 +1,373 @@
+/**
+ * Database type generation shared by generate-db-types.ts
+ *
+ * Introspects a Postgres schema (tables, columns, nullability, enums,
+ * single-column IN (...) checks and foreign keys) and renders a TypeScript
+ * module with:
+ * - a Database type for createClient<Database>() (Row/Insert/Update/Relationships)
+ * - DATABASE_COLUMNS, the same column information as a constant, used by
+ *   client/validators.ts to check rows at runtime
+ *
+ * Introspection and rendering are separate so the rendering can be tested
+ * without a database.
+ */
+
+/**
+ * Minimal slice of pg's Client used for introspection
+ */
+export interface Queryable {
+  query(text: string, values?: unknown[]): Promise<{ rows: any[] }>;
+}
+
+export interface ColumnModel {
+  name: string;
+  // information_schema udt_name, e.g. varchar, int4, _text, or an enum name
+  udtName: string;
+  nullable: boolean;
+  hasDefault: boolean;
+  // Values allowed by an enum type or a CHECK (column IN (...)) constraint
+  values?: string[];
+}
+
+export interface RelationshipModel {
+  foreignKeyName: string;
+  columns: string[];
+  isOneToOne: boolean;
+  referencedRelation: string;
+  referencedColumns: string[];
+}
+
+export interface TableModel {
+  name: string;
+  columns: ColumnModel[];
+  relationships: RelationshipModel[];
+}
+
+export interface SchemaModel {
+  tables: TableModel[];
+  enums: Record<string, string[]>;
+}
+
+// How a column is checked at runtime (client/validators.ts)
+export type ColumnKind = 'string' | 'number' | 'boolean' | 'json' | 'unknown';
+
+const STRING_TYPES = [
+  'text', 'varchar', 'bpchar', 'char', 'name', 'citext', 'uuid',
+  'date', 'time', 'timetz', 'timestamp', 'timestamptz', 'interval',
+  'inet', 'cidr', 'macaddr', 'bytea', 'tsvector',
+];
+// numeric is returned as a JSON number by PostgREST
+const NUMBER_TYPES = ['int2', 'int4', 'int8', 'float4', 'float8', 'numeric', 'oid'];
+
+const COLUMNS_QUERY = `
+  SELECT c.table_name, c.column_name, c.udt_name, c.is_nullable, c.column_default, c.is_identity
+  FROM information_schema.columns c
+  JOIN information_schema.tables t
+    ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+  WHERE c.table_schema = $1 AND t.table_type = 'BASE TABLE'
+  ORDER BY c.table_name, c.ordinal_position
+`;
+
+const ENUMS_QUERY = `
+  SELECT t.typname AS enum_name, e.enumlabel AS value
+  FROM pg_type t
+  JOIN pg_enum e ON e.enumtypid = t.oid
+  JOIN pg_namespace n ON n.oid = t.typnamespace
+  WHERE n.nspname = $1
+  ORDER BY t.typname, e.enumsortorder
+`;
+
+const CONSTRAINTS_QUERY = `
+  SELECT
+    con.conname AS name,
+    con.contype AS type,
+    rel.relname AS table_name,
+    ARRAY(
+      SELECT att.attname FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+      JOIN pg_attribute att ON att.attrelid = con.conrelid AND att.attnum = k.attnum
+      ORDER BY k.ord
+    ) AS columns,
+    ref.relname AS referenced_table,
+    ARRAY(
+      SELECT att.attname FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+      JOIN pg_attribute att ON att.attrelid = con.confrelid AND att.attnum = k.attnum
+      ORDER BY k.ord
+    ) AS referenced_columns,
+    pg_get_constraintdef(con.oid) AS definition
+  FROM pg_constraint con
+  JOIN pg_class rel ON rel.oid = con.conrelid
+  JOIN pg_namespace n ON n.oid = rel.relnamespace
+  LEFT JOIN pg_class ref ON ref.oid = con.confrelid
+  WHERE n.nspname = $1 AND con.contype IN ('p', 'u', 'f', 'c')
+  ORDER BY rel.relname, con.conname
+`;
+
+/**
+ * Read the allowed values of a CHECK constraint like
+ * CHECK (((status)::text = ANY ((ARRAY['draft'::character varying, ...])::text[])))
+ *
+ * @returns The values, or null if the check is not a plain IN (...) list
+ */
+export function parseCheckValues(definition: string): string[] | null {
+  // Quoted literals may contain ']' or ',', so match them as a whole
+  const match = definition.match(/=\s*ANY\s*\(+ARRAY\[((?:[^'\]]|'(?:[^']|'')*')*)\]/);
+  if (!match) {
+    return null;
+  }
+
+  const values: string[] = [];
+  for (const item of match[1].split(/,(?=(?:[^']*'[^']*')*[^']*$)/)) {
+    const literal = item.trim().match(/^'((?:[^']|'')*)'(?:::[\w\s]+)?$/);
+    if (!literal) {
+      return null;
+    }
+    values.push(literal[1].replace(/''/g, "'"));
+  }
+
+  return values;
+}
+
+// Schema exposed through PostgREST
+const SCHEMA = 'public';
+
+/**
+ * Introspect the tables and enums of the public schema
+ */
+export async function introspectSchema(client: Queryable): Promise<SchemaModel> {
+  const [columns, enumValues, constraints] = await Promise.all([
+    client.query(COLUMNS_QUERY, [SCHEMA]),
+    client.query(ENUMS_QUERY, [SCHEMA]),
+    client.query(CONSTRAINTS_QUERY, [SCHEMA]),
+  ]);
+
+  const enums: Record<string, string[]> = {};
+  for (const row of enumValues.rows) {
+    (enums[row.enum_name] ||= []).push(row.value);
+  }
+
+  const tables = new Map<string, TableModel>();
+  for (const row of columns.rows) {
+    if (!tables.has(row.table_name)) {
+      tables.set(row.table_name, { name: row.table_name, columns: [], relationships: [] });
+    }
+
+    tables.get(row.table_name)!.columns.push({
+      name: row.column_name,
+      udtName: row.udt_name,
+      nullable: row.is_nullable === 'YES',
+      hasDefault: row.column_default !== null || row.is_identity === 'YES',
+      ...(enums[row.udt_name] ? { values: enums[row.udt_name] } : {}),
+    });
+  }
+
+  // Column sets that are unique per table, to tell one-to-one relationships
+  const uniqueKeys = constraints.rows
+    .filter(row => row.type === 'p' || row.type === 'u')
+    .map(row => `${row.table_name}:${[...row.columns].sort().join(',')}`);
+
+  for (const row of constraints.rows) {
+    const table = tables.get(row.table_name);
+    if (!table) {
+      continue;
+    }
+
+    if (row.type === 'c' && row.columns.length === 1) {
+      const values = parseCheckValues(row.definition);
+      const column = table.columns.find(candidate => candidate.name === row.columns[0]);
+      if (values && column && !column.values) {
+        column.values = values;
+      }
+    }
+
+    if (row.type === 'f') {
+      table.relationships.push({
+        foreignKeyName: row.name,
+        columns: row.columns,
+        isOneToOne: uniqueKeys.includes(`${row.table_name}:${[...row.columns].sort().join(',')}`),
+        referencedRelation: row.referenced_table,
+        referencedColumns: row.referenced_columns,
+      });
+    }
+  }
+
+  return { tables: [...tables.values()], enums };
+}
+
+/**
+ * Runtime kind of a Postgres type
+ */
+export function columnKind(udtName: string, enums: Record<string, string[]> = {}): ColumnKind {
+  const base = udtName.replace(/^_/, '');
+
+  if (STRING_TYPES.includes(base) || enums[base]) {
+    return 'string';
+  }
+  if (NUMBER_TYPES.includes(base)) {
+    return 'number';
+  }
+  if (base === 'bool') {
+    return 'boolean';
+  }
+  if (base === 'json' || base === 'jsonb') {
+    return 'json';
+  }
+  return 'unknown';
+}
+
+/**
+ * TypeScript type of a column's values, without null
+ */
+export function columnType(column: ColumnModel, enums: Record<string, string[]> = {}): string {
+  const isArray = column.udtName.startsWith('_');
+  const base = column.udtName.replace(/^_/, '');
+
+  let type: string;
+  if (enums[base]) {
+    type = `Database['public']['Enums']['${base}']`;
+  } else if (column.values) {
+    type = column.values.map(value => JSON.stringify(value)).join(' | ');
+  } else {
+    const kind = columnKind(column.udtName, enums);
+    type = kind === 'json' ? 'Json' : kind;
+  }
+
+  if (isArray) {
+    return type.includes('|') ? `(${type})[]` : `${type}[]`;
+  }
+  return type;
+}
+
+function byName<T extends { name: string }>(items: T[]): T[] {
+  return [...items].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function renderFields(columns: ColumnModel[], enums: Record<string, string[]>, optional: (column: ColumnModel) => boolean): string[] {
+  return byName(columns).map((column) => {
+    const type = columnType(column, enums) + (column.nullable ? ' | null' : '');
+    return `          ${column.name}${optional(column) ? '?' : ''}: ${type};`;
+  });
+}
+
+function renderRelationships(relationships: RelationshipModel[]): string[] {
+  if (!relationships.length) {
+    return ['        Relationships: [];'];
+  }
+
+  const lines = ['        Relationships: ['];
+  for (const relationship of [...relationships].sort((a, b) => a.foreignKeyName.localeCompare(b.foreignKeyName))) {
+    lines.push(
+      '          {',
+      `            foreignKeyName: ${JSON.stringify(relationship.foreignKeyName)};`,
+      `            columns: ${JSON.stringify(relationship.columns)};`,
+      `            isOneToOne: ${relationship.isOneToOne};`,
+      `            referencedRelation: ${JSON.stringify(relationship.referencedRelation)};`,
+      `            referencedColumns: ${JSON.stringify(relationship.referencedColumns)};`,
+      '          },'
+    );
+  }
+  lines.push('        ];');
+  return lines;
+}
+
+function renderColumnSpec(column: ColumnModel, enums: Record<string, string[]>): string {
+  const base = column.udtName.replace(/^_/, '');
+  const values = enums[base] || column.values;
+  const parts = [
+    `kind: '${columnKind(column.udtName, enums)}'`,
+    `nullable: ${column.nullable}`,
+    ...(column.udtName.startsWith('_') ? ['array: true'] : []),
+    ...(values ? [`values: [${values.map(value => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`).join(', ')}]`] : []),
+  ];
+  return `    ${column.name}: { ${parts.join(', ')} },`;
+}
+
+/**
+ * Render the generated module for a schema model
+ */
+export function renderDatabaseTypes(model: SchemaModel): string {
+  const { enums } = model;
+  const tables = byName(model.tables);
+  const enumNames = Object.keys(enums).sort();
+  const lines: string[] = [
+    '/**',
+    ' * Database Types',
+    ' *',
+    ' * Generated by scripts/generate-db-types.ts from the public schema of the',
+    ' * local Postgres. Do not edit by hand; run `npm run generate-db-types` after',
+    ' * changing init-scripts/ or applying a template migration.',
+    ' */',
+    '',
+    'export type Json =',
+    '  | string',
+    '  | number',
+    '  | boolean',
+    '  | null',
+    '  | { [key: string]: Json | undefined }',
+    '  | Json[];',
+    '',
+    'export type Database = {',
+    '  public: {',
+    '    Tables: {',
+  ];
+
+  for (const table of tables) {
+    lines.push(
+      `      ${table.name}: {`,
+      '        Row: {',
+      ...renderFields(table.columns, enums, () => false),
+      '        };',
+      '        Insert: {',
+      ...renderFields(table.columns, enums, column => column.nullable || column.hasDefault),
+      '        };',
+      '        Update: {',
+      ...renderFields(table.columns, enums, () => true),
+      '        };',
+      ...renderRelationships(table.relationships),
+      '      };'
+    );
+  }
+
+  lines.push(
+    '    };',
+    '    Views: { [_ in never]: never };',
+    '    Functions: { [_ in never]: never };'
+  );
+
+  if (enumNames.length) {
+    lines.push('    Enums: {');
+    for (const name of enumNames) {
+      lines.push(`      ${name}: ${enums[name].map(value => JSON.stringify(value)).join(' | ')};`);
+    }
+    lines.push('    };');
+  } else {
+    lines.push('    Enums: { [_ in never]: never };');
+  }
+
+  lines.push(
+    '    CompositeTypes: { [_ in never]: never };',
+    '  };',
+    '};',
+    '',
+    "export type TableName = keyof Database['public']['Tables'];",
+    '',
+    "export type Tables<T extends TableName> = Database['public']['Tables'][T]['Row'];",
+    "export type TablesInsert<T extends TableName> = Database['public']['Tables'][T]['Insert'];",
+    "export type TablesUpdate<T extends TableName> = Database['public']['Tables'][T]['Update'];",
+    "export type Enums<T extends keyof Database['public']['Enums']> = Database['public']['Enums'][T];",
+    '',
+    '// Column kinds, nullability and allowed values, checked at runtime by validators.ts',
+    'export const DATABASE_COLUMNS = {'
+  );
+
+  for (const table of tables) {
+    lines.push(`  ${table.name}: {`);
+    for (const column of byName(table.columns)) {
+      lines.push(renderColumnSpec(column, enums));
+    }
+    lines.push('  },');
+  }
+
+  lines.push('} as const;', '');
+
+  return lines.join('\n');
+}
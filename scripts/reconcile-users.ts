@@ -0,0 +1,97 @@
+/**
+ * Reconcile Users Script for Directus-Firebase-Supabase Setup
+ * This script compares Firebase Auth users with the Supabase public.users table
+ * and reports missing, orphaned and mismatched rows
+ *
+ * Usage:
+ *   npm run reconcile-users                 # Report drift only
+ *   npm run reconcile-users -- --apply      # Fix drift (upsert missing, update mismatched, delete orphaned)
+ *   npm run reconcile-users -- --json       # Print the full report as JSON
+ *   or
+ *   npx tsx scripts/reconcile-users.ts [options]
+ *
+ * Set FIREBASE_AUTH_EMULATOR_HOST (e.g. localhost:9099) to run against the Auth emulator.
+ */
+
+import { runReconciliation } from '../functions/src/reconcile';
+import { AdminClients, createAdminClients } from './lib/admin-clients';
+
+// ANSI color codes for console output
+const colors = {
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  red: '\x1b[31m',
+  reset: '\x1b[0m',
+};
+
+async function reconcileUsers() {
+  console.log(`${colors.green}=== Reconcile Users ===${colors.reset}\n`);
+
+  const args = process.argv.slice(2);
+  const apply = args.includes('--apply');
+  const json = args.includes('--json');
+
+  let clients: AdminClients;
+  try {
+    clients = createAdminClients();
+  } catch (error) {
+    console.error(`${colors.red}Error: ${error instanceof Error ? error.message : String(error)}${colors.reset}`);
+    process.exit(1);
+  }
+
+  const { auth, supabase, projectId, emulatorHost } = clients;
+
+  console.log(`  Firebase project: ${projectId}${emulatorHost ? ` (emulator at ${emulatorHost})` : ''}`);
+  console.log(`  Mode: ${apply ? 'apply' : 'report only'}`);
+  console.log('');
+
+  try {
+    const report = await runReconciliation(auth, supabase, { apply });
+
+    if (json) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    console.log(`Firebase users: ${report.firebaseCount}`);
+    console.log(`Supabase rows:  ${report.supabaseCount}`);
+    console.log('');
+
+    console.log(`${colors.yellow}Missing from Supabase (${report.missing.length}):${colors.reset}`);
+    report.missing.forEach(user => console.log(`  + ${user.firebase_uid} ${user.email}`));
+
+    console.log(`${colors.yellow}Orphaned in Supabase (${report.orphaned.length}):${colors.reset}`);
+    report.orphaned.forEach(uid => console.log(`  - ${uid}`));
+
+    console.log(`${colors.yellow}Mismatched profiles (${report.mismatched.length}):${colors.reset}`);
+    report.mismatched.forEach(mismatch => {
+      console.log(`  ~ ${mismatch.uid} ${Object.keys(mismatch.changes).join(', ')}`);
+    });
+
+    console.log(`${colors.yellow}Soft-deleted but still in Firebase (${report.softDeleted.length}):${colors.reset}`);
+    report.softDeleted.forEach(uid => console.log(`  ! ${uid}`));
+
+    console.log('');
+    const drift = report.missing.length + report.orphaned.length + report.mismatched.length;
+    if (drift === 0) {
+      console.log(`${colors.green}✓ Firebase Auth and public.users are in sync${colors.reset}`);
+    } else if (report.applied) {
+      console.log(`${colors.green}✓ Fixed ${drift} drifted users${colors.reset}`);
+    } else {
+      console.log(`${colors.yellow}Found ${drift} drifted users. Re-run with --apply to fix them.${colors.reset}`);
+    }
+
+    if (report.softDeleted.length > 0) {
+      console.log(`${colors.yellow}Soft-deleted users are never restored automatically: delete them in Firebase or restore their rows.${colors.reset}`);
+    }
+
+  } catch (error) {
+    console.error('');
+    console.error(`${colors.red}✗ Reconciliation failed!${colors.reset}`);
+    console.error(`${colors.red}Error: ${error instanceof Error ? error.message : JSON.stringify(error)}${colors.reset}`);
+    process.exit(1);
+  }
+}
+
+// Run the reconcile script
+reconcileUsers();
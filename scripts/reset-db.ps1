@@ -63,10 +63,18 @@ Write-Host "Step 1: Dropping all tables..." -ForegroundColor Yellow
 
 $dropSql = @"
 -- Drop all tables in public schema
+DROP TABLE IF EXISTS public.user_identities CASCADE;
+DROP TABLE IF EXISTS public.sync_failures CASCADE;
 DROP TABLE IF EXISTS public.users CASCADE;
 
 -- Drop functions
 DROP FUNCTION IF EXISTS update_updated_at_column() CASCADE;
+DROP FUNCTION IF EXISTS protect_user_custom_claims() CASCADE;
+DROP FUNCTION IF EXISTS auth.has_any_role(TEXT[]) CASCADE;
+DROP FUNCTION IF EXISTS auth.has_role(TEXT) CASCADE;
+DROP FUNCTION IF EXISTS auth.jwt_claim(TEXT) CASCADE;
+DROP FUNCTION IF EXISTS public.user_data_references() CASCADE;
+DROP FUNCTION IF EXISTS public.erase_user(TEXT, JSONB) CASCADE;
 
 -- Drop extensions (optional, will be recreated)
 -- DROP EXTENSION IF EXISTS "uuid-ossp";
@@ -130,6 +138,24 @@ if (Test-Path "init-scripts/02-setup-rls.sql") {
 
 Write-Host ""
 
+# Run remaining migration scripts (03 and later) in order
+Get-ChildItem "init-scripts/*.sql" | Sort-Object Name | Where-Object {
+    $_.Name -ne "01-create-schema.sql" -and $_.Name -ne "02-setup-rls.sql"
+} | ForEach-Object {
+    Write-Host "Running $($_.Name)..." -ForegroundColor Green
+
+    try {
+        Get-Content $_.FullName | docker exec -i directus-postgres psql -U $env:DB_USER -d $env:DB_NAME
+        Write-Host "✓ $($_.Name) applied successfully" -ForegroundColor Green
+    } catch {
+        Write-Host "✗ Failed to apply $($_.Name)!" -ForegroundColor Red
+        Write-Host $_.Exception.Message -ForegroundColor Red
+        exit 1
+    }
+}
+
+Write-Host ""
+
 # Step 3: Verify database setup
 Write-Host "Step 3: Verifying database setup..." -ForegroundColor Yellow
 
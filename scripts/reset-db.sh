@@ -64,10 +64,18 @@ echo -e "${YELLOW}Step 1: Dropping all tables...${NC}"
 
 DROP_SQL="
 -- Drop all tables in public schema
+DROP TABLE IF EXISTS public.user_identities CASCADE;
+DROP TABLE IF EXISTS public.sync_failures CASCADE;
 DROP TABLE IF EXISTS public.users CASCADE;
 
 -- Drop functions
 DROP FUNCTION IF EXISTS update_updated_at_column() CASCADE;
+DROP FUNCTION IF EXISTS protect_user_custom_claims() CASCADE;
+DROP FUNCTION IF EXISTS auth.has_any_role(TEXT[]) CASCADE;
+DROP FUNCTION IF EXISTS auth.has_role(TEXT) CASCADE;
+DROP FUNCTION IF EXISTS auth.jwt_claim(TEXT) CASCADE;
+DROP FUNCTION IF EXISTS public.user_data_references() CASCADE;
+DROP FUNCTION IF EXISTS public.erase_user(TEXT, JSONB) CASCADE;
 
 -- Drop extensions (optional, will be recreated)
 -- DROP EXTENSION IF EXISTS \"uuid-ossp\";
@@ -129,6 +137,26 @@ fi
 
 echo ""
 
+# Run remaining migration scripts (03 and later) in order
+for migration in init-scripts/*.sql; do
+    filename=$(basename "$migration")
+    case "$filename" in
+        01-create-schema.sql|02-setup-rls.sql) continue ;;
+    esac
+
+    echo -e "${GREEN}Running ${filename}...${NC}"
+    docker exec -i directus-postgres psql -U "$DB_USER" -d "$DB_NAME" < "$migration"
+
+    if [ $? -eq 0 ]; then
+        echo -e "${GREEN}✓ ${filename} applied successfully${NC}"
+    else
+        echo -e "${RED}✗ Failed to apply ${filename}!${NC}"
+        exit 1
+    fi
+done
+
+echo ""
+
 # Step 3: Verify database setup
 echo -e "${YELLOW}Step 3: Verifying database setup...${NC}"
 
@@ -0,0 +1,125 @@
+/**
+ * Sync Failures Script for Directus-Firebase-Supabase Setup
+ * This script inspects and manages the user sync dead-letter queue (public.sync_failures)
+ *
+ * Usage:
+ *   npm run sync-failures                      # List pending and dead entries
+ *   npm run sync-failures -- --requeue-dead    # Move dead entries back to pending for replay
+ *   npm run sync-failures -- --retry-now       # Make all pending entries due on the next replay run
+ *   npm run sync-failures -- --discard <id>    # Mark a single entry as resolved without replaying it
+ *   or
+ *   npx tsx scripts/sync-failures.ts [options]
+ */
+
+import { Client } from 'pg';
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+// Load environment variables
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+// ANSI color codes for console output
+const colors = {
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  red: '\x1b[31m',
+  reset: '\x1b[0m',
+};
+
+async function manageSyncFailures() {
+  console.log(`${colors.green}=== Sync Failures ===${colors.reset}\n`);
+
+  // Check required environment variables
+  const { DB_USER, DB_PASSWORD, DB_NAME } = process.env;
+
+  if (!DB_USER || !DB_PASSWORD || !DB_NAME) {
+    console.error(`${colors.red}Error: Required database environment variables are not set!${colors.reset}`);
+    console.error('Please ensure DB_USER, DB_PASSWORD, and DB_NAME are configured in .env');
+    process.exit(1);
+  }
+
+  const args = process.argv.slice(2);
+
+  // Create PostgreSQL client
+  const client = new Client({
+    host: 'localhost',
+    port: 5432,
+    user: DB_USER,
+    password: DB_PASSWORD,
+    database: DB_NAME,
+  });
+
+  try {
+    await client.connect();
+
+    if (args.includes('--requeue-dead')) {
+      const result = await client.query(`
+        UPDATE public.sync_failures
+        SET status = 'pending', attempts = 0, next_retry_at = NOW()
+        WHERE status = 'dead';
+      `);
+      console.log(`${colors.green}✓ Requeued ${result.rowCount} dead entries${colors.reset}\n`);
+    }
+
+    if (args.includes('--retry-now')) {
+      const result = await client.query(`
+        UPDATE public.sync_failures
+        SET next_retry_at = NOW()
+        WHERE status = 'pending';
+      `);
+      console.log(`${colors.green}✓ ${result.rowCount} pending entries are due on the next replay run${colors.reset}\n`);
+    }
+
+    const discardIndex = args.indexOf('--discard');
+    if (discardIndex !== -1) {
+      const id = args[discardIndex + 1];
+      if (!id) {
+        console.error(`${colors.red}Error: --discard requires an entry id${colors.reset}`);
+        process.exit(1);
+      }
+
+      const result = await client.query(
+        `UPDATE public.sync_failures SET status = 'resolved', resolved_at = NOW() WHERE id = $1;`,
+        [id]
+      );
+      console.log(`${colors.green}✓ Discarded ${result.rowCount} entry${colors.reset}\n`);
+    }
+
+    // Display the queue
+    const result = await client.query(`
+      SELECT id, firebase_uid, operation, status, attempts, error_code, error_message, next_retry_at
+      FROM public.sync_failures
+      WHERE status IN ('pending', 'dead')
+      ORDER BY status, next_retry_at NULLS LAST;
+    `);
+
+    if (result.rows.length === 0) {
+      console.log(`${colors.green}✓ Queue is empty${colors.reset}`);
+      return;
+    }
+
+    console.log(`${colors.yellow}${result.rows.length} unresolved entries:${colors.reset}`);
+    for (const row of result.rows) {
+      const color = row.status === 'dead' ? colors.red : colors.yellow;
+      console.log(`  ${color}[${row.status}]${colors.reset} ${row.id} ${row.operation} ${row.firebase_uid}`);
+      console.log(`      attempts: ${row.attempts}, error: ${row.error_code || 'n/a'} ${row.error_message || ''}`);
+      if (row.next_retry_at) {
+        console.log(`      next retry: ${new Date(row.next_retry_at).toISOString()}`);
+      }
+    }
+    console.log('');
+    console.log(`${colors.yellow}Note: Pending entries are replayed by the processSyncFailures Cloud Function.${colors.reset}`);
+
+  } catch (error) {
+    console.error('');
+    console.error(`${colors.red}✗ Failed to read sync failures!${colors.reset}`);
+    console.error(`${colors.red}Error: ${error instanceof Error ? error.message : String(error)}${colors.reset}`);
+    process.exit(1);
+  } finally {
+    // Close database connection
+    await client.end();
+  }
+}
+
+// Run the script
+manageSyncFailures();
@@ -19,48 +19,16 @@ import { describe, it, expect, beforeAll } from 'vitest';
 import fc from 'fast-check';
 import * as fs from 'fs';
 import * as path from 'path';
-
-// Required environment variables based on requirements
-const REQUIRED_ENV_VARS = [
-  // Database configuration (Requirement 8.3)
-  'DB_USER',
-  'DB_PASSWORD',
-  'DB_NAME',
-  
-  // Directus configuration (Requirement 8.3)
-  'DIRECTUS_KEY',
-  'DIRECTUS_SECRET',
-  
-  // Firebase configuration (Requirement 8.4)
-  'FIREBASE_PROJECT_ID',
-  'FIREBASE_PRIVATE_KEY',
-  'FIREBASE_CLIENT_EMAIL',
-  
-  // Supabase configuration (Requirement 8.5)
-  'SUPABASE_URL',
-  'SUPABASE_ANON_KEY',
-  'SUPABASE_SERVICE_ROLE_KEY',
-];
-
-// Patterns that indicate placeholder values (not real secrets)
-const PLACEHOLDER_PATTERNS = [
-  /your[_-]/i,
-  /example/i,
-  /placeholder/i,
-  /xxxxx/i,
-  /\.\.\./,
-  /changeme/i,
-  /replace/i,
-  /here/i,
-];
-
-// Patterns that indicate real secrets (should NOT be in .env.example)
-const REAL_SECRET_PATTERNS = [
-  /^[A-Za-z0-9+/]{40,}={0,2}$/, // Base64 encoded secrets
-  /^AIza[A-Za-z0-9_-]{35}$/, // Firebase API keys
-  /^https:\/\/[a-z0-9]{20,}\.supabase\.co$/, // Real Supabase URLs
-  /^eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/, // JWT tokens
-];
+// Rules shared with the functions config loader (single source of truth)
+import {
+  FUNCTIONS_REQUIRED_ENV_VARS,
+  PLACEHOLDER_PATTERNS,
+  REQUIRED_ENV_VARS,
+  SENSITIVE_ENV_VARS,
+  isExampleValue,
+  isPlaceholder,
+  looksLikeRealSecret,
+} from '../../functions/src/config-rules';
 
 interface EnvFileContent {
   raw: string;
@@ -109,33 +77,6 @@ function parseEnvFile(filePath: string): EnvFileContent {
   return { raw, lines, variables };
 }
 
-/**
- * Check if a value is a placeholder (not a real secret)
- */
-function isPlaceholder(value: string): boolean {
-  // Empty values are considered placeholders
-  if (!value || value.trim() === '') {
-    return true;
-  }
-  
-  // Remove quotes
-  const cleanValue = value.replace(/^["']|["']$/g, '');
-  
-  // Check if matches placeholder patterns
-  return PLACEHOLDER_PATTERNS.some(pattern => pattern.test(cleanValue));
-}
-
-/**
- * Check if a value looks like a real secret
- */
-function looksLikeRealSecret(value: string): boolean {
-  // Remove quotes
-  const cleanValue = value.replace(/^["']|["']$/g, '');
-  
-  // Check if matches real secret patterns
-  return REAL_SECRET_PATTERNS.some(pattern => pattern.test(cleanValue));
-}
-
 describe('Property 3: Environment Configuration Completeness', () => {
   let envExamplePath: string;
   let envContent: EnvFileContent;
@@ -324,22 +265,13 @@ describe('Property 3: Environment Configuration Completeness', () => {
       throw new Error('.env.example file does not exist');
     }
 
-    const SENSITIVE_VARS = [
-      'DIRECTUS_KEY',
-      'DIRECTUS_SECRET',
-      'FIREBASE_PRIVATE_KEY',
-      'SUPABASE_ANON_KEY',
-      'SUPABASE_SERVICE_ROLE_KEY',
-      'SUPABASE_JWT_SECRET',
-    ];
-
     await fc.assert(
       fc.asyncProperty(
         fc.constant(null),
         async () => {
           const content = parseEnvFile(envExamplePath);
           
-          for (const sensitiveVar of SENSITIVE_VARS) {
+          for (const sensitiveVar of SENSITIVE_ENV_VARS) {
             if (content.variables.has(sensitiveVar)) {
               const varInfo = content.variables.get(sensitiveVar)!;
               const value = varInfo.value.replace(/^["']|["']$/g, '');
@@ -414,4 +346,34 @@ describe('Property 3: Environment Configuration Completeness', () => {
       { numRuns: 100 }
     );
   });
+
+  /**
+   * Property Test: The functions .env.example documents what the config loader requires
+   *
+   * The loader in functions/src/config.ts rejects exactly the values listed
+   * in EXAMPLE_ENV_VALUES, so every required variable must be present with
+   * that placeholder value, in both example files.
+   */
+  it('should document the variables required by Cloud Functions', async () => {
+    const functionsEnvPath = path.join(process.cwd(), 'functions', '.env.example');
+    expect(fs.existsSync(functionsEnvPath)).toBe(true);
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom(...FUNCTIONS_REQUIRED_ENV_VARS),
+        async (requiredVar) => {
+          const content = parseEnvFile(functionsEnvPath);
+          const varInfo = content.variables.get(requiredVar);
+
+          expect(varInfo, `Missing ${requiredVar} in functions/.env.example`).toBeDefined();
+          expect(varInfo!.hasComment).toBe(true);
+          expect(isPlaceholder(varInfo!.value)).toBe(true);
+          expect(looksLikeRealSecret(varInfo!.value)).toBe(false);
+          expect(isExampleValue(requiredVar, varInfo!.value)).toBe(true);
+          expect(isExampleValue(requiredVar, envContent.variables.get(requiredVar)!.value)).toBe(true);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
 });
@@ -9,6 +9,14 @@
  * matching the uid in the JWT token, and must reject access to rows of other users,
  * unless using service role key.
  * 
+ * Role-based layer (05-setup-role-based-rls.sql): callers whose JWT carries
+ * app_role "admin" may read, update and delete every row; app_role "support"
+ * may read every row; any other app_role falls back to the own-row policies.
+ * The JWT `role` claim stays the Postgres role, as PostgREST uses it.
+ * 
+ * Soft delete (06-add-soft-delete.sql): rows with deleted_at set are hidden
+ * from every caller except admins.
+ * 
  * Validates: Requirements 5.2, 5.3, 5.4, 5.5, 5.6, 5.7
  * 
  * Feature: directus-firebase-supabase-setup, Property 2: Row Level Security Access Control
@@ -51,6 +59,30 @@ const createClientWithRole = async (role: 'authenticated' | 'service_role' | 'an
   return client;
 };
 
+type JwtClaims = { sub: string; role?: string; app_role?: string };
+
+/**
+ * Run queries as an API caller with the given JWT claims
+ *
+ * Like PostgREST, switches to the Postgres role named by the `role` claim
+ * (anon when it is missing). Everything runs inside a transaction that is
+ * rolled back, so writes made by the callback never persist.
+ */
+const asCaller = async <T>(
+  client: Client,
+  claims: JwtClaims,
+  fn: () => Promise<T>
+): Promise<T> => {
+  await client.query('BEGIN');
+  try {
+    await client.query(`SELECT set_config('role', $1, true)`, [claims.role ?? 'anon']);
+    await client.query(`SELECT set_config('request.jwt.claims', $1, true)`, [JSON.stringify(claims)]);
+    return await fn();
+  } finally {
+    await client.query('ROLLBACK');
+  }
+};
+
 describe('Property 2: Row Level Security Access Control', () => {
   let adminClient: Client;
   let rlsApplied = false;
@@ -71,6 +103,16 @@ describe('Property 2: Row Level Security Access Control', () => {
       const rlsMigrationPath = path.join(process.cwd(), 'init-scripts', '02-setup-rls.sql');
       const rlsMigrationSQL = fs.readFileSync(rlsMigrationPath, 'utf8');
       await adminClient.query(rlsMigrationSQL);
+
+      // Apply role-based RLS migration
+      const roleMigrationPath = path.join(process.cwd(), 'init-scripts', '05-setup-role-based-rls.sql');
+      const roleMigrationSQL = fs.readFileSync(roleMigrationPath, 'utf8');
+      await adminClient.query(roleMigrationSQL);
+
+      // Apply soft delete migration
+      const softDeleteMigrationPath = path.join(process.cwd(), 'init-scripts', '06-add-soft-delete.sql');
+      const softDeleteMigrationSQL = fs.readFileSync(softDeleteMigrationPath, 'utf8');
+      await adminClient.query(softDeleteMigrationSQL);
       
       rlsApplied = true;
     } catch (error) {
@@ -86,6 +128,9 @@ describe('Property 2: Row Level Security Access Control', () => {
         // Clean up test data and policies
         await adminClient.query('DROP TABLE IF EXISTS public.users CASCADE');
         await adminClient.query('DROP FUNCTION IF EXISTS update_updated_at_column CASCADE');
+        await adminClient.query('DROP FUNCTION IF EXISTS auth.has_any_role(TEXT[])');
+        await adminClient.query('DROP FUNCTION IF EXISTS auth.has_role(TEXT)');
+        await adminClient.query('DROP FUNCTION IF EXISTS auth.jwt_claim(TEXT)');
         await adminClient.end();
       } catch (error) {
         // Ignore cleanup errors
@@ -515,4 +560,200 @@ describe('Property 2: Row Level Security Access Control', () => {
       { numRuns: 100 }
     );
   });
+
+  /**
+   * Property Test: has_role reflects the app_role claim of the request JWT
+   *
+   * This property verifies that for any claimed app_role and any queried role,
+   * auth.has_role() is true exactly when they are equal, and false when the
+   * JWT carries no app_role at all. The Postgres `role` claim never counts.
+   */
+  it('should resolve auth.has_role() from the JWT app_role claim', async () => {
+    if (!rlsApplied) {
+      console.warn('Skipping test: Database or RLS not available');
+      return;
+    }
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.option(fc.constantFrom('admin', 'support', 'editor', 'authenticated'), { nil: undefined }),
+        fc.constantFrom('admin', 'support', 'editor', 'authenticated'),
+        async (claimedRole, queriedRole) => {
+          const claims: JwtClaims = { sub: 'role-check-uid', role: 'authenticated', app_role: claimedRole };
+
+          await adminClient.query('BEGIN');
+          try {
+            await adminClient.query(`SELECT set_config('request.jwt.claims', $1, true)`, [JSON.stringify(claims)]);
+            const result = await adminClient.query(
+              'SELECT auth.has_role($1) AS has_role, auth.has_any_role(ARRAY[$1, $2]) AS has_any_role',
+              [queriedRole, 'support']
+            );
+
+            expect(result.rows[0].has_role).toBe(claimedRole === queriedRole);
+            expect(result.rows[0].has_any_role).toBe(
+              claimedRole === queriedRole || claimedRole === 'support'
+            );
+          } finally {
+            await adminClient.query('ROLLBACK');
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  /**
+   * Property Test: Role-based policies cover the expected command matrix
+   *
+   * Admins: SELECT, UPDATE, DELETE on every row
+   * Support: SELECT on every row, no write policies
+   */
+  it('should configure role-based policies for admin and support', async () => {
+    if (!rlsApplied) {
+      console.warn('Skipping test: Database or RLS not available');
+      return;
+    }
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constant(null),
+        async () => {
+          const policiesResult = await adminClient.query(`
+            SELECT
+              polcmd,
+              coalesce(pg_get_expr(polqual, polrelid), '') || ' ' ||
+                coalesce(pg_get_expr(polwithcheck, polrelid), '') as expression
+            FROM pg_policy
+            WHERE polrelid = 'public.users'::regclass
+              AND polpermissive
+          `);
+
+          const commandsFor = (roleName: string) => policiesResult.rows
+            .filter(p => p.expression.includes('has_') && p.expression.includes(`'${roleName}'`))
+            .map(p => p.polcmd)
+            .sort();
+
+          expect(commandsFor('admin')).toEqual(['d', 'r', 'w']);
+          expect(commandsFor('support')).toEqual(['r']);
+        }
+      ),
+      { numRuns: 10 }
+    );
+  });
+
+  /**
+   * Property Test: Effective access matrix per role
+   *
+   * For any set of users and any caller role, verifies which rows the caller
+   * can actually read, update and delete through RLS:
+   * - admin: all rows for every command
+   * - support: reads all rows, updates only its own row, deletes nothing
+   * - other roles / no role: reads and updates only its own row, deletes nothing
+   */
+  it('should enforce the role-based access matrix', async () => {
+    if (!rlsApplied) {
+      console.warn('Skipping test: Database or RLS not available');
+      return;
+    }
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.uniqueArray(fc.uuid(), { minLength: 2, maxLength: 5 }),
+        fc.option(fc.constantFrom('admin', 'support', 'editor'), { nil: undefined }),
+        async (uids, callerRole) => {
+          const firebaseUids = uids.map(uid => `rls-role-${uid}`);
+          const callerUid = firebaseUids[0];
+
+          await adminClient.query('DELETE FROM public.users WHERE firebase_uid = ANY($1)', [firebaseUids]);
+          for (const uid of firebaseUids) {
+            await adminClient.query(
+              'INSERT INTO public.users (firebase_uid, email) VALUES ($1, $2)',
+              [uid, `${uid}@test.com`]
+            );
+          }
+
+          const claims: JwtClaims = { sub: callerUid, role: 'authenticated', app_role: callerRole };
+          const isAdmin = callerRole === 'admin';
+          const isStaff = isAdmin || callerRole === 'support';
+
+          try {
+            const readable = await asCaller(adminClient, claims, async () => {
+              const result = await adminClient.query(
+                'SELECT firebase_uid FROM public.users WHERE firebase_uid = ANY($1)',
+                [firebaseUids]
+              );
+              return result.rowCount;
+            });
+            expect(readable).toBe(isStaff ? firebaseUids.length : 1);
+
+            const updatable = await asCaller(adminClient, claims, async () => {
+              const result = await adminClient.query(
+                `UPDATE public.users SET display_name = 'changed' WHERE firebase_uid = ANY($1)`,
+                [firebaseUids]
+              );
+              return result.rowCount;
+            });
+            expect(updatable).toBe(isAdmin ? firebaseUids.length : 1);
+
+            const deletable = await asCaller(adminClient, claims, async () => {
+              const result = await adminClient.query(
+                'DELETE FROM public.users WHERE firebase_uid = ANY($1)',
+                [firebaseUids]
+              );
+              return result.rowCount;
+            });
+            expect(deletable).toBe(isAdmin ? firebaseUids.length : 0);
+          } finally {
+            await adminClient.query('DELETE FROM public.users WHERE firebase_uid = ANY($1)', [firebaseUids]);
+          }
+        }
+      ),
+      { numRuns: 25 }
+    );
+  });
+
+  /**
+   * Property Test: Soft-deleted rows are hidden from non-admin callers
+   *
+   * For any caller role, a soft-deleted row (including the caller's own row)
+   * is invisible unless the caller is an admin.
+   */
+  it('should hide soft-deleted users from everyone but admins', async () => {
+    if (!rlsApplied) {
+      console.warn('Skipping test: Database or RLS not available');
+      return;
+    }
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.uuid(),
+        fc.option(fc.constantFrom('admin', 'support', 'editor'), { nil: undefined }),
+        async (uid, callerRole) => {
+          const firebaseUid = `rls-deleted-${uid}`;
+
+          await adminClient.query('DELETE FROM public.users WHERE firebase_uid = $1', [firebaseUid]);
+          await adminClient.query(
+            `INSERT INTO public.users (firebase_uid, email, deleted_at)
+             VALUES ($1, $2, NOW())`,
+            [firebaseUid, `${firebaseUid}@deleted.invalid`]
+          );
+
+          try {
+            const visible = await asCaller(adminClient, { sub: firebaseUid, role: 'authenticated', app_role: callerRole }, async () => {
+              const result = await adminClient.query(
+                'SELECT firebase_uid FROM public.users WHERE firebase_uid = $1',
+                [firebaseUid]
+              );
+              return result.rowCount;
+            });
+
+            expect(visible).toBe(callerRole === 'admin' ? 1 : 0);
+          } finally {
+            await adminClient.query('DELETE FROM public.users WHERE firebase_uid = $1', [firebaseUid]);
+          }
+        }
+      ),
+      { numRuns: 25 }
+    );
+  });
 });
@@ -0,0 +1,175 @@
+/**
+ * Unit Tests for Database Type Generation
+ *
+ * Tests cover:
+ * - Parsing CHECK (column IN (...)) constraints
+ * - Mapping Postgres types to TypeScript types and runtime kinds
+ * - Building the schema model from introspection rows
+ * - Rendering the Database type and column metadata
+ *
+ * Introspection runs against a fake client, so no database is needed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  Queryable,
+  SchemaModel,
+  columnKind,
+  columnType,
+  introspectSchema,
+  parseCheckValues,
+  renderDatabaseTypes,
+} from '../../scripts/lib/db-types';
+
+/**
+ * Fake pg client answering the columns, enums and constraints queries
+ */
+function createFakeClient(rows: { columns: any[]; enums: any[]; constraints: any[] }): Queryable {
+  return {
+    async query(text: string) {
+      if (text.includes('information_schema.columns')) return { rows: rows.columns };
+      if (text.includes('pg_enum')) return { rows: rows.enums };
+      return { rows: rows.constraints };
+    },
+  };
+}
+
+const column = (table_name: string, column_name: string, udt_name: string, is_nullable = 'YES', column_default: string | null = null) =>
+  ({ table_name, column_name, udt_name, is_nullable, column_default, is_identity: 'NO' });
+
+describe('Database Type Generation - Unit Tests', () => {
+  describe('parseCheckValues', () => {
+    it('should read the values of an IN (...) check', () => {
+      const definition = "CHECK (((status)::text = ANY ((ARRAY['draft'::character varying, 'active'::character varying, 'archived'::character varying])::text[])))";
+
+      expect(parseCheckValues(definition)).toEqual(['draft', 'active', 'archived']);
+    });
+
+    it('should unescape quotes and keep commas and brackets in values', () => {
+      expect(parseCheckValues("CHECK ((kind = ANY (ARRAY['it''s'::text, 'a, [b]'::text])))")).toEqual(["it's", 'a, [b]']);
+    });
+
+    it('should ignore other checks', () => {
+      expect(parseCheckValues('CHECK ((quantity > 0))')).toBeNull();
+    });
+  });
+
+  describe('columnKind and columnType', () => {
+    it('should map Postgres types', () => {
+      expect(columnKind('varchar')).toBe('string');
+      expect(columnKind('timestamptz')).toBe('string');
+      expect(columnKind('numeric')).toBe('number');
+      expect(columnKind('bool')).toBe('boolean');
+      expect(columnKind('jsonb')).toBe('json');
+      expect(columnKind('point')).toBe('unknown');
+    });
+
+    it('should type arrays, enums and checked values', () => {
+      const enums = { mood: ['happy', 'sad'] };
+
+      expect(columnType({ name: 'tags', udtName: '_text', nullable: true, hasDefault: false })).toBe('string[]');
+      expect(columnType({ name: 'mood', udtName: 'mood', nullable: false, hasDefault: false }, enums))
+        .toBe("Database['public']['Enums']['mood']");
+      expect(columnType({ name: 'status', udtName: 'varchar', nullable: false, hasDefault: false, values: ['a', 'b'] }))
+        .toBe('"a" | "b"');
+      expect(columnType({ name: 'payload', udtName: 'jsonb', nullable: false, hasDefault: false })).toBe('Json');
+    });
+  });
+
+  describe('introspectSchema', () => {
+    it('should build tables with enums, checks and relationships', async () => {
+      const client = createFakeClient({
+        columns: [
+          column('orders', 'id', 'uuid', 'NO', 'uuid_generate_v4()'),
+          column('orders', 'status', 'varchar', 'YES', "'pending'::character varying"),
+          column('orders', 'user_id', 'varchar', 'NO'),
+          column('users', 'firebase_uid', 'varchar', 'NO'),
+          column('users', 'mood', 'mood'),
+        ],
+        enums: [
+          { enum_name: 'mood', value: 'happy' },
+          { enum_name: 'mood', value: 'sad' },
+        ],
+        constraints: [
+          { name: 'orders_pkey', type: 'p', table_name: 'orders', columns: ['id'] },
+          {
+            name: 'orders_status_check', type: 'c', table_name: 'orders', columns: ['status'],
+            definition: "CHECK (((status)::text = ANY ((ARRAY['pending'::character varying, 'paid'::character varying])::text[])))",
+          },
+          {
+            name: 'orders_user_id_fkey', type: 'f', table_name: 'orders', columns: ['user_id'],
+            referenced_table: 'users', referenced_columns: ['firebase_uid'],
+          },
+          { name: 'users_pkey', type: 'p', table_name: 'users', columns: ['firebase_uid'] },
+        ],
+      });
+
+      const model = await introspectSchema(client);
+
+      expect(model.enums).toEqual({ mood: ['happy', 'sad'] });
+      const orders = model.tables.find(table => table.name === 'orders')!;
+      expect(orders.columns).toEqual([
+        { name: 'id', udtName: 'uuid', nullable: false, hasDefault: true },
+        { name: 'status', udtName: 'varchar', nullable: true, hasDefault: true, values: ['pending', 'paid'] },
+        { name: 'user_id', udtName: 'varchar', nullable: false, hasDefault: false },
+      ]);
+      expect(orders.relationships).toEqual([{
+        foreignKeyName: 'orders_user_id_fkey',
+        columns: ['user_id'],
+        isOneToOne: false,
+        referencedRelation: 'users',
+        referencedColumns: ['firebase_uid'],
+      }]);
+      expect(model.tables.find(table => table.name === 'users')!.columns[1].values).toEqual(['happy', 'sad']);
+    });
+  });
+
+  describe('renderDatabaseTypes', () => {
+    const model: SchemaModel = {
+      tables: [{
+        name: 'users',
+        columns: [
+          { name: 'firebase_uid', udtName: 'varchar', nullable: false, hasDefault: false },
+          { name: 'display_name', udtName: 'varchar', nullable: true, hasDefault: false },
+          { name: 'created_at', udtName: 'timestamptz', nullable: false, hasDefault: true },
+        ],
+        relationships: [],
+      }],
+      enums: {},
+    };
+
+    it('should make defaulted and nullable columns optional on insert', () => {
+      const output = renderDatabaseTypes(model);
+
+      expect(output).toContain([
+        '        Insert: {',
+        '          created_at?: string;',
+        '          display_name?: string | null;',
+        '          firebase_uid: string;',
+        '        };',
+      ].join('\n'));
+    });
+
+    it('should render column metadata for the runtime validators', () => {
+      expect(renderDatabaseTypes(model)).toContain("    display_name: { kind: 'string', nullable: true },");
+    });
+
+    it('should be deterministic', () => {
+      const reversed = { ...model, tables: [{ ...model.tables[0], columns: [...model.tables[0].columns].reverse() }] };
+
+      expect(renderDatabaseTypes(reversed)).toBe(renderDatabaseTypes(model));
+    });
+  });
+
+  describe('client/database.types.ts', () => {
+    it('should include the core and e-commerce template tables', () => {
+      const generated = fs.readFileSync(path.resolve(__dirname, '../../client/database.types.ts'), 'utf8');
+
+      for (const table of ['users', 'sync_failures', 'products', 'categories', 'orders', 'order_items']) {
+        expect(generated).toContain(`      ${table}: {`);
+      }
+    });
+  });
+});